@@ -0,0 +1,144 @@
+/**
+ * Turn the verse references in the Hiranyagarbha notes into real citations.
+ *
+ * Every lineage script so far has recorded where a fact comes from the only way
+ * the file allowed: by ending a note with "SB 9.2.17" or "MBh 1.108". Those are
+ * now first-class: each text cited gets an entry in the `sources` registry, and
+ * every reference becomes a `citations` entry on the person or union whose note
+ * carries it, with the verse as its locator.
+ *
+ * A run of references at the very end of a note (or a single one opening it) is
+ * pure bookkeeping and is cut from the text once it's a citation; a note that was
+ * nothing but a reference goes away. References inside a sentence ("the
+ * eighteenth of the avatars, SB 1.3.22") are cited but left where they are, since
+ * the sentence reads through them.
+ *
+ * Idempotent: a citation already present is not added twice, so it is safe to
+ * re-run after any of the add-*.ts scripts has written new notes.
+ *
+ * Run: npm run extract-citations
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Citation, FamilyDataV2, SourceRecord } from "../src/core/types";
+import { validateData } from "../src/core/validate";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const PATH = resolve(here, "../public/family-data.hiranyagarbha.json");
+const data: FamilyDataV2 = JSON.parse(readFileSync(PATH, "utf8"));
+const STAMP = "2026-10-19T00:00:00.000Z";
+
+// The abbreviations the lineage scripts used, and the texts they stand for.
+const TEXTS: Record<string, { id: string; source: SourceRecord }> = {
+  SB: {
+    id: "sourceBhagavatam",
+    source: {
+      title: "Srimad Bhagavatam",
+      note: "Cited by canto.chapter.verse",
+    },
+  },
+  MBh: {
+    id: "sourceMahabharata",
+    source: { title: "Mahabharata", note: "Cited by parva.chapter" },
+  },
+  VP: { id: "sourceVishnuPurana", source: { title: "Vishnu Purana" } },
+  "Vishnu Purana": {
+    id: "sourceVishnuPurana",
+    source: { title: "Vishnu Purana" },
+  },
+  HV: { id: "sourceHarivamsha", source: { title: "Harivamsha" } },
+  Ram: {
+    id: "sourceRamayana",
+    source: { title: "Valmiki Ramayana", note: "Cited by kanda.sarga" },
+  },
+  RV: {
+    id: "sourceRigveda",
+    source: { title: "Rigveda", note: "Cited by mandala.sukta.verse" },
+  },
+  AB: { id: "sourceAitareyaBrahmana", source: { title: "Aitareya Brahmana" } },
+};
+
+const ABBR = Object.keys(TEXTS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+// "9.2.17", "9.2.17-18", "9.6-9.12", "9.2.17, 18"
+const LOC = String.raw`\d+(?:[.\-–]\d+)*(?:, ?\d+(?:[.\-–]\d+)*)*`;
+const REF = new RegExp(String.raw`\b(${ABBR}) (${LOC})`, "g");
+const TRAILING = new RegExp(
+  String.raw`(?:^|[\s.;,]+)(?:${ABBR}) ${LOC}[\s.;,]*$`,
+);
+const LEADING = new RegExp(String.raw`^(?:${ABBR}) ${LOC}\.\s+`);
+
+const citeKey = (c: Citation<string>) => `${c.sourceId}|${c.locator ?? ""}`;
+const used = new Set<string>();
+let cited = 0;
+let trimmed = 0;
+
+const extract = <F extends string>(rec: {
+  notes?: string;
+  citations?: Citation<F>[];
+  updatedAt: string;
+}): void => {
+  const notes = rec.notes;
+  if (!notes) return;
+  const found: Citation<F>[] = [...notes.matchAll(REF)].map((m) => ({
+    sourceId: TEXTS[m[1]].id,
+    locator: m[2],
+  }));
+  if (found.length === 0) return;
+
+  const have = new Set((rec.citations ?? []).map(citeKey));
+  const fresh = found.filter((c) => {
+    const k = citeKey(c);
+    if (have.has(k)) return false;
+    have.add(k);
+    return true;
+  });
+  for (const c of found) used.add(c.sourceId);
+
+  let text = notes;
+  while (TRAILING.test(text)) text = text.replace(TRAILING, "");
+  text = text.replace(LEADING, "").trim();
+  // What's left lost its closing full stop along with the reference after it.
+  if (text && text !== notes.trim() && !/[.!?)"']$/.test(text)) text += ".";
+
+  if (fresh.length === 0 && text === notes) return;
+  if (fresh.length) rec.citations = [...(rec.citations ?? []), ...fresh];
+  if (text !== notes) {
+    trimmed++;
+    if (text) rec.notes = text;
+    else delete rec.notes;
+  }
+  cited += fresh.length;
+  rec.updatedAt = STAMP;
+};
+
+for (const p of data.people) extract(p);
+for (const u of data.unions) extract(u);
+
+const sources: Record<string, SourceRecord> = { ...data.sources };
+for (const { id, source } of Object.values(TEXTS)) {
+  if (used.has(id) && !(id in sources)) sources[id] = source;
+}
+
+// Spread the file so whatever else it carries (queries, tombstones) survives.
+const out: FamilyDataV2 = {
+  ...data,
+  meta: { ...data.meta, exportedAt: STAMP },
+  people: data.people,
+  unions: data.unions,
+  ...(data.places ? { places: data.places } : {}),
+  sources,
+};
+
+const { errors } = validateData(out);
+if (errors.length) {
+  console.error(`${errors.length} validation errors, nothing written:`);
+  for (const e of errors.slice(0, 20)) console.error("  " + e);
+  process.exit(1);
+}
+writeFileSync(PATH, JSON.stringify(out, null, 2) + "\n");
+console.log(
+  `${cited} citations from ${Object.keys(sources).length} sources; ${trimmed} notes trimmed`,
+);
@@ -6,13 +6,19 @@ import DetailCard from './ui/DetailCard';
 import RelationPanel from './ui/RelationPanel';
 import PersonForm from './ui/PersonForm';
 import FamilyEditor from './ui/FamilyEditor';
+import HistoryPanel from './ui/HistoryPanel';
+import UnionEditor from './ui/UnionEditor';
+import RelationTable from './ui/RelationTable';
+import QueryPanel from './ui/QueryPanel';
+import QualityPanel from './ui/QualityPanel';
+import ImportPreview from './ui/ImportPreview';
 import {
   ConfirmDeleteModal,
   ConfirmResetModal,
   Hint,
   ImportErrorModal,
+  ImportModal,
   MergePersonModal,
-  MergeReportModal,
   Toast,
 } from './ui/Modals';
 import { useStore } from './state/store';
@@ -84,6 +90,13 @@ export default function App() {
     const onKey = (e: KeyboardEvent) => {
       const tag = (e.target as HTMLElement)?.tagName;
       if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      // Undo/redo of tree edits; inside a text field the browser's own undo wins.
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z' || e.key === 'y')) {
+        e.preventDefault();
+        if (e.key === 'y' || e.shiftKey) useStore.getState().redo();
+        else useStore.getState().undo();
+        return;
+      }
       if (e.key === 'Escape') useStore.getState().escape();
       else if (e.key === 'r' || e.key === 'R') useStore.getState().toggleRelationMode();
     };
@@ -119,8 +132,14 @@ export default function App() {
       <Toast />
       <PersonForm />
       <FamilyEditor />
+      <UnionEditor />
+      <RelationTable />
+      <HistoryPanel />
+      <QueryPanel />
+      <QualityPanel />
+      <ImportPreview />
       <MergePersonModal />
-      <MergeReportModal />
+      <ImportModal />
       <ImportErrorModal />
       <ConfirmResetModal />
       <ConfirmDeleteModal />
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import {
+  coefficientOfRelationship,
+  formatCoefficient,
+  inbreedingCoefficient,
+  pedigreeCollapse,
+} from "../consanguinity";
+import { fixture } from "./fixture";
+
+// UncleB's daughter CousinF marries her first cousin Son; their child is Inbred.
+const raw = fixture();
+const base = raw.people.find((p) => p.id === "Dau")!;
+raw.people.push(
+  { ...base, id: "CousinF", firstName: "CousinF", birthFamilyId: "famB" },
+  { ...base, id: "Inbred", firstName: "Inbred" },
+);
+const union = raw.unions.find((u) => u.id === "u_dad_mom")!;
+raw.unions.push(
+  {
+    ...union,
+    id: "u_uncleB",
+    partners: ["UncleB"],
+    children: ["CousinF"],
+    adoptedChildren: [],
+  },
+  {
+    ...union,
+    id: "u_son_cousin",
+    partners: ["Son", "CousinF"],
+    children: ["Inbred"],
+    adoptedChildren: [],
+  },
+);
+const ds = buildDataset(raw);
+
+describe("coefficient of relationship", () => {
+  it("gives the textbook values for an outbred family", () => {
+    expect(coefficientOfRelationship(ds, "Son", "Dau")).toBe(0.5);
+    expect(coefficientOfRelationship(ds, "Son", "Mom")).toBe(0.5);
+    expect(coefficientOfRelationship(ds, "Son", "HalfSis")).toBe(0.25);
+    expect(coefficientOfRelationship(ds, "Son", "GpaA")).toBe(0.25);
+    expect(coefficientOfRelationship(ds, "Son", "CousinF")).toBe(0.125);
+    expect(coefficientOfRelationship(ds, "Son", "Son")).toBe(1);
+  });
+
+  it("ignores spouses and adoption", () => {
+    expect(coefficientOfRelationship(ds, "Dad", "Mom")).toBe(0);
+    expect(coefficientOfRelationship(ds, "Son", "AdoptedKid")).toBe(0);
+    expect(coefficientOfRelationship(ds, "Son", "Hermit")).toBe(0);
+  });
+
+  it("rises when the two share ancestry more than one way", () => {
+    // Son is Inbred's father and, through CousinF, also a first cousin once up.
+    expect(coefficientOfRelationship(ds, "Inbred", "Son")).toBeCloseTo(
+      0.5625 / Math.sqrt(1.0625),
+    );
+  });
+});
+
+describe("inbreeding and pedigree collapse", () => {
+  it("gives a first cousins' child F = 1/16", () => {
+    expect(inbreedingCoefficient(ds, "Inbred")).toBe(0.0625);
+    expect(inbreedingCoefficient(ds, "Son")).toBe(0);
+    expect(inbreedingCoefficient(ds, "OutKid")).toBe(0);
+  });
+
+  it("lists the ancestors reached by more than one line, and only those", () => {
+    expect(pedigreeCollapse(ds, "Inbred")).toEqual([
+      { ancestorId: "GpaB", paths: 2, up: 3 },
+      { ancestorId: "GmaB", paths: 2, up: 3 },
+    ]);
+    expect(pedigreeCollapse(ds, "Son")).toEqual([]);
+  });
+
+  it("formats coefficients as percentages", () => {
+    expect(formatCoefficient(0.25)).toBe("25%");
+    expect(formatCoefficient(0.0625)).toBe("6.25%");
+    expect(formatCoefficient(1 / 256)).toBe("0.391%");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  certainlyBefore,
+  dateSortKey,
+  formatDate,
+  isValidDate,
+  parseDate,
+} from "../dates";
+import { parseFamilyData, validateData } from "../validate";
+import { sortChildrenByBirth } from "../mutate";
+import { serialize } from "../exporter";
+import { fixture } from "./fixture";
+
+describe("partial dates", () => {
+  it("parses every supported form into a span", () => {
+    expect(parseDate("1947-08-15")).toEqual({
+      kind: "exact",
+      earliest: 19470815,
+      latest: 19470815,
+    });
+    expect(parseDate("1947")).toMatchObject({
+      earliest: 19470101,
+      latest: 19471231,
+    });
+    expect(parseDate("c. 1920")).toMatchObject({
+      kind: "circa",
+      earliest: 19150101,
+      latest: 19251231,
+    });
+    expect(parseDate("before 1950")).toMatchObject({
+      earliest: -Infinity,
+      latest: 19501231,
+    });
+    expect(parseDate("after 1900-03")).toMatchObject({
+      earliest: 19000301,
+      latest: Infinity,
+    });
+    expect(parseDate("1920/1925")).toMatchObject({
+      kind: "range",
+      earliest: 19200101,
+      latest: 19251231,
+    });
+  });
+
+  it("rejects what it can't read", () => {
+    for (const bad of ["", "last spring", "1947-13", "1925/1920", "c."]) {
+      expect(isValidDate(bad)).toBe(false);
+    }
+  });
+
+  it("formats for display", () => {
+    expect(formatDate("1947-08-15")).toBe("15 Aug 1947");
+    expect(formatDate("1947-08")).toBe("Aug 1947");
+    expect(formatDate("~1920")).toBe("c. 1920");
+    expect(formatDate("before 1950")).toBe("before 1950");
+    expect(formatDate("1920/1925")).toBe("1920–1925");
+    expect(formatDate("Diwali, 1950")).toBe("Diwali, 1950");
+  });
+
+  it("only calls an ordering certain when the spans can't overlap", () => {
+    expect(certainlyBefore("1940", "1947-08-15")).toBe(true);
+    expect(certainlyBefore("1947", "1947-08-15")).toBe(false);
+    expect(certainlyBefore("c. 1945", "1947")).toBe(false);
+    expect(certainlyBefore("before 1900", "after 1900")).toBe(false);
+    expect(dateSortKey("before 1950")).toBe(19501231);
+    expect(dateSortKey(undefined)).toBeNull();
+  });
+});
+
+describe("dates in the data file", () => {
+  it("keeps date text through parseFamilyData", () => {
+    const raw = fixture();
+    raw.people[0].birthDate = "  1920 ";
+    raw.unions[0].marriageDate = "c. 1945";
+    const parsed = parseFamilyData(serialize(raw));
+    expect(parsed.raw!.people[0].birthDate).toBe("1920");
+    expect(parsed.raw!.unions[0].marriageDate).toBe("c. 1945");
+  });
+
+  it("warns on impossible orderings, never errors", () => {
+    const raw = fixture();
+    const person = (id: string) => raw.people.find((p) => p.id === id)!;
+    person("GpaA").birthDate = "1920";
+    person("GpaA").deathDate = "1910";
+    person("Dad").birthDate = "1915";
+    raw.unions.find((u) => u.id === "u_gpaA")!.marriageDate = "1918";
+    person("Son").birthDate = "last spring";
+    const { errors, warnings } = validateData(raw);
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('"GpaA": died (1910) before being born'),
+        expect.stringContaining('"GpaA": has a deathDate but is marked alive'),
+        expect.stringContaining(
+          '"Dad": born (1915) before their parent "GpaA"',
+        ),
+        expect.stringContaining('union "u_gpaA": married (1918) before "GpaA"'),
+        expect.stringContaining('"Son": birthDate "last spring" is not a date'),
+      ]),
+    );
+  });
+
+  it("sorts siblings by birth date, leaving undated ones in place", () => {
+    const raw = fixture();
+    const union = raw.unions.find((u) => u.id === "u_gpaB")!;
+    union.children = ["Mom", "Hermit", "UncleB"];
+    raw.people.find((p) => p.id === "Mom")!.birthDate = "1950";
+    raw.people.find((p) => p.id === "UncleB")!.birthDate = "c. 1946";
+    const next = sortChildrenByBirth(raw, "u_gpaB");
+    expect(next.unions.find((u) => u.id === "u_gpaB")!.children).toEqual([
+      "UncleB",
+      "Hermit",
+      "Mom",
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import { findDuplicates, nameSimilarity, pairKey } from "../duplicates";
+import type { FamilyDataV2, PersonRecord } from "../types";
+import { fixture } from "./fixture";
+
+const copyOf = (
+  raw: FamilyDataV2,
+  id: string,
+  over: Partial<PersonRecord>,
+): PersonRecord => ({ ...raw.people.find((p) => p.id === id)!, ...over });
+
+/** The fixture plus a relative's copy of Dad and his parents, as an import
+ *  with different ids leaves them. */
+const withImportedDad = (): FamilyDataV2 => {
+  const raw = fixture();
+  raw.people.push(
+    copyOf(raw, "GpaA", { id: "GpaA_1" }),
+    copyOf(raw, "GmaA", { id: "GmaA_1" }),
+    copyOf(raw, "Dad", { id: "Dad_1", firstName: "Dadbhai" }),
+  );
+  raw.unions.push({
+    ...raw.unions[0],
+    id: "u_gpaA_1",
+    partners: ["GpaA_1", "GmaA_1"],
+    children: ["Dad_1"],
+  });
+  return raw;
+};
+
+const pairs = (raw: FamilyDataV2) =>
+  findDuplicates(buildDataset(raw)).map((d) => [d.keepId, d.absorbId]);
+
+describe("name similarity", () => {
+  it("forgives an honorific and a slip, not a different name", () => {
+    expect(nameSimilarity("rajes", "rajes")).toBe(1);
+    expect(nameSimilarity("rajes", "rajesbhai")).toBe(0.9);
+    expect(nameSimilarity("hemant", "heman")).toBeGreaterThan(0.8);
+    expect(nameSimilarity("citra", "citrasena")).toBeLessThan(0.75);
+  });
+});
+
+describe("duplicate detection", () => {
+  it("finds nothing in the clean fixture", () => {
+    expect(pairs(fixture())).toEqual([]);
+  });
+
+  it("pairs an imported copy with its original, keeping the original", () => {
+    const found = findDuplicates(buildDataset(withImportedDad()));
+    expect(found.map((d) => [d.keepId, d.absorbId])).toEqual(
+      expect.arrayContaining([
+        ["GpaA", "GpaA_1"],
+        ["GmaA", "GmaA_1"],
+        ["Dad", "Dad_1"],
+      ]),
+    );
+    const dad = found.find((d) => d.absorbId === "Dad_1")!;
+    expect(dad.reasons).toEqual([
+      "similar names (Dad / Dadbhai)",
+      "same parents' names: GpaA, GmaA",
+      "same birth family",
+    ]);
+    // Agreeing on spouse and child too makes the grandparents a surer match.
+    const gpa = found.find((d) => d.absorbId === "GpaA_1")!;
+    expect(gpa.score).toBeGreaterThan(dad.score);
+    expect(found[0].score).toBeGreaterThanOrEqual(found.at(-1)!.score);
+  });
+
+  it("tells differently named siblings from a same-named copy", () => {
+    const raw = fixture();
+    raw.people.push(
+      copyOf(raw, "Dau", { id: "Daw", firstName: "Daw" }),
+      copyOf(raw, "Son", { id: "Son_1" }),
+    );
+    const union = raw.unions.find((u) => u.id === "u_dad_mom")!;
+    union.children.push("Daw", "Son_1");
+    expect(pairs(raw)).toEqual([["Son", "Son_1"]]);
+  });
+
+  it("never pairs a person with their spouse, parent or child", () => {
+    const raw = fixture();
+    raw.people.find((p) => p.id === "Son")!.firstName = "Dad";
+    expect(pairs(raw)).toEqual([]);
+  });
+
+  it("keys a pair the same whichever way round", () => {
+    expect(pairKey("Dad", "Dad_1")).toBe(pairKey("Dad_1", "Dad"));
+  });
+});
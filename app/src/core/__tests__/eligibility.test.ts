@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import {
+  checkEligibility,
+  DEFAULT_ELIGIBILITY_RULES as RULES,
+} from "../eligibility";
+import { serialize } from "../exporter";
+import { parseFamilyData } from "../validate";
+import { fixture } from "./fixture";
+
+// UncleB gets a son, CousinU: Son's cousin through his mother, and through
+// his father for CousinU.
+const raw = fixture();
+const uncle = raw.people.find((p) => p.id === "UncleB")!;
+raw.people.push({ ...uncle, id: "CousinU", firstName: "CousinU" });
+raw.unions.push({
+  ...raw.unions.find((u) => u.id === "u_solo")!,
+  id: "u_uncleB",
+  partners: ["UncleB"],
+  children: ["CousinU"],
+  adoptedChildren: [],
+  familyId: "famB",
+});
+const ds = buildDataset(raw);
+
+describe("marriage eligibility", () => {
+  it("names the nearest shared ancestors within the sapinda degrees", () => {
+    const { violations } = checkEligibility(ds, "Son", "CousinU");
+    expect(violations).toEqual([
+      {
+        rule: "sapinda",
+        ancestorId: "GpaB",
+        upA: 2,
+        sideA: "maternal",
+        upB: 2,
+        sideB: "paternal",
+      },
+      {
+        rule: "sapinda",
+        ancestorId: "GmaB",
+        upA: 2,
+        sideA: "maternal",
+        upB: 2,
+        sideB: "paternal",
+      },
+    ]);
+  });
+
+  it("counts each side's generations separately", () => {
+    const rules = { ...RULES, maternalGenerations: 1 };
+    expect(checkEligibility(ds, "Son", "CousinU", rules).violations).toEqual(
+      [],
+    );
+    // LoveChild reaches GpaB through her father, three generations up.
+    expect(
+      checkEligibility(ds, "LoveChild", "CousinU", rules).violations,
+    ).toHaveLength(2);
+    expect(
+      checkEligibility(ds, "LoveChild", "CousinU", {
+        ...rules,
+        paternalGenerations: 2,
+      }).violations,
+    ).toEqual([]);
+  });
+
+  it("forbids a match with one's own ancestor", () => {
+    const { violations } = checkEligibility(ds, "GpaA", "Son");
+    expect(violations[0]).toEqual({
+      rule: "sapinda",
+      ancestorId: "GpaA",
+      upA: 0,
+      sideA: null,
+      upB: 2,
+      sideB: "paternal",
+    });
+  });
+
+  it("checks gotra and birth family, and says when it can't", () => {
+    const withGotra = fixture();
+    withGotra.families.famA.gotra = "Kashyap";
+    withGotra.families.famC.gotra = "kashyap ";
+    const g = buildDataset(withGotra);
+    expect(
+      parseFamilyData(serialize(withGotra)).raw!.families.famA.gotra,
+    ).toBe("Kashyap");
+    expect(checkEligibility(g, "Son", "Girlfriend")).toEqual({
+      violations: [{ rule: "gotra", gotra: "Kashyap" }],
+      unchecked: [],
+    });
+    expect(checkEligibility(g, "Son", "HalfSis").violations).toContainEqual({
+      rule: "birthFamily",
+      familyId: "famA",
+    });
+    expect(checkEligibility(g, "Son", "Hermit")).toEqual({
+      violations: [],
+      unchecked: ["gotra", "birthFamily"],
+    });
+    expect(
+      checkEligibility(g, "Son", "Girlfriend", { ...RULES, sameGotra: false }),
+    ).toEqual({ violations: [], unchecked: [] });
+  });
+});
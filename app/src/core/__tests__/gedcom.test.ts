@@ -0,0 +1,268 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromGedcomDate,
+  importGedcom,
+  toGedcomDate,
+  looksLikeGedcom,
+  parseGedcomTree,
+  type GedcomNode,
+} from "../gedcom";
+import { mergeData } from "../merge";
+import { parseFamilyData } from "../validate";
+import { serialize, serializeGedcom } from "../exporter";
+import { buildDataset } from "../dataset";
+import { fixture } from "./fixture";
+
+// Ramesh and Sita have Ajay (born) and Kiran (adopted); Ramesh's earlier
+// marriage to Meena ended in divorce and gave a daughter, Priya.
+const GED = [
+  "0 HEAD",
+  "1 GEDC",
+  "2 VERS 5.5.1",
+  "0 @I1@ INDI",
+  "1 NAME Ramesh /Pandya/",
+  "1 SEX M",
+  "1 FAMS @F2@",
+  "1 FAMS @F1@",
+  "0 @I2@ INDI",
+  "1 NAME Sita /Joshi/",
+  "1 SEX F",
+  "1 BIRT",
+  "2 DATE ABT 1950",
+  "1 DEAT Y",
+  "1 FAMS @F1@",
+  "0 @I3@ INDI",
+  "1 NAME Ajay /Pandya/",
+  "1 SEX M",
+  "1 NOTE Moved to Surat",
+  "2 CONT in 1998.",
+  "1 FAMC @F1@",
+  "0 @I4@ INDI",
+  "1 NAME Kiran",
+  "2 GIVN Kiran",
+  "1 SEX F",
+  "1 FAMC @F1@",
+  "2 PEDI adopted",
+  "0 @I5@ INDI",
+  "1 NAME Meena /Shah/",
+  "1 SEX F",
+  "1 FAMS @F2@",
+  "0 @I6@ INDI",
+  "1 NAME Priya //",
+  "1 SEX F",
+  "1 FAMC @F2@",
+  "0 @F1@ FAM",
+  "1 HUSB @I1@",
+  "1 WIFE @I2@",
+  "1 MARR",
+  "2 DATE 12 FEB 1972",
+  "1 CHIL @I3@",
+  "1 CHIL @I4@",
+  "0 @F2@ FAM",
+  "1 HUSB @I1@",
+  "1 WIFE @I5@",
+  "1 DIV Y",
+  "1 CHIL @I6@",
+  "0 TRLR",
+].join("\r\n");
+
+describe("GEDCOM import", () => {
+  it("recognizes GEDCOM text and parses the line tree", () => {
+    expect(looksLikeGedcom(GED)).toBe(true);
+    expect(looksLikeGedcom(serialize(fixture()))).toBe(false);
+    const { records, errors } = parseGedcomTree(GED);
+    expect(errors).toEqual([]);
+    const ajay = records.find((r) => r.xref === "@I3@")!;
+    expect(ajay.children.find((c) => c.tag === "NOTE")!.value).toBe(
+      "Moved to Surat\nin 1998.",
+    );
+  });
+
+  it("maps INDI/FAM onto people and unions", () => {
+    const { raw, errors } = importGedcom(GED);
+    expect(errors).toEqual([]);
+    const person = (first: string) =>
+      raw!.people.find((p) => p.firstName === first)!;
+    expect(person("Sita").alive).toBe(false);
+    expect(person("Sita").gender).toBe("female");
+    expect(person("Ajay").notes).toBe("Moved to Surat\nin 1998.");
+
+    const marriage = raw!.unions.find((u) =>
+      u.partners.includes(person("Sita").id),
+    )!;
+    expect(marriage.status).toBe("married");
+    expect(marriage.marriageDate).toBe("1972-02-12");
+    expect(person("Sita").birthDate).toBe("c. 1950");
+    expect(person("Sita").deathDate).toBeUndefined();
+    expect(marriage.children).toEqual([person("Ajay").id]);
+    expect(marriage.adoptedChildren).toEqual([person("Kiran").id]);
+    // FAMS order on the husband is marriage order.
+    expect(marriage.order).toBe(2);
+
+    const first = raw!.unions.find((u) =>
+      u.partners.includes(person("Meena").id),
+    )!;
+    expect(first.status).toBe("divorced");
+    expect(first.order).toBe(1);
+  });
+
+  it("synthesizes one family per surname; children take the father's", () => {
+    const { raw } = importGedcom(GED);
+    const names = Object.values(raw!.families)
+      .map((f) => f.name)
+      .sort();
+    expect(names).toEqual(["Joshi", "Pandya", "Shah"]);
+    const pandya = Object.keys(raw!.families).find(
+      (id) => raw!.families[id].name === "Pandya",
+    );
+    expect(raw!.unions.every((u) => u.familyId === pandya)).toBe(true);
+    // No surname recorded: born into the parents' union family.
+    expect(
+      raw!.people.find((p) => p.firstName === "Priya")!.birthFamilyId,
+    ).toBe(pandya);
+  });
+
+  it("passes validation and merges with a report, never colliding with local ids", () => {
+    const local = fixture();
+    local.families.famP = { name: "Pandya", color: "#ff0000" };
+    local.people.push({
+      ...local.people[0],
+      id: "Ramesh",
+      firstName: "Ramesh",
+    });
+    const { raw } = importGedcom(GED, local);
+    const parsed = parseFamilyData(serialize(raw!));
+    expect(parsed.errors).toEqual([]);
+    // The one local "Pandya" family is reused rather than duplicated.
+    expect(
+      raw!.people.find((p) => p.lastName === "Pandya")!.birthFamilyId,
+    ).toBe("famP");
+    expect(raw!.people.find((p) => p.firstName === "Ramesh")!.id).toBe(
+      "Ramesh_1",
+    );
+
+    const { merged, report } = mergeData(local, parsed.raw!);
+    expect(report.peopleAdded).toHaveLength(6);
+    expect(report.unionsAdded).toBe(2);
+    expect(report.familiesAdded.sort()).toEqual(["Joshi", "Shah"]);
+    expect(merged.people.find((p) => p.id === "Ramesh")!.lastName).toBe(
+      local.people[0].lastName,
+    );
+  });
+
+  it("finds the same people again when the file is imported twice", () => {
+    const once = mergeData(fixture(), importGedcom(GED, fixture()).raw!).merged;
+    const again = importGedcom(GED, once).raw!;
+    const { merged, report } = mergeData(once, again);
+    expect(report.peopleAdded).toEqual([]);
+    expect(report.unionsAdded).toBe(0);
+    expect(merged.people).toHaveLength(once.people.length);
+    expect(merged.unions).toHaveLength(once.unions.length);
+    // A _UID the file carries is the key, as our own export writes it.
+    const keyed = GED.replace("1 SEX M", "1 SEX M\r\n1 _UID abc123");
+    expect(importGedcom(keyed).raw!.people[0].uid).toBe("abc123");
+  });
+
+  it("lists what the conversion left out", () => {
+    const ged = GED.replace("2 DATE ABT 1950", "2 DATE @#DJULIAN@ 1700")
+      .replace("1 CHIL @I6@", "1 CHIL @I6@\r\n1 CHIL @I9@");
+    const { raw, warnings } = importGedcom(ged, fixture());
+    expect(raw).not.toBeNull();
+    expect(warnings).toEqual([
+      '@I2@ BIRT: date "@#DJULIAN@ 1700" not understood, left out',
+      "FAM @F2@: unknown child @I9@",
+    ]);
+  });
+
+  it("converts GEDCOM date values both ways", () => {
+    const pairs: [string, string][] = [
+      ["15 AUG 1947", "1947-08-15"],
+      ["AUG 1947", "1947-08"],
+      ["1947", "1947"],
+      ["ABT 1920", "c. 1920"],
+      ["BEF 1950", "before 1950"],
+      ["AFT MAR 1900", "after 1900-03"],
+      ["BET 1920 AND 1925", "1920/1925"],
+    ];
+    for (const [ged, ours] of pairs) {
+      expect(fromGedcomDate(ged)).toBe(ours);
+      expect(toGedcomDate(ours)).toBe(ged);
+    }
+    expect(fromGedcomDate("FROM 1920 TO 1925")).toBe("1920/1925");
+    expect(fromGedcomDate("@#DJULIAN@ 1700")).toBeNull();
+  });
+
+  it("rejects text that isn't GEDCOM", () => {
+    expect(importGedcom("hello").errors[0]).toMatch(/not a GEDCOM file/);
+  });
+});
+
+describe("GEDCOM export", () => {
+  const ds = buildDataset(fixture());
+  const givenOf = (indi: GedcomNode) =>
+    indi.children
+      .find((c) => c.tag === "NAME")!
+      .children.find((c) => c.tag === "GIVN")!.value;
+
+  it("writes INDI/FAM records with adoption, divorce and union order", () => {
+    const ged = serializeGedcom(ds);
+    expect(looksLikeGedcom(ged)).toBe(true);
+    const { records, errors } = parseGedcomTree(ged);
+    expect(errors).toEqual([]);
+    expect(records.filter((r) => r.tag === "INDI")).toHaveLength(17);
+    expect(records.filter((r) => r.tag === "FAM")).toHaveLength(6);
+
+    const indi = (first: string) =>
+      records.find((r) => r.tag === "INDI" && givenOf(r) === first)!;
+    const adopted = indi("AdoptedKid").children.filter((c) => c.tag === "FAMC");
+    expect(adopted.map((f) => f.children[0].value).sort()).toEqual([
+      "adopted",
+      "birth",
+    ]);
+    // Dad's FAMS follow union order: the divorced first marriage, then Mom.
+    const fams = indi("Dad")
+      .children.filter((c) => c.tag === "FAMS")
+      .map((c) => records.find((r) => r.xref === c.value)!);
+    expect(fams.map((f) => f.children.some((c) => c.tag === "DIV"))).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("round-trips through importGedcom", () => {
+    const { raw, errors } = importGedcom(serializeGedcom(ds));
+    expect(errors).toEqual([]);
+    expect(parseFamilyData(serialize(raw!)).errors).toEqual([]);
+    const byName = (first: string) =>
+      raw!.people.find((p) => p.firstName === first)!;
+    const love = raw!.unions.find((u) =>
+      u.partners.includes(byName("Girlfriend").id),
+    )!;
+    expect(love.status).toBe("partners");
+    const solo = raw!.unions.find((u) =>
+      u.partners.includes(byName("SoloMum").id),
+    )!;
+    expect(solo.status).toBe("unknown");
+    expect(solo.children).toEqual([
+      byName("OutKid").id,
+      byName("AdoptedKid").id,
+    ]);
+    const dadMom = raw!.unions.find((u) =>
+      u.partners.includes(byName("Mom").id),
+    )!;
+    expect(dadMom.adoptedChildren).toEqual([byName("AdoptedKid").id]);
+  });
+
+  it("scopes to one family's familyView", () => {
+    const { records } = parseGedcomTree(serializeGedcom(ds, "famB"));
+    const names = records
+      .filter((r) => r.tag === "INDI")
+      .map(givenOf)
+      .sort();
+    // famB's members, plus the spouses its daughters married out to (Dad, GpaA);
+    // their children (Son, Dad) live in famA's tree instead.
+    expect(names).toEqual(
+      ["Dad", "GmaA", "GmaB", "GpaA", "GpaB", "Mom", "UncleB"].sort(),
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyDataV2 } from "../types";
+import {
+  emptyHistory,
+  recordEdit,
+  redoEdit,
+  travelTo,
+  undoEdit,
+  type History,
+} from "../history";
+import { addPerson } from "../mutate";
+import { fixture } from "./fixture";
+
+// Three edits in a row: v0 → v1 → v2 → v3.
+const versions = (): FamilyDataV2[] => {
+  const v: FamilyDataV2[] = [fixture()];
+  for (const name of ["Ann", "Bea", "Cat"])
+    v.push(
+      addPerson(v[v.length - 1], {
+        firstName: name,
+        lastName: "",
+        gender: "female",
+        alive: true,
+        birthFamilyId: null,
+      }).raw,
+    );
+  return v;
+};
+
+const played = (v: FamilyDataV2[]): History =>
+  [1, 2, 3].reduce(
+    (h, i) => recordEdit(h, `Added ${i}`, v[i - 1], v[i]),
+    emptyHistory,
+  );
+
+describe("edit history", () => {
+  it("undoes and redoes one edit at a time", () => {
+    const v = versions();
+    const u1 = undoEdit(played(v))!;
+    expect(u1.raw).toBe(v[2]);
+    expect(u1.entry.label).toBe("Added 3");
+    const u2 = undoEdit(u1.history)!;
+    expect(u2.raw).toBe(v[1]);
+    const r1 = redoEdit(u2.history)!;
+    expect(r1.raw).toBe(v[2]);
+    expect(redoEdit(redoEdit(r1.history)!.history)).toBeNull();
+    expect(undoEdit(emptyHistory)).toBeNull();
+  });
+
+  it("drops the undone edits once a new edit is made", () => {
+    const v = versions();
+    const { history } = undoEdit(played(v))!;
+    const forked = recordEdit(history, "Other", v[2], v[0]);
+    expect(forked.future).toEqual([]);
+    expect(forked.past.map((e) => e.label)).toEqual([
+      "Added 1",
+      "Added 2",
+      "Other",
+    ]);
+  });
+
+  it("forgets the oldest edits past the limit", () => {
+    const v = versions();
+    let h = emptyHistory;
+    for (let i = 1; i <= 3; i++)
+      h = recordEdit(h, `Added ${i}`, v[i - 1], v[i], 2);
+    expect(h.past.map((e) => e.label)).toEqual(["Added 2", "Added 3"]);
+    expect(undoEdit(undoEdit(h)!.history)!.raw).toBe(v[1]);
+  });
+
+  it("jumps to any point in the timeline", () => {
+    const v = versions();
+    const back = travelTo(played(v), 0)!;
+    expect(back.raw).toBe(v[0]);
+    expect(back.history.past).toEqual([]);
+    const mid = travelTo(back.history, 2)!;
+    expect(mid.raw).toBe(v[2]);
+    expect(redoEdit(mid.history)!.raw).toBe(v[3]);
+    expect(travelTo(mid.history, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildDataset } from '../dataset';
+import { kinLocale, kinLocales, registerKinLocale } from '../kinlocales';
+import { nameRelation, shortestKinPath } from '../kinship';
+import type { FamilyDataV2 } from '../types';
+import { fixture } from './fixture';
+
+// Mom gains a younger sister AuntB, and each of Mom's siblings a son: CousinU
+// (UncleB's, a cross cousin to Son) and CousinA (AuntB's, a parallel one).
+const withCousins = (): FamilyDataV2 => {
+  const raw = fixture();
+  const base = raw.people.find(p => p.id === 'UncleB')!;
+  raw.people.push(
+    { ...base, id: 'AuntB', firstName: 'AuntB', gender: 'female' },
+    { ...base, id: 'CousinU', firstName: 'CousinU' },
+    { ...base, id: 'CousinA', firstName: 'CousinA' },
+  );
+  raw.unions = raw.unions.map(u => (u.id === 'u_gpaB' ? { ...u, children: [...u.children, 'AuntB'] } : u));
+  const base2 = raw.unions.find(u => u.id === 'u_solo')!;
+  raw.unions.push(
+    { ...base2, id: 'u_uncleB', partners: ['UncleB'], children: ['CousinU'], adoptedChildren: [] },
+    { ...base2, id: 'u_auntB', partners: ['AuntB'], children: ['CousinA'], adoptedChildren: [] },
+  );
+  return raw;
+};
+
+const ds = buildDataset(withCousins());
+
+const local = (a: string, b: string, locales: string[]) =>
+  nameRelation(ds, a, shortestKinPath(ds, a, b)!, locales).local;
+
+describe('kinship locale packs', () => {
+  it('registers the built-in packs in picker order', () => {
+    expect(kinLocales().map(l => l.id)).toEqual(['sa', 'gu', 'hi', 'mr', 'ta', 'bn']);
+  });
+
+  it('names relations in Hindi, elder and younger apart', () => {
+    expect(local('Son', 'UncleB', ['hi'])).toBe('mama');
+    expect(local('Son', 'GmaA', ['hi'])).toBe('dadi');
+    expect(local('Dau', 'Son', ['hi'])).toBe('bada bhai');
+    expect(local('Son', 'Dau', ['hi'])).toBe('chhoti behen');
+    expect(local('Son', 'CousinU', ['hi'])).toBe('mamera bhai');
+    expect(local('LoveChild', 'GpaA', ['hi'])).toBe('pardada');
+    expect(local('Son', 'Mom', ['hi'])).toBe('mata');
+  });
+
+  it('names relations in Marathi, with no term past grandparents', () => {
+    expect(local('Son', 'Dad', ['mr'])).toBe('baba');
+    expect(local('Son', 'GpaB', ['mr'])).toBe('ajoba');
+    expect(local('Son', 'AuntB', ['mr'])).toBe('mavshi');
+    expect(local('LoveChild', 'GpaA', ['mr'])).toBeNull();
+  });
+
+  it('tells Tamil cross kin from parallel kin', () => {
+    expect(local('Son', 'UncleB', ['ta'])).toBe('maama');
+    expect(local('Son', 'AuntB', ['ta'])).toBe('chithi');
+    expect(local('Son', 'CousinU', ['ta'])).toBe('maama magan');
+    expect(local('Son', 'CousinA', ['ta'])).toBe('sagodharan');
+    expect(local('UncleB', 'Son', ['ta'])).toBe('marumagan');
+    expect(local('AuntB', 'Son', ['ta'])).toBe('magan');
+  });
+
+  it('names relations in Bengali', () => {
+    expect(local('Son', 'GpaB', ['bn'])).toBe('dadamoshai');
+    expect(local('Son', 'UncleB', ['bn'])).toBe('mama');
+    expect(local('Dau', 'Son', ['bn'])).toBe('dada');
+  });
+
+  it('keeps the engine prefixes whatever the pack', () => {
+    expect(local('Son', 'HalfSis', ['hi'])).toBe('half-behen');
+    expect(local('Dad', 'Ex', ['hi'])).toBe('ex-patni');
+  });
+
+  it('joins several locales, the first leading and the others bracketed', () => {
+    expect(local('Son', 'UncleB', ['hi', 'ta', 'bn'])).toBe('mama (maama, mama)');
+    expect(local('LoveChild', 'GpaA', ['mr', 'hi'])).toBe('pardada');
+    expect(local('Son', 'Dad', ['sa', 'gu'])).toBe('pita (bapa)');
+    expect(local('Son', 'Dad', ['xx'])).toBeNull();
+    expect(local('Son', 'Dad', [])).toBeNull();
+  });
+
+  it('takes packs registered from outside', () => {
+    registerKinLocale({ id: 'test', label: 'Test', terms: { 'u:*m': 'pa', 'ud:**f+younger': 'little sis' } });
+    expect(kinLocale('test')!.label).toBe('Test');
+    expect(local('Son', 'Dad', ['test', 'hi'])).toBe('pa (pita)');
+    expect(local('Son', 'Dau', ['test'])).toBe('little sis');
+    expect(local('Dau', 'Son', ['test'])).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { buildDataset } from '../dataset';
-import { nameRelation, shortestKinPath } from '../kinship';
+import { serializeRelationTable } from '../exporter';
+import { allKinRelations, commonAncestors, kinPathsFrom, nameRelation, relationsFrom, shortestKinPath } from '../kinship';
 import { fixture } from './fixture';
 
 const ds = buildDataset(fixture());
@@ -50,10 +51,10 @@ describe('shortest kinship path + namer', () => {
   });
 
   it('falls back to a readable clickable chain for long paths', () => {
-    // LoveChild → HalfSis: up to Son... actually LoveChild→Son(up)→Dad(up)→HalfSis(down) = 'uud' → aunt
+    // LoveChild→Son(up)→Dad(up)→HalfSis(down) = 'uud': Son's half-sister is her aunt
     const r = relate('LoveChild', 'HalfSis')!;
-    expect(r.name).toBe('paternal aunt');
-    // Girlfriend → Dau: side + up... chain exists even when the pattern is unnamed
+    expect(r.name).toBe('paternal half-aunt');
+    // Girlfriend → GmaA: side + up + up, narrated hop by hop whatever its name
     const r2 = relate('Girlfriend', 'GmaA')!;
     expect(r2.chain.length).toBeGreaterThan(2);
     expect(r2.chain[0].personId).toBe('Girlfriend');
@@ -128,3 +129,240 @@ describe('shortest kinship path + namer', () => {
     expect(relate('GmaA', 'LoveChild')!.name).toBe('great-granddaughter');
   });
 });
+
+describe('collateral names from the common ancestor', () => {
+  // Four more generations under GpaA ⚭ GmaA, two lines: Dad's (Son, LoveChild)
+  // and a new brother Bro's, running Kid1 → Kid2 → Kid3 → Kid4.
+  const raw = fixture();
+  const person = (id: string, gender: 'male' | 'female') => ({
+    id,
+    firstName: id,
+    lastName: 'A',
+    gender,
+    alive: true,
+    birthFamilyId: 'famA',
+    updatedAt: raw.meta.exportedAt,
+  });
+  const union = (id: string, partners: string[], children: string[]) => ({
+    id,
+    partners,
+    children,
+    adoptedChildren: [],
+    familyId: 'famA',
+    status: 'unknown' as const,
+    updatedAt: raw.meta.exportedAt,
+  });
+  raw.people.push(person('Bro', 'male'), person('Kid1', 'female'), person('Kid2', 'male'));
+  raw.people.push(person('Kid3', 'female'), person('Kid4', 'male'));
+  raw.unions[0].children.push('Bro');
+  raw.unions.push(union('u_bro', ['Bro'], ['Kid1']), union('u_kid1', ['Kid1'], ['Kid2']));
+  raw.unions.push(union('u_kid2', ['Kid2'], ['Kid3']), union('u_kid3', ['Kid3'], ['Kid4']));
+  const deep = buildDataset(raw);
+  const name = (a: string, b: string) => nameRelation(deep, a, shortestKinPath(deep, a, b)!).name;
+
+  it('names cousins of any degree and removal', () => {
+    expect(name('Son', 'Kid1')).toBe('first cousin');
+    expect(name('Son', 'Kid2')).toBe('first cousin once removed');
+    expect(name('Kid2', 'Son')).toBe('first cousin once removed');
+    expect(name('LoveChild', 'Kid2')).toBe('second cousin');
+    expect(name('LoveChild', 'Kid4')).toBe('second cousin twice removed');
+  });
+
+  it('names uncles and nephews at any depth', () => {
+    expect(name('Kid1', 'Dad')).toBe('paternal uncle');
+    expect(name('Kid2', 'Dad')).toBe('grand-uncle');
+    expect(name('Kid3', 'Dad')).toBe('great-grand-uncle');
+    expect(name('Kid4', 'Dad')).toBe('2× great-grand-uncle');
+    expect(name('Dad', 'Kid2')).toBe('grandnephew');
+    expect(name('Bro', 'LoveChild')).toBe('grandniece');
+    expect(name('Dad', 'Kid3')).toBe('great-grandniece');
+  });
+
+  it('carries half- and adoptive kinds through the common ancestor', () => {
+    expect(name('HalfSis', 'LoveChild')).toBe('half-niece');
+    expect(name('AdoptedKid', 'HalfSis')).toBe('adoptive sister');
+  });
+});
+
+describe('in-laws beyond one hop', () => {
+  // Dad gains an elder brother Elder, married to ElderWife, with a son Nephew.
+  const raw = fixture();
+  const base = raw.people.find(p => p.id === 'Dad')!;
+  raw.people.push(
+    { ...base, id: 'Elder', firstName: 'Elder' },
+    { ...base, id: 'ElderWife', firstName: 'ElderWife', gender: 'female', birthFamilyId: 'famC' },
+    { ...base, id: 'Nephew', firstName: 'Nephew' },
+  );
+  raw.unions[0].children.unshift('Elder');
+  raw.unions.push({ ...raw.unions[0], id: 'u_elder', partners: ['Elder', 'ElderWife'], children: ['Nephew'] });
+  const wide = buildDataset(raw);
+  const rel = (a: string, b: string) => nameRelation(wide, a, shortestKinPath(wide, a, b)!);
+
+  it("names a spouse's kin as in-laws and a relative's spouse by marriage", () => {
+    expect(rel('Mom', 'Elder')).toMatchObject({ name: 'brother-in-law', local: 'jyeshtha (jeth)' });
+    expect(rel('Mom', 'Nephew')).toMatchObject({ name: 'nephew-in-law', local: 'bhratrija (bhatrijo)' });
+    expect(rel('Son', 'ElderWife')).toMatchObject({ name: 'aunt by marriage', local: 'pitrivya-patni (kaki)' });
+    expect(rel('GpaA', 'Girlfriend').name).toBe("grandson's partner");
+  });
+
+  it('tells an elder co-sister-in-law from a younger one', () => {
+    expect(rel('Mom', 'ElderWife')).toMatchObject({ name: 'co-sister-in-law', local: 'yata (jethani)' });
+    expect(rel('ElderWife', 'Mom').local).toBe('yata (derani)');
+    expect(nameRelation(wide, 'Son', shortestKinPath(wide, 'Son', 'ElderWife')!, ['hi']).local).toBe('tai');
+  });
+
+  it("names step-relatives, co-parents-in-law and a divorce's in-laws", () => {
+    expect(rel('Mom', 'HalfSis').name).toBe('stepdaughter');
+    expect(rel('HalfSis', 'GpaB').name).toBe('step-grandfather');
+    expect(rel('Son', 'Ex').name).toBe('ex-stepmother');
+    expect(rel('GpaA', 'GpaB')).toMatchObject({ name: 'co-father-in-law', local: 'sambandhi (vevai)' });
+    expect(rel('UncleB', 'Dad').local).toBe('bhaginipati (banevi)');
+  });
+
+  it('joins two names at a marriage when no single word fits', () => {
+    expect(rel('UncleB', 'GpaA')).toMatchObject({ name: "sister's father-in-law", local: 'sambandhi (vevai)' });
+    expect(nameRelation(wide, 'UncleB', shortestKinPath(wide, 'UncleB', 'GmaA')!, ['hi', 'bn']).local).toBe(
+      'samdhan (beyan)',
+    );
+    expect(rel('Girlfriend', 'GpaA').name).toBe("partner's paternal grandfather");
+    expect(rel('Mom', 'Ex').name).toBe("husband's ex-wife");
+  });
+});
+
+describe('all relations between two people', () => {
+  // UncleB marries his nephew Son's half-sister: Son's maternal uncle is now
+  // also his brother-in-law.
+  const raw = fixture();
+  raw.unions.push({
+    id: 'u_uncle_half',
+    partners: ['UncleB', 'HalfSis'],
+    children: [],
+    adoptedChildren: [],
+    familyId: 'famB',
+    status: 'married',
+    updatedAt: raw.meta.exportedAt,
+  });
+  const tangled = buildDataset(raw);
+
+  it('lists every way, grouped into blood and marriage', () => {
+    const all = allKinRelations(tangled, 'Son', 'UncleB');
+    expect(all.map(r => [r.name, r.kind])).toEqual([
+      ['maternal uncle', 'blood'],
+      ['brother-in-law', 'marriage'],
+    ]);
+    expect(all[1].steps.map(s => s.to)).toEqual(['Dad', 'HalfSis', 'UncleB']);
+  });
+
+  it('leads with the shortest path and counts full siblings once', () => {
+    const all = allKinRelations(ds, 'Son', 'Dau');
+    expect(all).toHaveLength(1);
+    expect(all[0].steps).toEqual(shortestKinPath(ds, 'Son', 'Dau'));
+  });
+
+  it('skips detours through a shortcut', () => {
+    // Son → Dad → Mom would pass Son's own mother on the way to her.
+    expect(allKinRelations(ds, 'Son', 'Mom').map(r => r.name)).toEqual(['mother']);
+    expect(allKinRelations(ds, 'Son', 'Hermit')).toEqual([]);
+  });
+
+  it('stops at the limit', () => {
+    expect(allKinRelations(tangled, 'Son', 'UncleB', 6, 1)).toHaveLength(1);
+  });
+
+  it('keeps the blood relation of cousins who married', () => {
+    // Son marries UncleB's daughter: his wife, and still his first cousin.
+    const wed = fixture();
+    wed.people.push({ ...wed.people.find(p => p.id === 'Dau')!, id: 'Cousin', birthFamilyId: 'famB' });
+    for (const [id, partners, children] of [
+      ['u_uncle', ['UncleB'], ['Cousin']],
+      ['u_son_cousin', ['Son', 'Cousin'], []],
+    ] as const) {
+      wed.unions.push({
+        id,
+        partners: [...partners],
+        children: [...children],
+        adoptedChildren: [],
+        familyId: 'famB',
+        status: 'married',
+        updatedAt: wed.meta.exportedAt,
+      });
+    }
+    const all = allKinRelations(buildDataset(wed), 'Son', 'Cousin');
+    expect(all.map(r => [r.name, r.kind])).toEqual([
+      ['wife', 'marriage'],
+      ['first cousin', 'blood'],
+    ]);
+  });
+});
+
+describe('relations from one person to everyone', () => {
+  it('finds the same shortest paths as one search per pair', () => {
+    const paths = kinPathsFrom(ds, 'Son');
+    expect(paths.has('Son')).toBe(false);
+    expect(paths.has('Hermit')).toBe(false);
+    expect(paths.size).toBe(ds.people.size - 2);
+    for (const [id, steps] of paths) expect(steps).toEqual(shortestKinPath(ds, 'Son', id));
+  });
+
+  it('names every row, nearest first', () => {
+    const rows = relationsFrom(ds, 'Son');
+    expect(rows[0].steps).toHaveLength(1);
+    expect(rows.find(r => r.personId === 'UncleB')).toMatchObject({
+      name: 'maternal uncle',
+      local: 'matula (mama)',
+      kind: 'blood',
+    });
+    expect(rows.find(r => r.personId === 'Girlfriend')!.kind).toBe('marriage');
+    expect(rows.map(r => r.steps.length)).toEqual(rows.map(r => r.steps.length).sort((x, y) => x - y));
+  });
+
+  it('exports the rows as CSV', () => {
+    const rows = relationsFrom(ds, 'Son').filter(r => r.personId === 'Dad' || r.personId === 'UncleB');
+    const csv = serializeRelationTable(ds, rows);
+    const lines = csv.replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+    expect(lines[0]).toBe('Name,Relation,Local term,By,Steps,Birth family,Path');
+    expect(lines[1]).toBe('Dad famA,father,pita (bapa),blood,1,A,Son famA → father Dad famA');
+    expect(lines).toHaveLength(3);
+    // A cell with a comma is quoted.
+    const uncle = relationsFrom(ds, 'Son', ['hi', 'ta', 'bn']).filter(r => r.personId === 'UncleB');
+    expect(serializeRelationTable(ds, uncle)).toContain(',"mama (maama, mama)",');
+    // A name a spreadsheet would run as a formula goes out as text.
+    const raw = fixture();
+    raw.people.find(p => p.id === 'Dad')!.firstName = '=HYPERLINK("x")';
+    const rigged = buildDataset(raw);
+    const dad = relationsFrom(rigged, 'Son').filter(r => r.personId === 'Dad');
+    expect(serializeRelationTable(rigged, dad)).toContain('\r\n"\'=HYPERLINK(""x"") famA",father,');
+  });
+});
+
+describe('most recent common ancestors', () => {
+  it('finds the couple both descend from, with the depth on each side', () => {
+    expect(commonAncestors(ds, 'Son', 'Dau')).toEqual([
+      { ancestorIds: ['Dad', 'Mom'], unionId: 'u_dad_mom', upA: 1, upB: 1, adoptive: false },
+    ]);
+    expect(commonAncestors(ds, 'LoveChild', 'UncleB')).toEqual([
+      { ancestorIds: ['GpaB', 'GmaB'], unionId: 'u_gpaB', upA: 3, upB: 1, adoptive: false },
+    ]);
+  });
+
+  it('gives a half-sibling only the shared parent', () => {
+    expect(commonAncestors(ds, 'Son', 'HalfSis')).toEqual([
+      { ancestorIds: ['Dad'], unionId: null, upA: 1, upB: 1, adoptive: false },
+    ]);
+  });
+
+  it('returns the ancestor themselves for direct descent', () => {
+    const [anc] = commonAncestors(ds, 'GmaA', 'LoveChild');
+    expect(anc).toMatchObject({ ancestorIds: ['GmaA'], upA: 0, upB: 3 });
+  });
+
+  it('tells adoptive ancestry apart, or leaves it out', () => {
+    expect(commonAncestors(ds, 'Son', 'AdoptedKid')[0]).toMatchObject({
+      ancestorIds: ['Dad', 'Mom'],
+      adoptive: true,
+    });
+    expect(commonAncestors(ds, 'Son', 'AdoptedKid', true)).toEqual([]);
+    // In-laws share no ancestry.
+    expect(commonAncestors(ds, 'Dad', 'Mom')).toEqual([]);
+  });
+});
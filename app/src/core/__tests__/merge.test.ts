@@ -1,5 +1,20 @@
 import { describe, expect, it } from "vitest";
-import { mergeData } from "../merge";
+import { serialize } from "../exporter";
+import {
+  mergeChanges,
+  mergeData,
+  takeIncoming,
+  withoutChanges,
+} from "../merge";
+import { withUids } from "../ids";
+import {
+  addPerson,
+  deletePerson,
+  mergePerson,
+  updatePerson,
+} from "../mutate";
+import type { FamilyDataV2 } from "../types";
+import { parseFamilyData, validateData } from "../validate";
 import { fixture } from "./fixture";
 
 describe("additive merge", () => {
@@ -64,3 +79,323 @@ describe("additive merge", () => {
     expect(report.familiesAdded).toEqual(["New"]);
   });
 });
+
+describe("three-way merge", () => {
+  const LATER = "2026-06-01T00:00:00.000Z";
+  const person = (raw: ReturnType<typeof fixture>, id: string) =>
+    raw.people.find((p) => p.id === id)!;
+
+  it("keeps each side's own edits to the same person", () => {
+    const base = fixture();
+    const local = fixture();
+    const incoming = fixture();
+    // Local edits the notes later; incoming's older edit to the death date
+    // used to be discarded whole.
+    Object.assign(person(local, "GmaA"), { notes: "local", updatedAt: LATER });
+    Object.assign(person(incoming, "GmaA"), {
+      deathDate: "1990",
+      alive: false,
+    });
+
+    const { merged, report } = mergeData(local, incoming, base);
+    expect(person(merged, "GmaA")).toMatchObject({
+      notes: "local",
+      deathDate: "1990",
+      alive: false,
+    });
+    expect(report.peopleUpdated).toEqual(["GmaA famB"]);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  it("reports a field both sides changed, holding the local value", () => {
+    const base = fixture();
+    const local = fixture();
+    const incoming = fixture();
+    person(local, "GmaA").birthDate = "1920";
+    person(incoming, "GmaA").birthDate = "1921";
+    local.families.famA.color = "#111111";
+    incoming.families.famA.color = "#222222";
+    incoming.families.famB.name = "B-renamed";
+
+    const { merged, report } = mergeData(local, incoming, base);
+    expect(report.conflicts.map((c) => [c.kind, c.id, c.field])).toEqual([
+      ["family", "famA", "color"],
+      ["person", "GmaA", "birthDate"],
+    ]);
+    expect(report.conflicts[1]).toMatchObject({
+      label: "GmaA famB",
+      local: "1920",
+      incoming: "1921",
+    });
+    expect(person(merged, "GmaA").birthDate).toBe("1920");
+    // Only incoming renamed famB: with a base, that's an edit, not a conflict.
+    expect(merged.families.famB.name).toBe("B-renamed");
+    expect(report.familiesUpdated).toEqual(["B-renamed"]);
+
+    const settled = takeIncoming(merged, report.conflicts);
+    expect(person(settled, "GmaA").birthDate).toBe("1921");
+    expect(settled.families.famA.color).toBe("#222222");
+  });
+
+  it("merges children lists as sets, keeping both sides' additions", () => {
+    const base = fixture();
+    const local = fixture();
+    const incoming = fixture();
+    const kid = { ...person(base, "Dau"), updatedAt: LATER };
+    local.people.push({ ...kid, id: "Mine" });
+    incoming.people.push({ ...kid, id: "Theirs" });
+    const union = (raw: typeof base) =>
+      raw.unions.find((u) => u.id === "u_dad_mom")!;
+    union(local).children.push("Mine");
+    union(incoming).children.push("Theirs");
+    // Incoming also moved Dau out of the union.
+    union(incoming).children = union(incoming).children.filter(
+      (c) => c !== "Dau",
+    );
+
+    const { merged, report } = mergeData(local, incoming, base);
+    expect(union(merged).children).toEqual(["Son", "Mine", "Theirs"]);
+    expect(report.conflicts).toEqual([]);
+    expect(report.unionsUpdated).toBe(1);
+  });
+});
+
+describe("tombstones", () => {
+  const ids = (raw: FamilyDataV2) => raw.people.map((p) => p.id);
+
+  it("keeps a deletion when an older copy comes back, and carries it", () => {
+    const local = deletePerson(fixture(), "Ex");
+    const { merged, report } = mergeData(local, fixture());
+    expect(ids(merged)).not.toContain("Ex");
+    expect(report.peopleAdded).toEqual([]);
+    expect(merged.unions.find((u) => u.id === "u_dad_ex")!.partners).toEqual([
+      "Dad",
+    ]);
+    expect(validateData(merged).errors).toEqual([]);
+    const reread = parseFamilyData(serialize(merged)).raw!;
+    expect(reread.tombstones).toEqual(local.tombstones);
+  });
+
+  it("applies their deletion here, unless the record was edited since", () => {
+    const incoming = deletePerson(fixture(), "Ex");
+    const { merged, report } = mergeData(fixture(), incoming);
+    expect(ids(merged)).not.toContain("Ex");
+    expect(report.peopleRemoved).toHaveLength(1);
+    expect(validateData(merged).errors).toEqual([]);
+
+    const edited = fixture();
+    edited.people.find((p) => p.id === "Ex")!.updatedAt =
+      "2999-01-01T00:00:00.000Z";
+    const kept = mergeData(edited, incoming).merged;
+    expect(ids(kept)).toContain("Ex");
+    expect(kept.tombstones).toBeUndefined();
+  });
+
+  it("rewrites references to a merged-away person onto the one kept", () => {
+    // Mom was entered twice, with an empty second marriage to Dad; the file
+    // was shared before the duplicate was merged away.
+    const shared = fixture();
+    shared.people.push({
+      ...shared.people.find((p) => p.id === "Mom")!,
+      id: "Mom2",
+    });
+    shared.unions.push({
+      ...shared.unions.find((u) => u.id === "u_dad_mom")!,
+      id: "u_dad_mom2",
+      partners: ["Dad", "Mom2"],
+      children: [],
+      adoptedChildren: [],
+    });
+    const local = mergePerson(shared, "Mom", "Mom2");
+    // Meanwhile the relative recorded a baby on the duplicate marriage.
+    const incoming = structuredClone(shared);
+    incoming.people.push({
+      ...incoming.people.find((p) => p.id === "Dau")!,
+      id: "Baby",
+    });
+    incoming.unions.find((u) => u.id === "u_dad_mom2")!.children = ["Baby"];
+
+    const { merged, report } = mergeData(local, incoming);
+    expect(ids(merged)).not.toContain("Mom2");
+    expect(merged.unions.map((u) => u.id)).not.toContain("u_dad_mom2");
+    expect(report.peopleAdded).toHaveLength(1);
+    expect(merged.unions.find((u) => u.id === "u_dad_mom")!.children).toEqual(
+      expect.arrayContaining(["Son", "Dau", "Baby"]),
+    );
+    expect(validateData(merged).errors).toEqual([]);
+  });
+});
+
+describe("import preview", () => {
+  const LATER = "2026-06-01T00:00:00.000Z";
+  /** Their copy: a new daughter for UncleB, and Son's birth date. */
+  const theirs = () => {
+    const incoming = fixture();
+    incoming.people.push({
+      ...incoming.people.find((p) => p.id === "Dau")!,
+      id: "Cousin",
+      firstName: "Cousin",
+      birthFamilyId: "famB",
+      updatedAt: LATER,
+    });
+    incoming.unions.push({
+      id: "u_uncle",
+      partners: ["UncleB"],
+      children: ["Cousin"],
+      adoptedChildren: [],
+      familyId: "famB",
+      status: "unknown",
+      updatedAt: LATER,
+    });
+    const son = incoming.people.find((p) => p.id === "Son")!;
+    son.birthDate = "1990";
+    son.updatedAt = LATER;
+    return incoming;
+  };
+
+  it("lists each change with the fields it touches", () => {
+    const local = fixture();
+    const { merged } = mergeData(local, theirs());
+    const changes = mergeChanges(local, merged);
+    expect(changes.map((c) => [c.kind, c.id, c.change])).toEqual([
+      ["person", "Son", "updated"],
+      ["person", "Cousin", "added"],
+      ["union", "u_uncle", "added"],
+    ]);
+    expect(changes[0].fields).toEqual([
+      { field: "birthDate", before: undefined, after: "1990" },
+    ]);
+    expect(changes[2].people).toEqual(["UncleB", "Cousin"]);
+  });
+
+  it("leaves out unticked changes, and what hangs on them", () => {
+    const local = fixture();
+    const { merged } = mergeData(local, theirs());
+    const changes = mergeChanges(local, merged);
+    const kept = withoutChanges(
+      local,
+      merged,
+      changes.filter((c) => c.id !== "u_uncle"),
+    );
+    // The union keeps only UncleB once Cousin is left out: nothing to record.
+    expect(kept).toEqual(local);
+
+    const sonOnly = withoutChanges(
+      local,
+      merged,
+      changes.filter((c) => c.id === "Son"),
+    );
+    expect(sonOnly.people.find((p) => p.id === "Son")!.birthDate).toBe(
+      undefined,
+    );
+    expect(sonOnly.unions.find((u) => u.id === "u_uncle")!.children).toEqual(
+      ["Cousin"],
+    );
+    expect(validateData(sonOnly).errors).toEqual([]);
+  });
+
+  it("keeps someone their file removed, with their unions", () => {
+    const local = fixture();
+    const { merged } = mergeData(local, deletePerson(fixture(), "Ex"));
+    const changes = mergeChanges(local, merged);
+    const removal = changes.find((c) => c.id === "Ex")!;
+    expect(removal.change).toBe("removed");
+    const kept = withoutChanges(local, merged, [removal]);
+    expect(kept.people.some((p) => p.id === "Ex")).toBe(true);
+    expect(kept.unions.find((u) => u.id === "u_dad_ex")!.partners).toEqual([
+      "Dad",
+      "Ex",
+    ]);
+    expect(kept.tombstones).toBeUndefined();
+    expect(validateData(kept).errors).toEqual([]);
+  });
+});
+
+describe("id collisions", () => {
+  const LATER = "2026-06-01T00:00:00.000Z";
+  const ramesh = {
+    firstName: "Ramesh",
+    lastName: "B",
+    gender: "male" as const,
+    alive: true,
+    birthFamilyId: "famB",
+  };
+
+  it("renames their Ramesh when he has other parents than ours", () => {
+    const local = fixture();
+    local.people.push({ id: "Ramesh", ...ramesh, updatedAt: LATER });
+    local.unions.find((u) => u.id === "u_gpaB")!.children.push("Ramesh");
+    const incoming = fixture();
+    incoming.people.push({ id: "Ramesh", ...ramesh, updatedAt: LATER });
+    const union = incoming.unions.find((u) => u.id === "u_dad_mom")!;
+    union.children.push("Ramesh");
+    union.updatedAt = LATER;
+
+    const { merged, report } = mergeData(local, incoming);
+    expect(report.idsRemapped).toEqual([
+      { kind: "person", from: "Ramesh", to: "Ramesh_1" },
+    ]);
+    expect(
+      merged.unions.find((u) => u.id === "u_dad_mom")!.children,
+    ).toContain("Ramesh_1");
+    expect(
+      merged.unions.find((u) => u.id === "u_gpaB")!.children,
+    ).toContain("Ramesh");
+    expect(validateData(merged).errors).toEqual([]);
+  });
+
+  it("tells records apart by key, whatever their names", () => {
+    const local = addPerson(fixture(), ramesh).raw;
+    const incoming = addPerson(fixture(), ramesh).raw;
+    const { merged, report } = mergeData(local, incoming);
+    expect(report.idsRemapped.map((r) => r.to)).toEqual(["Ramesh_1"]);
+    expect(merged.people.filter((p) => p.firstName === "Ramesh")).toHaveLength(
+      2,
+    );
+
+    // Their copy of our own Ramesh, renamed: the key says it's him.
+    const copy = structuredClone(local);
+    copy.people.find((p) => p.id === "Ramesh")!.firstName = "Rakesh";
+    expect(mergeData(local, copy).report.idsRemapped).toEqual([]);
+  });
+
+  it("finds a renamed record by key on the next import", () => {
+    const local = addPerson(fixture(), ramesh).raw;
+    let theirs = addPerson(fixture(), ramesh).raw;
+    const first = mergeData(local, theirs).merged;
+    expect(first.people.map((p) => p.id)).toContain("Ramesh_1");
+
+    // They edit their Ramesh and send the file again, under his old id.
+    theirs = updatePerson(theirs, "Ramesh", { birthDate: "1960" });
+    const { merged, report } = mergeData(first, theirs);
+    expect(report.idsRemapped).toEqual([]);
+    expect(validateData(merged).errors).toEqual([]);
+    expect(merged.people.filter((p) => p.firstName === "Ramesh")).toHaveLength(
+      2,
+    );
+    expect(merged.people.find((p) => p.id === "Ramesh_1")!.birthDate).toBe(
+      "1960",
+    );
+
+    // And when they delete him, he goes here too.
+    const gone = mergeData(merged, deletePerson(theirs, "Ramesh")).merged;
+    expect(gone.people.map((p) => p.id)).not.toContain("Ramesh_1");
+    expect(gone.people.map((p) => p.id)).toContain("Ramesh");
+  });
+
+  it("keys an old file on load, so a corrected name still matches", () => {
+    // The fixture predates keys; a relative fixes Dau's first name.
+    const correct = (raw: FamilyDataV2) =>
+      updatePerson(structuredClone(raw), "Dau", { firstName: "Priya" });
+    const split = mergeData(fixture(), correct(fixture()));
+    expect(split.report.idsRemapped).toHaveLength(1);
+
+    const local = withUids(fixture());
+    expect(local.people.every((p) => p.uid)).toBe(true);
+    expect(withUids(local)).toBe(local);
+    const { merged, report } = mergeData(local, correct(local));
+    expect(report.idsRemapped).toEqual([]);
+    expect(merged.people).toHaveLength(local.people.length);
+    expect(merged.people.find((p) => p.id === "Dau")!.firstName).toBe("Priya");
+  });
+});
@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import { buildDataset } from '../dataset';
 import {
   deletePerson,
+  detachChild,
+  editUnion,
   growChild,
   growParent,
   growSpouse,
@@ -201,6 +203,11 @@ describe('mergePerson (same-person reconciliation)', () => {
       u => u.partners.length === 2 && u.partners.includes('Dad') && u.partners.includes('Mom'),
     );
     expect(marriages.length).toBe(1); // fused, not two
+    // Both the absorbed person and the fused union point at what replaced them.
+    expect(next.tombstones!.map(t => [t.id, t.absorbedInto])).toEqual([
+      ['Mom2', 'Mom'],
+      ['u_dad_mom2', 'u_dad_mom'],
+    ]);
     expect(marriages[0].children.slice().sort()).toEqual(['Dau', 'Son']);
     expect(next.people.some(p => p.id === 'Mom2')).toBe(false);
     // Children still resolve to both real parents.
@@ -253,6 +260,55 @@ describe('moveChildInUnion (birth order)', () => {
   });
 });
 
+describe('editUnion (union editor)', () => {
+  const union = (raw: ReturnType<typeof fixture>, id: string) => raw.unions.find(u => u.id === id);
+
+  it('patches the fields and drops cleared ones', () => {
+    const raw = fixture();
+    raw.unions = raw.unions.map(u => (u.id === 'u_dad_mom' ? { ...u, notes: 'old', childGap: 2 } : u));
+    const next = editUnion(raw, 'u_dad_mom', {
+      patch: { status: 'divorced', order: 3, familyId: 'famB', notes: undefined, childGap: 1 },
+    });
+    const u = union(next, 'u_dad_mom')!;
+    expect(u).toMatchObject({ status: 'divorced', order: 3, familyId: 'famB' });
+    expect(u).not.toHaveProperty('notes');
+    expect(u).not.toHaveProperty('childGap');
+  });
+
+  it('completes a single-parent union with a second partner', () => {
+    const next = editUnion(fixture(), 'u_solo', { patch: {}, partnerId: 'UncleB' });
+    expect(union(next, 'u_solo')!.partners).toEqual(['SoloMum', 'UncleB']);
+    expect(validateData(next).errors).toEqual([]);
+    expect(() => editUnion(fixture(), 'u_solo', { patch: {}, partnerId: 'OutKid' })).toThrow(/child/);
+    expect(() => editUnion(fixture(), 'u_dad_mom', { patch: {}, partnerId: 'Hermit' })).toThrow(/two partners/);
+  });
+
+  it('moves children to another union or to one partner alone', () => {
+    const next = editUnion(fixture(), 'u_dad_mom', {
+      patch: {},
+      moves: { Son: 'u_dad_ex', Dau: { parentId: 'Mom' } },
+    });
+    expect(validateData(next).errors).toEqual([]);
+    expect(union(next, 'u_dad_mom')!.children).toEqual([]);
+    expect(union(next, 'u_dad_ex')!.children).toEqual(['HalfSis', 'Son']);
+    const solo = next.unions.find(u => u.partners.length === 1 && u.partners[0] === 'Mom')!;
+    expect(solo.children).toEqual(['Dau']);
+    expect(solo.familyId).toBe('famA');
+  });
+
+  it('detaches into an existing single-parent union when there is one', () => {
+    const raw = editUnion(fixture(), 'u_solo', { patch: {}, partnerId: 'UncleB' });
+    const next = detachChild(
+      { ...raw, unions: [...raw.unions, { ...union(raw, 'u_love')!, id: 'u_sm', partners: ['SoloMum'], children: [] }] },
+      'OutKid',
+      'SoloMum',
+    );
+    expect(union(next, 'u_sm')!.children).toEqual(['OutKid']);
+    // Not a parent of the child: nothing happens.
+    expect(detachChild(fixture(), 'Son', 'Ex')).toEqual(fixture());
+  });
+});
+
 describe('deletePerson', () => {
   it('removes the person and every reference to them', () => {
     const raw = fixture();
@@ -265,6 +321,16 @@ describe('deletePerson', () => {
     expect(u.children).toContain('HalfSis');
   });
 
+  it('leaves a tombstone for the person and any union it removed', () => {
+    const next = deletePerson(fixture(), 'Girlfriend');
+    expect(next.tombstones).toEqual([
+      { id: 'Girlfriend', kind: 'person', deletedAt: expect.any(String) },
+    ]);
+    const again = deletePerson(next, 'LoveChild');
+    expect(again.tombstones!.map(t => t.id)).toEqual(['Girlfriend', 'LoveChild', 'u_love']);
+    expect(validateData(again).errors).toEqual([]);
+  });
+
   it('drops a union left with a lone partner and no children', () => {
     // Marry Dau to a new husband (childless 2-partner union), then delete him.
     const grown = growSpouse(fixture(), {
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import { emptyHistory, recordEdit, type History } from "../history";
+import { mergeChanges, mergeData } from "../merge";
+import { addPerson, deletePerson, growChild, updatePerson } from "../mutate";
+import {
+  applyPatch,
+  looksLikePatch,
+  parsePatch,
+  patchFromHistory,
+  serializePatch,
+} from "../patch";
+import type { FamilyDataV2 } from "../types";
+import { validateData } from "../validate";
+import { fixture } from "./fixture";
+
+const child = (firstName: string) => ({
+  firstName,
+  lastName: "",
+  gender: "female" as const,
+  alive: true,
+  birthFamilyId: "famA",
+});
+
+/** Edits made one after another, as the store records them. */
+const edit = (
+  history: History,
+  raw: FamilyDataV2,
+  label: string,
+  change: (raw: FamilyDataV2) => FamilyDataV2,
+) => {
+  const next = change(raw);
+  return { raw: next, history: recordEdit(history, label, raw, next) };
+};
+
+/** A relative's session: a daughter for Dad and Mom, and Son's birth year. */
+const theirEdits = () => {
+  let s = { raw: fixture(), history: emptyHistory };
+  s = edit(s.history, s.raw, "Added Asha", (raw) =>
+    growChild(raw, {
+      parentId: "Dad",
+      unionId: "u_dad_mom",
+      adopted: false,
+      child: child("Asha"),
+    }).raw,
+  );
+  s = edit(s.history, s.raw, "Edited Son", (raw) =>
+    updatePerson(raw, "Son", { birthDate: "1990" }),
+  );
+  return s.history;
+};
+
+const roundTrip = (history: History) => {
+  const text = serializePatch(patchFromHistory(history.past));
+  expect(looksLikePatch(text)).toBe(true);
+  return parsePatch(text).patch!;
+};
+
+describe("patches", () => {
+  it("carries a few edits to a copy that has changed elsewhere", () => {
+    const patch = roundTrip(theirEdits());
+    expect(patch.edits.map((e) => e.label)).toEqual([
+      "Added Asha",
+      "Edited Son",
+    ]);
+    expect(patch.edits[1].ops).toMatchObject([
+      {
+        op: "update",
+        kind: "person",
+        id: "Son",
+        before: {},
+        after: { birthDate: "1990" },
+      },
+    ]);
+
+    // Meanwhile this copy gained a daughter of its own and a note on Hermit.
+    let mine = growChild(fixture(), {
+      parentId: "Mom",
+      unionId: "u_dad_mom",
+      adopted: false,
+      child: child("Bina"),
+    }).raw;
+    mine = updatePerson(mine, "Hermit", { notes: "Lives in the hills" });
+    const { raw, report, errors } = applyPatch(mine, patch);
+    expect(errors).toEqual([]);
+    expect(report.conflicts).toEqual([]);
+    expect(validateData(raw!).errors).toEqual([]);
+    const union = raw!.unions.find((u) => u.id === "u_dad_mom")!;
+    expect(union.children.slice(-2)).toEqual(["Bina", "Asha"]);
+    expect(raw!.people.find((p) => p.id === "Son")!.birthDate).toBe("1990");
+    expect(raw!.people.find((p) => p.id === "Hermit")!.notes).toBe(
+      "Lives in the hills",
+    );
+    // Applying it a second time finds nothing left to do.
+    expect(mergeChanges(raw!, applyPatch(raw!, patch).raw!)).toEqual([]);
+  });
+
+  it("names a field changed on both sides as a conflict, keeping ours", () => {
+    const mine = updatePerson(fixture(), "Son", { birthDate: "1991" });
+    const { raw, report } = applyPatch(mine, roundTrip(theirEdits()));
+    expect(raw!.people.find((p) => p.id === "Son")!.birthDate).toBe("1991");
+    expect(report.conflicts).toMatchObject([
+      { kind: "person", id: "Son", field: "birthDate", local: "1991" },
+    ]);
+    expect(report.conflicts[0].incoming).toBe("1990");
+  });
+
+  it("refuses edits to people this copy no longer has", () => {
+    let s = { raw: fixture(), history: emptyHistory };
+    s = edit(s.history, s.raw, "Edited Hermit", (raw) =>
+      updatePerson(raw, "Hermit", { notes: "Moved away" }),
+    );
+    s = edit(s.history, s.raw, "Added Chhaya", (raw) =>
+      growChild(raw, {
+        parentId: "Hermit",
+        unionId: null,
+        adopted: false,
+        child: child("Chhaya"),
+      }).raw,
+    );
+    const patch = roundTrip(s.history);
+    const mine = deletePerson(fixture(), "Hermit");
+    expect(applyPatch(mine, patch).errors).toEqual([
+      'Edited Hermit: person "Hermit" was deleted in this copy',
+    ]);
+
+    // The new union goes in, and validation catches whom it points at.
+    const { raw } = applyPatch(mine, {
+      ...patch,
+      edits: patch.edits.slice(1),
+    });
+    expect(validateData(raw!).errors).toEqual([
+      'union "u_hermit": unknown partner "Hermit"',
+    ]);
+  });
+
+  it("finds records this copy renamed on import by their keys", () => {
+    const ramesh = { ...child("Ramesh"), gender: "male" as const };
+    const theirs = addPerson(fixture(), ramesh).raw;
+    // Our own Ramesh had the id first, so theirs came in as Ramesh_1.
+    const mine = mergeData(addPerson(fixture(), ramesh).raw, theirs).merged;
+    expect(
+      mine.people.find((p) => p.uid === theirs.people.at(-1)!.uid)!.id,
+    ).toBe("Ramesh_1");
+
+    let s = { raw: theirs, history: emptyHistory };
+    s = edit(s.history, s.raw, "Edited Ramesh", (raw) =>
+      updatePerson(raw, "Ramesh", { birthDate: "1960" }),
+    );
+    s = edit(s.history, s.raw, "Added Chhaya", (raw) =>
+      growChild(raw, {
+        parentId: "Ramesh",
+        unionId: null,
+        adopted: false,
+        child: child("Chhaya"),
+      }).raw,
+    );
+    const { raw, errors } = applyPatch(mine, roundTrip(s.history));
+    expect(errors).toEqual([]);
+    expect(validateData(raw!).errors).toEqual([]);
+    const byId = (id: string) => raw!.people.find((p) => p.id === id)!;
+    expect(byId("Ramesh_1").birthDate).toBe("1960");
+    expect(byId("Ramesh").birthDate).toBeUndefined();
+    expect(
+      raw!.unions.find((u) => u.children.includes("Chhaya"))!.partners,
+    ).toEqual(["Ramesh_1"]);
+  });
+
+  it("gives an added person a fresh id when ours already has it", () => {
+    const ramesh = { ...child("Ramesh"), gender: "male" as const };
+    // Each relative added a Ramesh of their own.
+    const mine = addPerson(fixture(), ramesh).raw;
+    let s = { raw: fixture(), history: emptyHistory };
+    s = edit(s.history, s.raw, "Added Ramesh", (raw) =>
+      addPerson(raw, ramesh).raw,
+    );
+    s = edit(s.history, s.raw, "Added Chhaya", (raw) =>
+      growChild(raw, {
+        parentId: "Ramesh",
+        unionId: null,
+        adopted: false,
+        child: child("Chhaya"),
+      }).raw,
+    );
+    const patch = roundTrip(s.history);
+    const { raw, report, errors } = applyPatch(mine, patch);
+    expect(errors).toEqual([]);
+    expect(report.idsRemapped).toEqual([
+      { kind: "person", from: "Ramesh", to: "Ramesh_1" },
+    ]);
+    expect(validateData(raw!).errors).toEqual([]);
+    const byId = (id: string) => raw!.people.find((p) => p.id === id)!;
+    const uidOf = (r: FamilyDataV2) =>
+      r.people.find((p) => p.firstName === "Ramesh")!.uid;
+    expect(byId("Ramesh").uid).toBe(uidOf(mine));
+    expect(byId("Ramesh_1").uid).toBe(uidOf(s.raw));
+    expect(
+      raw!.unions.find((u) => u.children.includes("Chhaya"))!.partners,
+    ).toEqual(["Ramesh_1"]);
+    expect(mergeChanges(raw!, applyPatch(raw!, patch).raw!)).toEqual([]);
+  });
+
+  it("rejects text that isn't a patch", () => {
+    expect(looksLikePatch(JSON.stringify(fixture()))).toBe(false);
+    const parse = (meta: object, ops: object[]) =>
+      parsePatch(JSON.stringify({ meta, edits: [{ ops }] })).errors;
+    expect(parse({ patchVersion: 2 }, [])).toEqual([
+      "unsupported patch version 2",
+    ]);
+    expect(
+      parse({ patchVersion: 1 }, [{ op: "add", kind: "pet", id: "x" }]),
+    ).toEqual(['edit 1, operation 1: needs a known "kind" and an "id"']);
+  });
+});
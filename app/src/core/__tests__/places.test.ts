@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyDataV2 } from "../types";
+import { parseFamilyData, validateData } from "../validate";
+import { ensurePlace, mergePerson } from "../mutate";
+import { mergeData } from "../merge";
+import { buildDataset } from "../dataset";
+import { serialize, serializeGedcom } from "../exporter";
+import { importGedcom } from "../gedcom";
+import { fixture } from "./fixture";
+
+// Dad and Mom married in Surat; Dad was born there, and the famA side traces
+// itself to Vadnagar.
+const withPlaces = (): FamilyDataV2 => {
+  const raw = fixture();
+  raw.places = {
+    placeSurat: { name: "Surat", region: "Gujarat" },
+    placeVadnagar: { name: "Vadnagar" },
+  };
+  raw.people = raw.people.map((p) =>
+    p.id === "Dad"
+      ? { ...p, birthPlaceId: "placeSurat", nativePlaceId: "placeVadnagar" }
+      : p.id === "GpaA"
+        ? { ...p, nativePlaceId: "placeVadnagar", deathPlaceId: "placeSurat" }
+        : p,
+  );
+  raw.unions = raw.unions.map((u) =>
+    u.id === "u_dad_mom" ? { ...u, marriagePlaceId: "placeSurat" } : u,
+  );
+  return raw;
+};
+
+describe("place registry", () => {
+  it("parses, validates and serializes places", () => {
+    const parsed = parseFamilyData(serialize(withPlaces()));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.raw!.places!.placeSurat).toEqual({
+      name: "Surat",
+      region: "Gujarat",
+    });
+    expect(parsed.raw!.people.find((p) => p.id === "Dad")!.nativePlaceId).toBe(
+      "placeVadnagar",
+    );
+    // Files that predate the registry stay exactly as they were.
+    expect(JSON.parse(serialize(fixture()))).not.toHaveProperty("places");
+  });
+
+  it("rejects dangling place ids on people and unions", () => {
+    const raw = withPlaces();
+    delete raw.places!.placeSurat;
+    const { errors } = validateData(raw);
+    expect(errors).toContain('person "Dad": unknown birthPlaceId "placeSurat"');
+    expect(errors).toContain(
+      'union "u_dad_mom": unknown marriagePlaceId "placeSurat"',
+    );
+  });
+
+  it("indexes everyone tied to a place, and how", () => {
+    const ds = buildDataset(withPlaces());
+    expect(ds.peopleAtPlace.get("placeSurat")).toEqual([
+      { personId: "GpaA", tie: "died" },
+      { personId: "Dad", tie: "born" },
+      { personId: "Dad", tie: "married" },
+      { personId: "Mom", tie: "married" },
+    ]);
+    expect(
+      ds.peopleAtPlace.get("placeVadnagar")!.map((t) => t.personId),
+    ).toEqual(["GpaA", "Dad"]);
+  });
+
+  it("resolves typed names to existing places or adds new ones", () => {
+    const raw = withPlaces();
+    expect(ensurePlace(raw, " surat, gujarat ").placeId).toBe("placeSurat");
+    expect(ensurePlace(raw, "VADNAGAR").placeId).toBe("placeVadnagar");
+    expect(ensurePlace(raw, "  ").placeId).toBeUndefined();
+    const added = ensurePlace(raw, "Pune, Maharashtra");
+    expect(added.placeId).toBe("placePune");
+    expect(added.raw.places!.placePune).toEqual({
+      name: "Pune",
+      region: "Maharashtra",
+    });
+    expect(raw.places).not.toHaveProperty("placePune");
+  });
+
+  it("merges places like families: new ids added, local values kept", () => {
+    const local = withPlaces();
+    const incoming = withPlaces();
+    incoming.places = {
+      placeSurat: { name: "Soorat" },
+      placeNadiad: { name: "Nadiad" },
+    };
+    const { merged } = mergeData(local, incoming);
+    expect(merged.places!.placeSurat.name).toBe("Surat");
+    expect(merged.places!.placeNadiad.name).toBe("Nadiad");
+  });
+
+  it("fills blank places when merging two records of one person", () => {
+    const next = mergePerson(withPlaces(), "Dad", "Hermit");
+    expect(next.people.find((p) => p.id === "Dad")!.birthPlaceId).toBe(
+      "placeSurat",
+    );
+    const back = mergePerson(withPlaces(), "Hermit", "Dad");
+    expect(back.people.find((p) => p.id === "Hermit")!.nativePlaceId).toBe(
+      "placeVadnagar",
+    );
+  });
+
+  it("round-trips places through GEDCOM PLAC", () => {
+    const { raw, errors } = importGedcom(
+      serializeGedcom(buildDataset(withPlaces())),
+    );
+    expect(errors).toEqual([]);
+    expect(parseFamilyData(serialize(raw!)).errors).toEqual([]);
+    const dad = raw!.people.find((p) => p.firstName === "Dad")!;
+    expect(raw!.places![dad.birthPlaceId!]).toEqual({
+      name: "Surat",
+      region: "Gujarat",
+    });
+    expect(raw!.places![dad.nativePlaceId!].name).toBe("Vadnagar");
+    const marriage = raw!.unions.find(
+      (u) => u.partners.includes(dad.id) && u.marriagePlaceId,
+    )!;
+    expect(marriage.marriagePlaceId).toBe(dad.birthPlaceId);
+    // A place the local file already has is reused, not duplicated.
+    const again = importGedcom(
+      serializeGedcom(buildDataset(withPlaces())),
+      withPlaces(),
+    );
+    const dad2 = again.raw!.people.find((p) => p.firstName === "Dad")!;
+    expect(dad2.birthPlaceId).toBe("placeSurat");
+  });
+});
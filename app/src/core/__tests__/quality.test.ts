@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import { dataIssues } from "../quality";
+import type { FamilyDataV2 } from "../types";
+import { validateData } from "../validate";
+import { fixture } from "./fixture";
+
+const issuesOf = (raw: FamilyDataV2) => dataIssues(buildDataset(raw));
+const kinds = (raw: FamilyDataV2) => issuesOf(raw).map((i) => i.kind);
+const fixOf = (raw: FamilyDataV2, kind: string) => {
+  const issue = issuesOf(raw).find((i) => i.kind === kind)!;
+  return issue.fix!.apply(raw);
+};
+
+describe("data quality", () => {
+  it("finds only the hermit in the clean fixture", () => {
+    const issues = issuesOf(fixture());
+    expect(issues.map((i) => [i.kind, i.personId])).toEqual([
+      ["no-connections", "Hermit"],
+    ]);
+    // Deleting them goes through the usual confirmation, not a one-click fix.
+    expect(issues[0].fix).toBeUndefined();
+  });
+
+  it("keeps validation warnings, with who they're about", () => {
+    const raw = fixture();
+    raw.people.find((p) => p.id === "Son")!.birthFamilyId = "famB";
+    raw.people.find((p) => p.id === "GpaA")!.deathDate = "1990";
+    const issues = issuesOf(raw);
+    expect(issues.map((i) => i.message)).toEqual(
+      expect.arrayContaining(validateData(raw).warnings),
+    );
+    expect(issues.find((i) => i.kind === "birth-family")).toMatchObject({
+      personId: "Son",
+      unionId: "u_dad_mom",
+    });
+  });
+
+  it("fixes a birth family and a death date with one edit each", () => {
+    const raw = fixture();
+    raw.people.find((p) => p.id === "Son")!.birthFamilyId = "famB";
+    raw.people.find((p) => p.id === "GpaA")!.deathDate = "1990";
+    const family = fixOf(raw, "birth-family");
+    expect(family.people.find((p) => p.id === "Son")!.birthFamilyId).toBe(
+      "famA",
+    );
+    const late = fixOf(raw, "dead-but-alive");
+    expect(late.people.find((p) => p.id === "GpaA")!.alive).toBe(false);
+    expect(validateData(late).warnings).toHaveLength(1);
+  });
+
+  it("flags lone unions and removes them", () => {
+    const raw = fixture();
+    raw.unions.push({
+      ...raw.unions[0],
+      id: "u_lone",
+      partners: ["UncleB"],
+      children: [],
+      adoptedChildren: [],
+    });
+    expect(kinds(raw)).toContain("lone-union");
+    const fixed = fixOf(raw, "lone-union");
+    expect(fixed.unions.map((u) => u.id)).not.toContain("u_lone");
+    expect(fixed.unions).toHaveLength(raw.unions.length - 1);
+  });
+
+  it("flags families with one member or none, and deletes only unused ones", () => {
+    const raw = fixture();
+    raw.families.famD = { name: "D", color: "#000" };
+    raw.families.famE = { name: "E", color: "#111" };
+    raw.people.find((p) => p.id === "Hermit")!.birthFamilyId = "famE";
+    const issues = issuesOf(raw);
+    expect(issues.find((i) => i.kind === "unused-family")?.familyId).toBe(
+      "famD",
+    );
+    expect(
+      issues.find((i) => i.kind === "single-member-family"),
+    ).toMatchObject({ familyId: "famE", personId: "Hermit" });
+    expect(Object.keys(fixOf(raw, "unused-family").families)).toEqual([
+      "famA",
+      "famB",
+      "famC",
+      "famE",
+    ]);
+  });
+
+  it("drops a missing family from a saved filter", () => {
+    const raw = fixture();
+    raw.queries = [{ name: "Gone", query: { familyId: "famX", alive: true } }];
+    const fixed = fixOf(raw, "query-family");
+    expect(fixed.queries).toEqual([{ name: "Gone", query: { alive: true } }]);
+  });
+});
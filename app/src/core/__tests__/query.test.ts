@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import { serialize } from "../exporter";
+import { mergeData } from "../merge";
+import { deleteQuery, saveQuery } from "../mutate";
+import { describeQuery, runQuery, sameQuery } from "../query";
+import { parseFamilyData } from "../validate";
+import { fixture } from "./fixture";
+
+const ds = buildDataset(fixture());
+
+describe("person queries", () => {
+  it("combines every field that's set", () => {
+    expect(runQuery(ds, { gender: "female", familyId: "famA" })).toEqual(
+      expect.arrayContaining(["GmaA", "Mom", "Dau", "HalfSis"]),
+    );
+    expect(
+      runQuery(ds, { familyId: "famA", affiliation: "married-into" }),
+    ).toEqual(expect.arrayContaining(["GmaA", "Mom", "Ex"]));
+    expect(
+      runQuery(ds, {
+        gender: "female",
+        familyId: "famA",
+        affiliation: "birth",
+      }),
+    ).not.toContain("Mom");
+  });
+
+  it("filters on what's recorded about them", () => {
+    const roots = runQuery(ds, { hasParents: false, hasSpouse: true });
+    expect(roots).toContain("GpaA");
+    expect(roots).not.toContain("Son");
+    expect(roots).not.toContain("Hermit");
+    expect(runQuery(ds, { unionStatus: "divorced" }).sort()).toEqual([
+      "Dad",
+      "Ex",
+    ]);
+    expect(runQuery(ds, { hasChildren: false, hasSpouse: false })).toContain(
+      "Hermit",
+    );
+  });
+
+  it("counts generations from 1 at the top", () => {
+    const top = runQuery(ds, { maxGeneration: 1, familyId: "famA" });
+    expect(top).toEqual(expect.arrayContaining(["GpaA", "GmaA"]));
+    expect(top).not.toContain("Dad");
+    expect(runQuery(ds, { minGeneration: 3, maxGeneration: 3 })).toContain(
+      "Son",
+    );
+  });
+
+  it("reads back as a phrase", () => {
+    expect(
+      describeQuery(ds, {
+        alive: true,
+        gender: "female",
+        familyId: "famA",
+        affiliation: "birth",
+        minGeneration: 5,
+        maxGeneration: 5,
+      }),
+    ).toBe("Living women born into A, in generation 5");
+    expect(describeQuery(ds, { hasParents: false })).toBe(
+      "People with no parents recorded",
+    );
+    expect(sameQuery({ alive: true }, { alive: true })).toBe(true);
+    expect(sameQuery({ alive: true }, { alive: true, divine: false })).toBe(
+      false,
+    );
+  });
+});
+
+describe("saved queries", () => {
+  it("save by name into the file, round-trip, merge and delete", () => {
+    let raw = saveQuery(fixture(), "Roots", { hasParents: false });
+    raw = saveQuery(raw, " Roots ", { hasParents: false, alive: true });
+    expect(raw.queries).toEqual([
+      { name: "Roots", query: { hasParents: false, alive: true } },
+    ]);
+    const parsed = parseFamilyData(serialize(raw));
+    expect(parsed.raw!.queries).toEqual(raw.queries);
+
+    const theirs = saveQuery(fixture(), "Women", { gender: "female" });
+    const { merged } = mergeData(raw, saveQuery(theirs, "Roots", {}));
+    expect(merged.queries!.map((q) => q.name)).toEqual(["Roots", "Women"]);
+    expect(merged.queries![0].query.alive).toBe(true);
+
+    expect(deleteQuery(raw, "Roots").queries).toBeUndefined();
+  });
+
+  it("drops malformed fields and flags a missing family", () => {
+    const raw = JSON.parse(serialize(fixture()));
+    raw.queries = [
+      {
+        name: "Odd",
+        query: { alive: "yes", familyId: "famZ", gender: "male" },
+      },
+    ];
+    const parsed = parseFamilyData(JSON.stringify(raw));
+    expect(parsed.raw!.queries![0].query).toEqual({
+      familyId: "famZ",
+      gender: "male",
+    });
+    expect(parsed.warnings).toContain(
+      'saved query "Odd": unknown family "famZ"',
+    );
+  });
+
+  it("drops a nameless or repeated filter instead of refusing the file", () => {
+    const raw = JSON.parse(serialize(fixture()));
+    raw.queries = [
+      { name: "Roots", query: { hasParents: false } },
+      { name: " ", query: { alive: true } },
+      { name: "Roots", query: { gender: "male" } },
+    ];
+    const parsed = parseFamilyData(JSON.stringify(raw));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.raw!.queries).toEqual([
+      { name: "Roots", query: { hasParents: false } },
+    ]);
+    expect(parsed.warnings).toEqual(
+      expect.arrayContaining([
+        "saved query with an empty name, dropped",
+        'saved query "Roots": duplicate name, dropped',
+      ]),
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset } from "../dataset";
+import { foldWords, search, transliterate } from "../search";
+import { fixture } from "./fixture";
+
+const raw = fixture();
+const base = raw.people.find((p) => p.id === "Dau")!;
+raw.people.push(
+  { ...base, id: "Krishna", firstName: "Kṛṣṇa", lastName: "Yadav" },
+  { ...base, id: "Krishashva", firstName: "Krishashva", lastName: "" },
+  {
+    ...base,
+    id: "Ila",
+    firstName: "Ila",
+    lastName: "",
+    altName: "Sudyumna",
+    notes: "Changed by a curse in the forest of Shiva",
+  },
+);
+const ds = buildDataset(raw);
+const ids = (query: string) =>
+  search(ds.searchIndex, query, ["person"]).map((h) => h.entry.id);
+
+describe("folding", () => {
+  it("transliterates Devanagari and Gujarati, dropping the final schwa", () => {
+    expect(transliterate("राम")).toBe("ram");
+    expect(transliterate("कृष्ण")).toBe("krsn");
+    expect(transliterate("अर्जुन")).toBe("arjun");
+    expect(transliterate("ધવલ")).toBe("dhaval");
+    expect(transliterate("गंगा")).toBe("ganga");
+  });
+
+  it("merges diacritics and romanization variants into one spelling", () => {
+    expect(foldWords("Kṛṣṇa")).toEqual(["krsna"]);
+    expect(foldWords("Vishwa-mitra")).toEqual(["visva", "mitra"]);
+    expect(foldWords("Chandra Geeta")).toEqual(foldWords("Candra Gītā"));
+  });
+});
+
+describe("search", () => {
+  it("finds a name however it's spelled or scripted", () => {
+    expect(ids("Krishna")).toEqual(["Krishna", "Krishashva"]);
+    expect(ids("krsna")).toEqual(["Krishna"]);
+    expect(ids("कृष्ण")).toEqual(["Krishna"]);
+    expect(ids("Krishna Yadav")).toEqual(["Krishna"]);
+  });
+
+  it("forgives typos in longer words, but not in short ones", () => {
+    expect(ids("Krisna")).toContain("Krishna");
+    expect(ids("Girlfrend")).toEqual(["Girlfriend"]);
+    expect(ids("Mun")).toEqual([]);
+  });
+
+  it("ranks exact names over prefixes over notes", () => {
+    expect(ids("Sudyumna")).toEqual(["Ila"]);
+    expect(ids("curse")).toEqual(["Ila"]);
+    // "krish" folds to "kris": a prefix of Krishashva, one slip from Kṛṣṇa.
+    expect(ids("Krish")).toEqual(["Krishashva", "Krishna"]);
+  });
+
+  it("finds families and places too, and nothing for an empty query", () => {
+    expect(
+      search(ds.searchIndex, "A").map((h) => `${h.entry.kind}:${h.entry.id}`),
+    ).toContain("family:famA");
+    expect(search(ds.searchIndex, "  ")).toEqual([]);
+  });
+});
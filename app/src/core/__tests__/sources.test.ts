@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { FamilyDataV2 } from "../types";
+import { parseFamilyData, validateData } from "../validate";
+import { mergePerson } from "../mutate";
+import { mergeData } from "../merge";
+import { serialize } from "../exporter";
+import { fixture } from "./fixture";
+
+// A family register cites Dad's birth and the Dad–Mom marriage; a letter backs
+// Hermit's whole record.
+const withSources = (): FamilyDataV2 => {
+  const raw = fixture();
+  raw.sources = {
+    sourceRegister: { title: "Family register", author: "GpaA" },
+    sourceLetter: { title: "Letter, 1962", url: "https://example.org/l" },
+  };
+  raw.people = raw.people.map((p) =>
+    p.id === "Dad"
+      ? {
+          ...p,
+          citations: [
+            { sourceId: "sourceRegister", locator: "p. 4", fact: "birth" },
+          ],
+        }
+      : p.id === "Hermit"
+        ? { ...p, citations: [{ sourceId: "sourceLetter" }] }
+        : p,
+  );
+  raw.unions = raw.unions.map((u) =>
+    u.id === "u_dad_mom"
+      ? {
+          ...u,
+          citations: [
+            { sourceId: "sourceRegister", locator: "p. 5", fact: "marriage" },
+          ],
+        }
+      : u,
+  );
+  return raw;
+};
+
+describe("sources and citations", () => {
+  it("parses, validates and serializes the registry and citations", () => {
+    const parsed = parseFamilyData(serialize(withSources()));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.raw!.sources!.sourceLetter.url).toBe("https://example.org/l");
+    expect(parsed.raw!.people.find((p) => p.id === "Dad")!.citations).toEqual([
+      { sourceId: "sourceRegister", locator: "p. 4", fact: "birth" },
+    ]);
+    expect(JSON.parse(serialize(fixture()))).not.toHaveProperty("sources");
+  });
+
+  it("drops malformed citations and widens unknown facts to the whole record", () => {
+    const json = JSON.parse(serialize(withSources()));
+    json.people[0].citations = [
+      { sourceId: "sourceRegister", locator: "  ", fact: "shoeSize" },
+      { locator: "no source" },
+      "SB 9.2.17",
+    ];
+    const parsed = parseFamilyData(JSON.stringify(json));
+    expect(parsed.raw!.people[0].citations).toEqual([
+      { sourceId: "sourceRegister" },
+    ]);
+  });
+
+  it("rejects citations of unknown sources", () => {
+    const raw = withSources();
+    delete raw.sources!.sourceRegister;
+    const { errors } = validateData(raw);
+    expect(errors).toContain(
+      'person "Dad": citation of unknown source "sourceRegister"',
+    );
+    expect(errors).toContain(
+      'union "u_dad_mom": citation of unknown source "sourceRegister"',
+    );
+  });
+
+  it("merges sources like families and pools citations on shared records", () => {
+    const local = withSources();
+    const incoming = withSources();
+    incoming.sources = {
+      sourceRegister: { title: "Renamed" },
+      sourceCensus: { title: "Census 1951" },
+    };
+    // The incoming Dad is older, but his extra citation still survives.
+    const dad = incoming.people.find((p) => p.id === "Dad")!;
+    dad.updatedAt = "2000-01-01T00:00:00.000Z";
+    dad.citations = [{ sourceId: "sourceCensus", locator: "ward 3" }];
+    const { merged, report } = mergeData(local, incoming);
+    expect(merged.sources!.sourceRegister.title).toBe("Family register");
+    expect(merged.sources!.sourceCensus.title).toBe("Census 1951");
+    expect(report.peopleUpdated).toEqual([]);
+    expect(
+      merged.people
+        .find((p) => p.id === "Dad")!
+        .citations!.map((c) => c.sourceId),
+    ).toEqual(["sourceRegister", "sourceCensus"]);
+    expect(validateData(merged).errors).toEqual([]);
+  });
+
+  it("keeps both people's citations when merging duplicates", () => {
+    const next = mergePerson(withSources(), "Dad", "Hermit");
+    expect(
+      next.people
+        .find((p) => p.id === "Dad")!
+        .citations!.map((c) => c.sourceId),
+    ).toEqual(["sourceRegister", "sourceLetter"]);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Dataset } from "./types";
+
+/**
+ * How much of their ancestry two people share, and how often a pedigree runs
+ * into the same ancestor twice. Cousin marriages are common in the family and
+ * in the epics alike, so one ancestor can sit at several places in a person's
+ * tree. Only biological parentage counts: adoption and divine parentage pass
+ * on a family, not genes.
+ */
+
+const bioParents = (ds: Dataset, id: string): string[] =>
+  (ds.parentsOf.get(id) ?? [])
+    .filter((p) => p.tag === "biological")
+    .map((p) => p.id);
+
+/** Generations of known biological ancestry above each person: 0 for someone
+ *  with no known parents. An ancestor always sits lower than its descendants,
+ *  which is the order the recursions below need. */
+const depths = (ds: Dataset): ((id: string) => number) => {
+  const memo = new Map<string, number>();
+  const depth = (id: string): number => {
+    const known = memo.get(id);
+    if (known !== undefined) return known;
+    // Provisional 0 first, so a cycle in bad data ends instead of recursing.
+    memo.set(id, 0);
+    const d = Math.max(-1, ...bioParents(ds, id).map(depth)) + 1;
+    memo.set(id, d);
+    return d;
+  };
+  return depth;
+};
+
+/**
+ * Kinship (coancestry) coefficients, memoized: the chance that a gene picked at
+ * random from A and one from B are identical by descent. Each call walks up
+ * from whichever of the two is lower in the tree, so an ancestor is never
+ * expanded below its own descendant.
+ */
+const kinshipOf = (ds: Dataset): ((a: string, b: string) => number) => {
+  const depth = depths(ds);
+  const memo = new Map<string, number>();
+  const kinship = (a: string, b: string): number => {
+    if (depth(a) < depth(b) || (depth(a) === depth(b) && a > b))
+      [a, b] = [b, a];
+    const key = `${a}|${b}`;
+    const known = memo.get(key);
+    if (known !== undefined) return known;
+    memo.set(key, 0);
+    const parents = bioParents(ds, a);
+    let f: number;
+    if (a === b) {
+      f = (1 + (parents.length === 2 ? kinship(parents[0], parents[1]) : 0)) / 2;
+    } else {
+      f = parents.reduce((sum, p) => sum + kinship(p, b), 0) / 2;
+    }
+    memo.set(key, f);
+    return f;
+  };
+  return kinship;
+};
+
+/** Wright's inbreeding coefficient F: the kinship of the person's two parents. */
+export const inbreedingCoefficient = (ds: Dataset, id: string): number => {
+  const parents = bioParents(ds, id);
+  return parents.length === 2 ? kinshipOf(ds)(parents[0], parents[1]) : 0;
+};
+
+/**
+ * Wright's coefficient of relationship r: the share of genes A and B have in
+ * common by descent. 0.5 for a parent or a full sibling, 0.25 for a half-sibling
+ * or a grandparent, 0.125 for a first cousin; more when their ancestors also
+ * married each other.
+ */
+export const coefficientOfRelationship = (
+  ds: Dataset,
+  a: string,
+  b: string,
+): number => {
+  if (a === b) return 1;
+  const kinship = kinshipOf(ds);
+  const fa = kinship(a, a) * 2 - 1;
+  const fb = kinship(b, b) * 2 - 1;
+  return (2 * kinship(a, b)) / Math.sqrt((1 + fa) * (1 + fb));
+};
+
+/** An ancestor who appears more than once in someone's pedigree. */
+export interface PedigreeCollapse {
+  ancestorId: string;
+  /** Distinct lines of descent from the ancestor to the person. */
+  paths: number;
+  /** Generations up to the ancestor along the shortest of those lines. */
+  up: number;
+}
+
+/**
+ * The points where a person's pedigree collapses: ancestors reached by more
+ * than one line. An ancestor whose extra lines all come through one child that
+ * is itself such a point (the parents of a doubly-reached grandfather) adds
+ * nothing new and is left out. Nearest first.
+ */
+export const pedigreeCollapse = (
+  ds: Dataset,
+  id: string,
+): PedigreeCollapse[] => {
+  const depth = depths(ds);
+  const paths = new Map([[id, 1]]);
+  const up = new Map([[id, 0]]);
+  // Children of each ancestor within this pedigree.
+  const below = new Map<string, string[]>();
+  const seen = new Set([id]);
+  const stack = [id];
+  while (stack.length > 0) {
+    const cur = stack.pop()!;
+    for (const p of bioParents(ds, cur)) {
+      below.set(p, [...(below.get(p) ?? []), cur]);
+      if (!seen.has(p)) {
+        seen.add(p);
+        stack.push(p);
+      }
+    }
+  }
+  // Descendants before ancestors, so every line into an ancestor is counted
+  // before it passes them on.
+  const order = [...seen].sort((x, y) => depth(y) - depth(x));
+  for (const cur of order) {
+    if (cur === id) continue;
+    const kids = below.get(cur) ?? [];
+    paths.set(
+      cur,
+      kids.reduce((sum, k) => sum + (paths.get(k) ?? 0), 0),
+    );
+    up.set(cur, Math.min(...kids.map((k) => up.get(k)! + 1)));
+  }
+  return order
+    .filter((anc) => {
+      const n = paths.get(anc)!;
+      const kids = below.get(anc) ?? [];
+      return n > 1 && kids.every((k) => paths.get(k)! < n);
+    })
+    .map((ancestorId) => ({
+      ancestorId,
+      paths: paths.get(ancestorId)!,
+      up: up.get(ancestorId)!,
+    }))
+    .sort((x, y) => x.up - y.up);
+};
+
+/** A coefficient as a percentage: "25%", "6.25%", "0.391%". */
+export const formatCoefficient = (x: number): string =>
+  `${Number((x * 100).toPrecision(3))}%`;
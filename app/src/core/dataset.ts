@@ -4,10 +4,13 @@ import type {
   FamilyDataV2,
   FamilyLabel,
   PersonRecord,
+  PlaceTie,
   RelRef,
   SpouseRef,
 } from "./types";
+import { PERSON_PLACE_KEYS, PERSON_PLACE_TIE } from "./types";
 import { computeGenerations } from "./generations";
+import { buildSearchIndex } from "./search";
 
 const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
   const arr = map.get(key);
@@ -127,6 +130,29 @@ export const buildDataset = (raw: FamilyDataV2): Dataset => {
     }
   }
 
+  // Places: who was born, lived, died or married where. A union's place ties
+  // both partners.
+  const peopleAtPlace = new Map<
+    string,
+    { personId: string; tie: PlaceTie }[]
+  >();
+  for (const p of raw.people) {
+    for (const key of PERSON_PLACE_KEYS) {
+      const placeId = p[key];
+      if (placeId)
+        push(peopleAtPlace, placeId, {
+          personId: p.id,
+          tie: PERSON_PLACE_TIE[key],
+        });
+    }
+  }
+  for (const u of raw.unions) {
+    if (!u.marriagePlaceId) continue;
+    for (const pid of u.partners) {
+      push(peopleAtPlace, u.marriagePlaceId, { personId: pid, tie: "married" });
+    }
+  }
+
   const { gen, componentOf } = computeGenerations(raw.people, raw.unions);
   const familyLabels = computeFamilyLabels(raw, people, gen);
 
@@ -142,9 +168,11 @@ export const buildDataset = (raw: FamilyDataV2): Dataset => {
     familiesOf,
     membersOfFamily,
     divineChildrenOf,
+    peopleAtPlace,
     familyLabels,
     generations: gen,
     componentOf,
+    searchIndex: buildSearchIndex(raw),
   };
 };
 
@@ -0,0 +1,125 @@
+/**
+ * Partial and approximate dates, stored as short readable strings so the JSON
+ * stays hand-editable:
+ *
+ *   "1947-08-15"   exact day          "c. 1920"       circa (also "ca.", "~")
+ *   "1947-08"      month only         "before 1950"   upper bound only
+ *   "1947"         year only          "after 1900"    lower bound only
+ *   "1920/1925"    somewhere between the two
+ *
+ * Any of the bounded forms takes a full, month or year date. Comparisons work on
+ * the widest span the text allows, so checks only flag what is certainly wrong.
+ */
+
+export type DateKind = "exact" | "circa" | "before" | "after" | "range";
+
+export interface ParsedDate {
+  kind: DateKind;
+  /** Earliest and latest day the text allows, as sortable yyyymmdd numbers
+   *  (±Infinity for an open bound). */
+  earliest: number;
+  latest: number;
+}
+
+/** How far either side of "c. 1920" the real date may fall. */
+const CIRCA_YEARS = 5;
+const MONTHS = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
+
+const YMD = /^(\d{1,4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/** "1947-08" → its first and last possible day. */
+const parsePoint = (text: string): { lo: number; hi: number } | null => {
+  const m = YMD.exec(text.trim());
+  if (!m) return null;
+  const y = Number(m[1]);
+  const mo = m[2] ? Number(m[2]) : null;
+  const d = m[3] ? Number(m[3]) : null;
+  if (mo !== null && (mo < 1 || mo > 12)) return null;
+  if (d !== null && (d < 1 || d > 31)) return null;
+  const key = (mm: number, dd: number) => y * 10000 + mm * 100 + dd;
+  return {
+    lo: key(mo ?? 1, d ?? 1),
+    hi: key(mo ?? 12, d ?? 31),
+  };
+};
+
+export const parseDate = (text: string): ParsedDate | null => {
+  const t = text.trim().toLowerCase();
+  if (!t) return null;
+  let m = /^(?:c\.|ca\.|circa|~)\s*(.+)$/.exec(t);
+  if (m) {
+    const p = parsePoint(m[1]);
+    return p
+      ? {
+          kind: "circa",
+          earliest: p.lo - CIRCA_YEARS * 10000,
+          latest: p.hi + CIRCA_YEARS * 10000,
+        }
+      : null;
+  }
+  m = /^(before|after)\s+(.+)$/.exec(t);
+  if (m) {
+    const p = parsePoint(m[2]);
+    if (!p) return null;
+    return m[1] === "before"
+      ? { kind: "before", earliest: -Infinity, latest: p.hi }
+      : { kind: "after", earliest: p.lo, latest: Infinity };
+  }
+  m = /^([^/]+)\/([^/]+)$/.exec(t);
+  if (m) {
+    const a = parsePoint(m[1]);
+    const b = parsePoint(m[2]);
+    return a && b && a.lo <= b.hi
+      ? { kind: "range", earliest: a.lo, latest: b.hi }
+      : null;
+  }
+  const p = parsePoint(t);
+  return p ? { kind: "exact", earliest: p.lo, latest: p.hi } : null;
+};
+
+export const isValidDate = (text: string): boolean => parseDate(text) !== null;
+
+/** A is certainly earlier than B: every day A allows precedes every day B allows. */
+export const certainlyBefore = (a: string, b: string): boolean => {
+  const pa = parseDate(a);
+  const pb = parseDate(b);
+  return !!pa && !!pb && pa.latest < pb.earliest;
+};
+
+/** Sort order for dated things: earliest possible day, then latest. Unparseable
+ *  or missing dates return null so callers decide where they go. */
+export const dateSortKey = (text: string | undefined): number | null => {
+  const p = text ? parseDate(text) : null;
+  if (!p) return null;
+  return Number.isFinite(p.earliest) ? p.earliest : p.latest;
+};
+
+const formatPoint = (text: string): string => {
+  const m = YMD.exec(text.trim());
+  if (!m) return text.trim();
+  const [, y, mo, d] = m;
+  const month = mo ? MONTHS[Number(mo) - 1] : "";
+  return [d ? String(Number(d)) : "", month, String(Number(y))]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/** "1947-08-15" → "15 Aug 1947", "1920/1925" → "1920–1925". Unparseable text
+ *  is shown as written. */
+export const formatDate = (text: string): string => {
+  const t = text.trim();
+  const p = parseDate(t);
+  if (!p) return t;
+  const body = t.replace(/^(?:c\.|ca\.|circa|~|before|after)\s*/i, "");
+  switch (p.kind) {
+    case "circa":
+      return `c. ${formatPoint(body)}`;
+    case "before":
+    case "after":
+      return `${p.kind} ${formatPoint(body)}`;
+    case "range":
+      return t.split("/").map(formatPoint).join("–");
+    default:
+      return formatPoint(t);
+  }
+};
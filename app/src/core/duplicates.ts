@@ -0,0 +1,199 @@
+import type { Dataset, PersonRecord } from "./types";
+import { editDistance, foldWords } from "./search";
+
+/**
+ * Finding the same person entered twice. An import from a relative who spelled
+ * things a little differently leaves "Ramesh" and "Ramesh_1" side by side, and
+ * mergePerson can only fold them once someone notices. Each candidate pair is
+ * scored on what the two records agree on: the name, the names of their
+ * parents, spouses and children, their birth family and generation.
+ */
+
+export interface DuplicatePair {
+  /** The record to keep: the better connected of the two. */
+  keepId: string;
+  absorbId: string;
+  /** 0–100; higher is likelier the same person. */
+  score: number;
+  /** What the two agree on, as short phrases for the review queue. */
+  reasons: string[];
+}
+
+/** Pairs scoring below this aren't worth a reviewer's time. */
+export const DUPLICATE_THRESHOLD = 60;
+
+const NAME_WEIGHT = 40;
+const PARENTS_WEIGHT = 25;
+const SPOUSE_WEIGHT = 25;
+const CHILDREN_WEIGHT = 20;
+const FAMILY_WEIGHT = 10;
+const GENERATION_WEIGHT = 10;
+// Generations more than one apart: a namesake grandson, not a duplicate.
+const GENERATION_GAP_PENALTY = 30;
+
+/** Order-independent key for a pair of ids. */
+export const pairKey = (a: string, b: string): string =>
+  a < b ? `${a}|${b}` : `${b}|${a}`;
+
+// Records are replaced, never mutated, on edit, so a fold can be kept per record.
+const folded = new WeakMap<PersonRecord, string>();
+const firstNameKey = (p: PersonRecord): string => {
+  let key = folded.get(p);
+  if (key === undefined) {
+    key = foldWords(p.firstName).join("");
+    folded.set(p, key);
+  }
+  return key;
+};
+
+// Honorifics written onto a name or left off it: Rajeshbhai is Rajesh.
+const HONORIFICS = ["bhai", "ben", "ba", "bai", "ji", "devi"];
+
+/**
+ * How alike two folded first names are, 0–1: 1 when equal, 0.9 when they
+ * differ only by an honorific ("Rajesh", "Rajeshbhai"), otherwise what edit
+ * distance leaves of the longer one.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (long.startsWith(short) && HONORIFICS.includes(long.slice(short.length)))
+    return 0.9;
+  return 1 - editDistance(a, b) / long.length;
+};
+
+/** Names shared between two sets of relatives, as they were written. An
+ *  honorific doesn't make a name different; a typo does. */
+const sharedNames = (
+  ds: Dataset,
+  mine: string[],
+  theirs: string[],
+): string[] => {
+  const keys = theirs.map((id) => firstNameKey(ds.people.get(id)!));
+  return mine
+    .map((id) => ds.people.get(id)!)
+    .filter((p) => keys.some((k) => nameSimilarity(firstNameKey(p), k) >= 0.9))
+    .map((p) => p.firstName);
+};
+
+const ids = (refs: { id: string }[] | undefined): string[] =>
+  (refs ?? []).map((r) => r.id);
+
+/** Links a merge would move: the record with more is the one to keep. */
+const linkCount = (ds: Dataset, id: string): number =>
+  (ds.parentsOf.get(id)?.length ?? 0) +
+  (ds.spousesOf.get(id)?.length ?? 0) +
+  (ds.childrenOf.get(id)?.length ?? 0);
+
+/**
+ * Likely duplicates, likeliest first. Only people of the same gender whose
+ * names start alike are compared, and never two who are already each other's
+ * spouse, parent or child, or differently named siblings.
+ */
+export const findDuplicates = (
+  ds: Dataset,
+  threshold = DUPLICATE_THRESHOLD,
+): DuplicatePair[] => {
+  const buckets = new Map<string, PersonRecord[]>();
+  for (const p of ds.raw.people) {
+    const key = firstNameKey(p);
+    if (!key) continue;
+    const bucket = `${p.gender}:${key[0]}`;
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), p]);
+  }
+
+  const pairs: DuplicatePair[] = [];
+  for (const people of buckets.values()) {
+    for (let i = 0; i < people.length; i++) {
+      for (let j = i + 1; j < people.length; j++) {
+        const pair = scorePair(ds, people[i], people[j]);
+        if (pair && pair.score >= threshold) pairs.push(pair);
+      }
+    }
+  }
+  return pairs.sort(
+    (x, y) => y.score - x.score || x.keepId.localeCompare(y.keepId),
+  );
+};
+
+const scorePair = (
+  ds: Dataset,
+  a: PersonRecord,
+  b: PersonRecord,
+): DuplicatePair | null => {
+  const similarity = nameSimilarity(firstNameKey(a), firstNameKey(b));
+  if (similarity < 0.75) return null;
+  const parentsA = ids(ds.parentsOf.get(a.id));
+  const spousesA = ids(ds.spousesOf.get(a.id));
+  const childrenA = ids(ds.childrenOf.get(a.id));
+  if ([...parentsA, ...spousesA, ...childrenA].includes(b.id)) return null;
+  // Differently named children of the same parent are siblings: Ambika and
+  // Ambalika, not one princess entered twice. A duplicate hangs off a copy of
+  // the parents, not the parents themselves.
+  const parentsB = ids(ds.parentsOf.get(b.id));
+  if (similarity < 1 && parentsA.some((id) => parentsB.includes(id)))
+    return null;
+
+  let score = Math.round(NAME_WEIGHT * similarity);
+  const reasons = [
+    similarity === 1
+      ? "same name"
+      : `similar names (${a.firstName} / ${b.firstName})`,
+  ];
+  const agree = (
+    weight: number,
+    label: string,
+    mine: string[],
+    theirs: string[],
+  ) => {
+    const names = sharedNames(ds, mine, theirs);
+    if (names.length === 0) return;
+    score += weight;
+    reasons.push(`${label}: ${names.join(", ")}`);
+  };
+  agree(
+    PARENTS_WEIGHT,
+    "same parents' names",
+    parentsA,
+    parentsB,
+  );
+  agree(
+    SPOUSE_WEIGHT,
+    "same spouse's name",
+    spousesA,
+    ids(ds.spousesOf.get(b.id)),
+  );
+  agree(
+    CHILDREN_WEIGHT,
+    "same children's names",
+    childrenA,
+    ids(ds.childrenOf.get(b.id)),
+  );
+  if (a.birthFamilyId && a.birthFamilyId === b.birthFamilyId) {
+    score += FAMILY_WEIGHT;
+    reasons.push("same birth family");
+  }
+  // Generations only line up within one connected tree; an imported copy sits
+  // in a tree of its own.
+  const genA = ds.generations.get(a.id);
+  const genB = ds.generations.get(b.id);
+  const sameTree = ds.componentOf.get(a.id) === ds.componentOf.get(b.id);
+  if (sameTree && genA !== undefined && genB !== undefined) {
+    if (genA === genB) {
+      score += GENERATION_WEIGHT;
+      reasons.push("same generation");
+    } else if (Math.abs(genA - genB) > 1) {
+      score -= GENERATION_GAP_PENALTY;
+    }
+  }
+
+  const [keep, absorb] =
+    linkCount(ds, b.id) > linkCount(ds, a.id) ? [b, a] : [a, b];
+  return {
+    keepId: keep.id,
+    absorbId: absorb.id,
+    score: Math.max(0, Math.min(100, score)),
+    reasons,
+  };
+};
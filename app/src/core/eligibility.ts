@@ -0,0 +1,148 @@
+import type { Dataset } from "./types";
+
+/**
+ * "Can these two marry?", asked the way the community asks it: no ancestor in
+ * common within so many generations through the father and so many through
+ * the mother (the sapinda rule), not of one gotra, not born into one family.
+ * Every rule is configurable; the answer lists each one broken and, for
+ * sapinda, the nearest ancestors that broke it.
+ */
+export interface EligibilityRules {
+  /** How many generations up, through the father, a shared ancestor still
+   *  forbids the match (parent = 1). 0 switches the side off. */
+  paternalGenerations: number;
+  /** The same through the mother. */
+  maternalGenerations: number;
+  /** Forbid a match within one gotra, the gotra of each person's birth family. */
+  sameGotra: boolean;
+  sameBirthFamily: boolean;
+}
+
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  paternalGenerations: 7,
+  maternalGenerations: 5,
+  sameGotra: true,
+  sameBirthFamily: true,
+};
+
+export type AncestrySide = "paternal" | "maternal";
+
+export type EligibilityViolation =
+  | {
+      rule: "sapinda";
+      ancestorId: string;
+      /** Generations from A up to the ancestor, and through which parent;
+       *  0 and null when A is the ancestor. */
+      upA: number;
+      sideA: AncestrySide | null;
+      upB: number;
+      sideB: AncestrySide | null;
+    }
+  | { rule: "gotra"; gotra: string }
+  | { rule: "birthFamily"; familyId: string };
+
+export interface Eligibility {
+  violations: EligibilityViolation[];
+  /** Rules that couldn't be checked because a gotra or birth family isn't
+   *  recorded for one of the two. */
+  unchecked: ("gotra" | "birthFamily")[];
+}
+
+type Reach = Partial<Record<AncestrySide, number>>;
+
+/** Every ancestor within the rules' reach, with the fewest generations up to
+ *  them on each side. The person is their own ancestor, at 0 on both. */
+const sapindaReach = (
+  ds: Dataset,
+  id: string,
+  rules: EligibilityRules,
+): Map<string, Reach> => {
+  const reach = new Map<string, Reach>([[id, { paternal: 0, maternal: 0 }]]);
+  for (const first of ds.parentsOf.get(id) ?? []) {
+    const side: AncestrySide =
+      ds.people.get(first.id)?.gender === "female" ? "maternal" : "paternal";
+    const limit =
+      side === "paternal"
+        ? rules.paternalGenerations
+        : rules.maternalGenerations;
+    let level = [first.id];
+    for (let up = 1; up <= limit && level.length > 0; up++) {
+      const next: string[] = [];
+      for (const cur of level) {
+        const at = reach.get(cur) ?? {};
+        if ((at[side] ?? Infinity) <= up) continue;
+        reach.set(cur, { ...at, [side]: up });
+        for (const p of ds.parentsOf.get(cur) ?? []) next.push(p.id);
+      }
+      level = next;
+    }
+  }
+  return reach;
+};
+
+// The nearer side, for explaining: "3 generations up through the father".
+const nearest = (r: Reach): { up: number; side: AncestrySide | null } => {
+  const p = r.paternal ?? Infinity;
+  const m = r.maternal ?? Infinity;
+  const up = Math.min(p, m);
+  return { up, side: up === 0 ? null : p <= m ? "paternal" : "maternal" };
+};
+
+const gotraOf = (ds: Dataset, id: string): string | undefined => {
+  const famId = ds.people.get(id)?.birthFamilyId;
+  return famId ? ds.raw.families[famId]?.gotra?.trim() || undefined : undefined;
+};
+
+/**
+ * Check a prospective match between A and B against the rules. No violations
+ * means none of the rules that could be checked forbids it.
+ */
+export const checkEligibility = (
+  ds: Dataset,
+  a: string,
+  b: string,
+  rules: EligibilityRules = DEFAULT_ELIGIBILITY_RULES,
+): Eligibility => {
+  const violations: EligibilityViolation[] = [];
+  const unchecked: Eligibility["unchecked"] = [];
+
+  const fromA = sapindaReach(ds, a, rules);
+  const fromB = sapindaReach(ds, b, rules);
+  const shared = new Set([...fromA.keys()].filter((id) => fromB.has(id)));
+  // Parents shared means grandparents shared too; name only the nearest.
+  const sapinda = [...shared]
+    .filter(
+      (id) => !(ds.childrenOf.get(id) ?? []).some((c) => shared.has(c.id)),
+    )
+    .map((ancestorId) => {
+      const na = nearest(fromA.get(ancestorId)!);
+      const nb = nearest(fromB.get(ancestorId)!);
+      return {
+        rule: "sapinda" as const,
+        ancestorId,
+        upA: na.up,
+        sideA: na.side,
+        upB: nb.up,
+        sideB: nb.side,
+      };
+    })
+    .sort((x, y) => x.upA + x.upB - (y.upA + y.upB));
+  violations.push(...sapinda);
+
+  if (rules.sameGotra) {
+    const ga = gotraOf(ds, a);
+    const gb = gotraOf(ds, b);
+    if (!ga || !gb) unchecked.push("gotra");
+    else if (ga.toLowerCase() === gb.toLowerCase())
+      violations.push({ rule: "gotra", gotra: ga });
+  }
+
+  if (rules.sameBirthFamily) {
+    const fa = ds.people.get(a)?.birthFamilyId;
+    const fb = ds.people.get(b)?.birthFamilyId;
+    if (!fa || !fb) unchecked.push("birthFamily");
+    else if (fa === fb) violations.push({ rule: "birthFamily", familyId: fa });
+  }
+
+  return { violations, unchecked };
+};
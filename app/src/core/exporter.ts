@@ -1,4 +1,8 @@
-import type { FamilyDataV2 } from "./types";
+import type { Dataset, FamilyDataV2, PersonRecord, UnionRecord } from "./types";
+import { personName, placeName } from "./types";
+import { familyView } from "./family2d";
+import { toGedcomDate } from "./gedcom";
+import type { KinTableRow } from "./kinship";
 
 /** Serialize the dataset for Save/Export: refreshes the export timestamp. */
 export const serialize = (raw: FamilyDataV2): string =>
@@ -6,9 +10,200 @@ export const serialize = (raw: FamilyDataV2): string =>
     {
       meta: { schemaVersion: 2 as const, exportedAt: new Date().toISOString() },
       families: raw.families,
+      ...(raw.places && Object.keys(raw.places).length
+        ? { places: raw.places }
+        : {}),
+      ...(raw.sources && Object.keys(raw.sources).length
+        ? { sources: raw.sources }
+        : {}),
+      ...(raw.queries?.length ? { queries: raw.queries } : {}),
       people: raw.people,
       unions: raw.unions,
+      ...(raw.tombstones?.length ? { tombstones: raw.tombstones } : {}),
     },
     null,
     2,
   );
+
+const MONTHS = "JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC".split(" ");
+const gedDate = (d: Date): string =>
+  `${d.getUTCDate()} ${MONTHS[d.getUTCMonth()]} ${d.getUTCFullYear()}`;
+
+/** A text value as GEDCOM lines: newlines become CONT, long runs are cut with CONC. */
+const textLines = (level: number, tag: string, text: string): string[] => {
+  const out: string[] = [];
+  text.split(/\r\n|\r|\n/).forEach((line, i) => {
+    const chunks = line.match(/[\s\S]{1,200}/g) ?? [""];
+    chunks.forEach((chunk, j) => {
+      const head =
+        i === 0 && j === 0
+          ? `${level} ${tag}`
+          : `${level + 1} ${j === 0 ? "CONT" : "CONC"}`;
+      out.push(chunk ? `${head} ${chunk.replace(/^@/, "@@")}` : head);
+    });
+  });
+  return out;
+};
+
+/**
+ * GEDCOM 5.5.1 for genealogy software that can't read our JSON. People become
+ * INDI records and unions FAM records; adopted children are linked with
+ * `PEDI adopted`, a divorce with `DIV`, and each person's FAMS links are listed
+ * in union `order`. Places go out as `PLAC` under BIRT/DEAT/MARR, a `RESI` event
+ * and a `_NATIVE` extension for the ancestral village. The exact union status
+ * rides along in a `_STATUS` extension tag, and each record's key in `_UID`,
+ * both of which importGedcom reads back. Pass a family id to export only what
+ * familyView shows for it (the Share flow), or null for the whole dataset.
+ */
+export const serializeGedcom = (
+  ds: Dataset,
+  familyId: string | null = null,
+): string => {
+  const scope = familyId ? familyView(ds, familyId).nodeIds : null;
+  const inScope = (id: string) =>
+    ds.people.has(id) && (!scope || scope.has(id));
+  const people = ds.raw.people.filter((p) => inScope(p.id));
+  // A union is exported when at least one partner is; anyone outside the scope is
+  // simply left off it.
+  const unions = ds.raw.unions
+    .map((u) => ({
+      ...u,
+      partners: u.partners.filter(inScope),
+      children: u.children.filter(inScope),
+      adoptedChildren: (u.adoptedChildren ?? []).filter(inScope),
+    }))
+    .filter((u) => u.partners.length > 0);
+
+  const indiRef = new Map(people.map((p, i) => [p.id, `@I${i + 1}@`]));
+  const famRef = new Map(unions.map((u, i) => [u.id, `@F${i + 1}@`]));
+  const asChild = new Map<string, { union: UnionRecord; adopted: boolean }[]>();
+  const asPartner = new Map<string, UnionRecord[]>();
+  for (const u of unions) {
+    for (const pid of u.partners)
+      asPartner.set(pid, [...(asPartner.get(pid) ?? []), u]);
+    for (const cid of u.children)
+      asChild.set(cid, [
+        ...(asChild.get(cid) ?? []),
+        { union: u, adopted: false },
+      ]);
+    for (const cid of u.adoptedChildren)
+      asChild.set(cid, [
+        ...(asChild.get(cid) ?? []),
+        { union: u, adopted: true },
+      ]);
+  }
+
+  const lines: string[] = [
+    "0 HEAD",
+    "1 SOUR Raktavruksha",
+    "2 NAME Raktavruksha",
+    `1 DATE ${gedDate(new Date())}`,
+    "1 GEDC",
+    "2 VERS 5.5.1",
+    "2 FORM LINEAGE-LINKED",
+    "1 CHAR UTF-8",
+  ];
+
+  // An event with its date and place, or "Y" for one known to have happened with
+  // neither recorded.
+  const event = (
+    tag: string,
+    date: string | undefined,
+    happened: boolean,
+    placeId?: string,
+  ) => {
+    const value = date ? toGedcomDate(date) : null;
+    const place = placeId ? placeName(ds.raw.places?.[placeId]) : "";
+    if (!value && !place) {
+      if (happened) lines.push(`1 ${tag} Y`);
+      return;
+    }
+    lines.push(`1 ${tag}`);
+    if (value) lines.push(`2 DATE ${value}`);
+    if (place) lines.push(`2 PLAC ${place}`);
+  };
+
+  const indi = (p: PersonRecord) => {
+    lines.push(`0 ${indiRef.get(p.id)} INDI`);
+    lines.push(`1 NAME ${p.firstName} /${p.lastName}/`.trim());
+    if (p.firstName) lines.push(`2 GIVN ${p.firstName}`);
+    if (p.lastName) lines.push(`2 SURN ${p.lastName}`);
+    if (p.altName) lines.push(`1 NAME ${p.altName}`, "2 TYPE aka");
+    lines.push(`1 SEX ${p.gender === "female" ? "F" : "M"}`);
+    if (p.uid) lines.push(`1 _UID ${p.uid}`);
+    event("BIRT", p.birthDate, false, p.birthPlaceId);
+    event("DEAT", p.deathDate, !p.alive, p.deathPlaceId);
+    event("RESI", undefined, false, p.residencePlaceId);
+    event("_NATIVE", undefined, false, p.nativePlaceId);
+    if (p.notes) lines.push(...textLines(1, "NOTE", p.notes));
+    for (const { union, adopted } of asChild.get(p.id) ?? []) {
+      lines.push(
+        `1 FAMC ${famRef.get(union.id)}`,
+        `2 PEDI ${adopted ? "adopted" : "birth"}`,
+      );
+    }
+    const own = [...(asPartner.get(p.id) ?? [])].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0),
+    );
+    for (const u of own) lines.push(`1 FAMS ${famRef.get(u.id)}`);
+  };
+
+  const fam = (u: UnionRecord) => {
+    lines.push(`0 ${famRef.get(u.id)} FAM`);
+    for (const pid of u.partners) {
+      const tag = ds.people.get(pid)?.gender === "female" ? "WIFE" : "HUSB";
+      lines.push(`1 ${tag} ${indiRef.get(pid)}`);
+    }
+    event(
+      "MARR",
+      u.status === "married" || u.status === "divorced"
+        ? u.marriageDate
+        : undefined,
+      u.status === "married" || u.status === "divorced",
+      u.marriagePlaceId,
+    );
+    if (u.status === "divorced") lines.push("1 DIV Y");
+    lines.push(`1 _STATUS ${u.status}`);
+    if (u.uid) lines.push(`1 _UID ${u.uid}`);
+    for (const cid of [...u.children, ...(u.adoptedChildren ?? [])])
+      lines.push(`1 CHIL ${indiRef.get(cid)}`);
+    if (u.notes) lines.push(...textLines(1, "NOTE", u.notes));
+  };
+
+  people.forEach(indi);
+  unions.forEach(fam);
+  lines.push("0 TRLR");
+  return lines.join("\n") + "\n";
+};
+
+// A cell a spreadsheet would run as a formula ("=HYPERLINK(…)" as someone's
+// name, from a relative's file) is written as text with a leading quote.
+const csvCell = (cell: string): string => {
+  const v = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+/** The relationship table (kinship.ts `relationsFrom`) as CSV, rows in the
+ *  order given. Starts with a byte-order mark so spreadsheets read it as UTF-8. */
+export const serializeRelationTable = (
+  ds: Dataset,
+  rows: KinTableRow[],
+): string => {
+  const lines = [
+    ["Name", "Relation", "Local term", "By", "Steps", "Birth family", "Path"],
+    ...rows.map((r) => {
+      const p = ds.people.get(r.personId)!;
+      const fam = p.birthFamilyId ? ds.raw.families[p.birthFamilyId] : null;
+      return [
+        personName(p),
+        r.name ?? "",
+        r.local ?? "",
+        r.kind,
+        String(r.steps.length),
+        fam?.name ?? "",
+        r.chain.map((hop) => hop.label).join(" → "),
+      ];
+    }),
+  ];
+  return `\uFEFF${lines.map((cells) => cells.map(csvCell).join(",")).join("\r\n")}\r\n`;
+};
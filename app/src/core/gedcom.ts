@@ -0,0 +1,443 @@
+import type {
+  FamilyDataV2,
+  FamilyRecord,
+  PersonRecord,
+  UnionRecord,
+  UnionStatus,
+} from "./types";
+import { newFamilyId, newPersonId, newUnionId } from "./ids";
+import { randomFamilyColor } from "./colors";
+import { parseDate } from "./dates";
+import { ensurePlace } from "./mutate";
+
+/** One GEDCOM line with the lines nested under it. CONC/CONT are already folded
+ *  into `value`, so a multi-line note reads as one string. */
+export interface GedcomNode {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+}
+
+// "<level> [@xref@] <TAG> [value]". Both 5.5.1 and 7.0 share this line grammar.
+const LINE = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?: (.*))?$/;
+
+/** True when the text is a GEDCOM file rather than our own JSON. */
+export const looksLikeGedcom = (text: string): boolean =>
+  /^\uFEFF?\s*0\s+HEAD\b/.test(text);
+
+/** Lines → a tree of level-0 records. Malformed lines are reported, not fatal. */
+export const parseGedcomTree = (
+  text: string,
+): { records: GedcomNode[]; errors: string[] } => {
+  const records: GedcomNode[] = [];
+  const errors: string[] = [];
+  const stack: GedcomNode[] = [];
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const m = LINE.exec(line);
+    if (!m) {
+      errors.push(`line ${i + 1}: not a GEDCOM line`);
+      return;
+    }
+    const level = Number(m[1]);
+    const tag = m[3].toUpperCase();
+    // 7.0 escapes a leading "@" in text values as "@@".
+    const value = (m[4] ?? "").replace(/^@@/, "@");
+    while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (level > 0 && (!parent || parent.level !== level - 1)) {
+      errors.push(`line ${i + 1}: level ${level} has no enclosing record`);
+      return;
+    }
+    if (tag === "CONC" || tag === "CONT") {
+      if (parent) parent.value += (tag === "CONT" ? "\n" : "") + value;
+      return;
+    }
+    const node: GedcomNode = { level, tag, value, children: [] };
+    if (m[2]) node.xref = m[2];
+    if (parent) parent.children.push(node);
+    else records.push(node);
+    stack.push(node);
+  });
+  return { records, errors };
+};
+
+const sub = (node: GedcomNode, tag: string): GedcomNode | undefined =>
+  node.children.find((c) => c.tag === tag);
+const subs = (node: GedcomNode, tag: string): GedcomNode[] =>
+  node.children.filter((c) => c.tag === tag);
+const isPointer = (v: string) => /^@[^@\s]+@$/.test(v) && v !== "@VOID@";
+
+/** "Ramesh Kumar /Pandya/ Jr." → given and surname, GIVN/SURN winning when present. */
+const nameOf = (indi: GedcomNode): { given: string; surname: string } => {
+  const name = sub(indi, "NAME");
+  if (!name) return { given: "", surname: "" };
+  const m = /^([^/]*)(?:\/([^/]*)\/?)?(.*)$/.exec(name.value) ?? [];
+  const given = sub(name, "GIVN")?.value ?? `${m[1] ?? ""} ${m[3] ?? ""}`;
+  const surname = sub(name, "SURN")?.value ?? m[2] ?? "";
+  return {
+    given: given.replace(/\s+/g, " ").trim(),
+    surname: surname.replace(/\s+/g, " ").trim(),
+  };
+};
+
+const GED_MONTHS = "JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC".split(" ");
+
+/** "15 AUG 1947" → "1947-08-15"; "AUG 1947" → "1947-08". */
+const fromGedcomPoint = (text: string): string | null => {
+  const m = /^(?:(\d{1,2})\s+)?(?:([A-Z]{3})\s+)?(\d{1,4})$/.exec(text.trim());
+  if (!m) return null;
+  const month = m[2] ? GED_MONTHS.indexOf(m[2]) + 1 : 0;
+  if (m[2] && month === 0) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (!month) return m[1] ? null : m[3];
+  return m[1]
+    ? `${m[3]}-${pad(month)}-${pad(Number(m[1]))}`
+    : `${m[3]}-${pad(month)}`;
+};
+
+/**
+ * A GEDCOM date value in our own grammar (core/dates.ts), or null when it can't
+ * be expressed: ABT/CAL/EST become "c.", BEF/AFT "before"/"after", and BET…AND
+ * or FROM…TO a range. Calendar escapes other than Gregorian are not understood.
+ */
+export const fromGedcomDate = (value: string): string | null => {
+  const v = value
+    .toUpperCase()
+    .replace(/^@#DGREGORIAN@\s*/, "")
+    .trim();
+  let m = /^(?:ABT|CAL|EST)\s+(.+)$/.exec(v);
+  if (m) {
+    const p = fromGedcomPoint(m[1]);
+    return p && `c. ${p}`;
+  }
+  m = /^(?:BET|FROM)\s+(.+?)\s+(?:AND|TO)\s+(.+)$/.exec(v);
+  if (m) {
+    const a = fromGedcomPoint(m[1]);
+    const b = fromGedcomPoint(m[2]);
+    return a && b ? `${a}/${b}` : null;
+  }
+  m = /^(BEF|TO|AFT|FROM)\s+(.+)$/.exec(v);
+  if (m) {
+    const p = fromGedcomPoint(m[2]);
+    return p && `${m[1] === "BEF" || m[1] === "TO" ? "before" : "after"} ${p}`;
+  }
+  return fromGedcomPoint(v);
+};
+
+/** Our date text as a GEDCOM date value (the inverse of fromGedcomDate). */
+export const toGedcomDate = (text: string): string | null => {
+  const p = parseDate(text);
+  if (!p) return null;
+  const point = (t: string) => {
+    const [y, mo, d] = t.trim().split("-");
+    return [d ? String(Number(d)) : "", mo ? GED_MONTHS[Number(mo) - 1] : "", y]
+      .filter(Boolean)
+      .join(" ");
+  };
+  const body = text
+    .trim()
+    .replace(/^(?:c\.|ca\.|circa|~|before|after)\s*/i, "");
+  switch (p.kind) {
+    case "circa":
+      return `ABT ${point(body)}`;
+    case "before":
+      return `BEF ${point(body)}`;
+    case "after":
+      return `AFT ${point(body)}`;
+    case "range": {
+      const [a, b] = body.split("/");
+      return `BET ${point(a)} AND ${point(b)}`;
+    }
+    default:
+      return point(body);
+  }
+};
+
+// PEDI values (5.5.1 lowercase, 7.0 uppercase) that mean "raised by, not born to".
+const ADOPTIVE_PEDI = new Set(["ADOPTED", "FOSTER"]);
+const STATUSES = new Set(["married", "divorced", "partners", "unknown"]);
+
+/**
+ * GEDCOM 5.5.1 / 7.0 → FamilyDataV2, ready for parseFamilyData and mergeData.
+ *
+ * INDI records become people and FAM records unions: CHIL in order is birth
+ * order, a child whose FAMC carries `PEDI adopted` (or an ADOP event naming the
+ * family) goes to `adoptedChildren`, and a DIV event marks the union divorced.
+ * GEDCOM has no families in our sense, so one is synthesized per surname; a
+ * surname that names exactly one of `local`'s families reuses it. PLAC values
+ * (and RESI / `_NATIVE`) fill the place registry the same way. Ids are minted
+ * readable and clear of everything in `local`, so merging can never overwrite an
+ * existing person by accident.
+ */
+export const importGedcom = (
+  text: string,
+  local?: FamilyDataV2,
+): { raw: FamilyDataV2 | null; errors: string[]; warnings: string[] } => {
+  const { records, errors } = parseGedcomTree(text);
+  const warnings: string[] = [];
+  if (records[0]?.tag !== "HEAD")
+    errors.unshift("not a GEDCOM file (no HEAD record)");
+  const indis = records.filter((r) => r.tag === "INDI" && r.xref);
+  const fams = records.filter((r) => r.tag === "FAM" && r.xref);
+  if (indis.length === 0) errors.push("GEDCOM file has no INDI records");
+  if (errors.length) return { raw: null, errors, warnings };
+
+  const stamp = new Date().toISOString();
+  // A record's key: the file's own _UID (UID in 7.0) when it has one, else its
+  // xref within this file, so importing the same file again finds the same
+  // people and families instead of adding them twice.
+  const head = records[0];
+  const origin = sub(head, "FILE")?.value || sub(head, "SOUR")?.value || "";
+  const keyOf = (node: GedcomNode): string =>
+    sub(node, "_UID")?.value ||
+    sub(node, "UID")?.value ||
+    `gedcom:${origin}:${node.xref}`;
+  const notesByXref = new Map(
+    records
+      .filter((r) => r.tag === "NOTE" && r.xref)
+      .map((r) => [r.xref!, r.value]),
+  );
+  // An event's DATE in our grammar; one we can't express is noted and dropped.
+  const eventDate = (node: GedcomNode, tag: string): string | undefined => {
+    const event = sub(node, tag);
+    const value = event && sub(event, "DATE")?.value;
+    if (!value) return undefined;
+    const ours = fromGedcomDate(value);
+    if (!ours)
+      warnings.push(
+        `${node.xref} ${tag}: date "${value}" not understood, left out`,
+      );
+    return ours ?? undefined;
+  };
+  // Inline NOTE text, or the shared NOTE record a pointer names.
+  const notesOf = (node: GedcomNode): string =>
+    subs(node, "NOTE")
+      .map((n) =>
+        isPointer(n.value) ? (notesByXref.get(n.value) ?? "") : n.value,
+      )
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+  // Ids must be unique against the local file as well as each other, so mint them
+  // against a running copy that holds both.
+  const ns: FamilyDataV2 = local
+    ? {
+        ...local,
+        families: { ...local.families },
+        places: { ...local.places },
+        people: [...local.people],
+        unions: [...local.unions],
+      }
+    : {
+        meta: { schemaVersion: 2, exportedAt: stamp },
+        families: {},
+        people: [],
+        unions: [],
+      };
+
+  // --- families, one per surname --------------------------------------------
+  const families: Record<string, FamilyRecord> = {};
+  const familyBySurname = new Map<string, string>();
+  const familyFor = (surname: string): string | null => {
+    const key = surname.toLowerCase();
+    if (!key) return null;
+    const known = familyBySurname.get(key);
+    if (known) return known;
+    const sameName = Object.entries(local?.families ?? {}).filter(
+      ([, f]) => f.name.trim().toLowerCase() === key,
+    );
+    let id: string;
+    if (sameName.length === 1) {
+      id = sameName[0][0];
+      families[id] = sameName[0][1];
+    } else {
+      id = newFamilyId(ns, surname);
+      const color = randomFamilyColor(
+        Object.values(ns.families).map((f) => f.color),
+      );
+      families[id] = { name: surname, color };
+      ns.families[id] = families[id];
+    }
+    familyBySurname.set(key, id);
+    return id;
+  };
+
+  // --- places, by PLAC text ------------------------------------------------------
+  // "Surat, Gujarat, India" is the place Surat in region "Gujarat, India"; one the
+  // local file already has is reused.
+  const places: FamilyDataV2["places"] = {};
+  const placeOf = (node: GedcomNode, tag: string): string | undefined => {
+    const event = sub(node, tag);
+    const text = event && sub(event, "PLAC")?.value;
+    if (!text) return undefined;
+    const r = ensurePlace(ns, text);
+    ns.places = r.raw.places;
+    if (r.placeId) places[r.placeId] = ns.places![r.placeId];
+    return r.placeId;
+  };
+  const placeFields = (indi: GedcomNode): Partial<PersonRecord> => {
+    const out: Partial<PersonRecord> = {};
+    const pairs = [
+      ["birthPlaceId", "BIRT"],
+      ["deathPlaceId", "DEAT"],
+      ["residencePlaceId", "RESI"],
+      ["nativePlaceId", "_NATIVE"],
+    ] as const;
+    for (const [key, tag] of pairs) {
+      const id = placeOf(indi, tag);
+      if (id) out[key] = id;
+    }
+    return out;
+  };
+
+  // --- people ------------------------------------------------------------------
+  const people: PersonRecord[] = [];
+  const idOf = new Map<string, string>();
+  for (const indi of indis) {
+    const { given, surname } = nameOf(indi);
+    const firstName = given || (surname ? "" : "Unknown");
+    const id = newPersonId(ns, firstName || surname);
+    const noteText = notesOf(indi);
+    const birthDate = eventDate(indi, "BIRT");
+    const deathDate = eventDate(indi, "DEAT");
+    const person: PersonRecord = {
+      id,
+      uid: keyOf(indi),
+      firstName,
+      lastName: surname,
+      gender: sub(indi, "SEX")?.value.toUpperCase() === "F" ? "female" : "male",
+      alive: !sub(indi, "DEAT") && !sub(indi, "BURI") && !sub(indi, "CREM"),
+      birthFamilyId: familyFor(surname),
+      ...(noteText ? { notes: noteText } : {}),
+      ...(birthDate ? { birthDate } : {}),
+      ...(deathDate ? { deathDate } : {}),
+      ...placeFields(indi),
+      updatedAt: stamp,
+    };
+    people.push(person);
+    ns.people.push(person);
+    idOf.set(indi.xref!, id);
+  }
+
+  // How each person sits in each family as a child: "adoptive" only when the
+  // INDI's own FAMC link (or an ADOP event) says so.
+  const adoptiveIn = new Set<string>();
+  for (const indi of indis) {
+    for (const famc of subs(indi, "FAMC")) {
+      const pedi = sub(famc, "PEDI")?.value.toUpperCase() ?? "";
+      if (ADOPTIVE_PEDI.has(pedi)) adoptiveIn.add(`${indi.xref}|${famc.value}`);
+    }
+    for (const adop of subs(indi, "ADOP")) {
+      const famc = sub(adop, "FAMC");
+      if (famc && isPointer(famc.value))
+        adoptiveIn.add(`${indi.xref}|${famc.value}`);
+    }
+  }
+
+  // --- unions ------------------------------------------------------------------
+  const unions: UnionRecord[] = [];
+  const bioUnionOf = new Map<string, string>();
+  const adoptUnionOf = new Map<string, string>();
+  const personOf = (xref: string) =>
+    people.find((p) => p.id === idOf.get(xref));
+  for (const fam of fams) {
+    const partnerXrefs = [...subs(fam, "HUSB"), ...subs(fam, "WIFE")]
+      .map((n) => n.value)
+      .filter(isPointer);
+    const partners = partnerXrefs
+      .map((x) => idOf.get(x))
+      .filter((id): id is string => !!id)
+      .filter((id, i, arr) => arr.indexOf(id) === i);
+    if (partners.length === 0) {
+      warnings.push(
+        `FAM ${fam.xref}: no known partners, its children are left without parents`,
+      );
+      continue;
+    }
+    const unionId = newUnionId(ns, partners);
+    const children: string[] = [];
+    const adoptedChildren: string[] = [];
+    for (const chil of subs(fam, "CHIL")) {
+      const cid = idOf.get(chil.value);
+      if (!cid) {
+        warnings.push(`FAM ${fam.xref}: unknown child ${chil.value}`);
+        continue;
+      }
+      if (partners.includes(cid)) continue;
+      const adoptive = adoptiveIn.has(`${chil.value}|${fam.xref}`);
+      const held = (adoptive ? adoptUnionOf : bioUnionOf).get(cid);
+      if (held) {
+        warnings.push(
+          `FAM ${fam.xref}: "${cid}" is already ${adoptive ? "an adopted" : "a biological"} child of "${held}", skipped`,
+        );
+        continue;
+      }
+      (adoptive ? adoptUnionOf : bioUnionOf).set(cid, unionId);
+      (adoptive ? adoptedChildren : children).push(cid);
+    }
+    // Our own export states the exact status in a _STATUS extension tag; other
+    // software only tells us about a divorce.
+    const stated = sub(fam, "_STATUS")?.value.toLowerCase() ?? "";
+    const status: UnionStatus = STATUSES.has(stated)
+      ? (stated as UnionStatus)
+      : sub(fam, "DIV")
+        ? "divorced"
+        : partners.length === 2
+          ? "married"
+          : "unknown";
+    const unionNotes = notesOf(fam);
+    const marriageDate = eventDate(fam, "MARR");
+    const marriagePlaceId = placeOf(fam, "MARR");
+    // Children take the father's family, else the mother's.
+    const husband = subs(fam, "HUSB").map((n) => personOf(n.value))[0];
+    const wife = subs(fam, "WIFE").map((n) => personOf(n.value))[0];
+    // A person's FAMS links are listed in marriage order.
+    const firstXref = partnerXrefs.find((x) => idOf.has(x))!;
+    const famsOrder = subs(
+      indis.find((i) => i.xref === firstXref)!,
+      "FAMS",
+    )
+      .map((n) => n.value)
+      .indexOf(fam.xref!);
+    const union: UnionRecord = {
+      id: unionId,
+      uid: keyOf(fam),
+      partners,
+      children,
+      adoptedChildren,
+      familyId: husband?.birthFamilyId ?? wife?.birthFamilyId ?? null,
+      status,
+      order: famsOrder >= 0 ? famsOrder + 1 : 1,
+      ...(unionNotes ? { notes: unionNotes } : {}),
+      ...(marriageDate ? { marriageDate } : {}),
+      ...(marriagePlaceId ? { marriagePlaceId } : {}),
+      updatedAt: stamp,
+    };
+    unions.push(union);
+    ns.unions.push(union);
+  }
+
+  // Someone recorded without a surname was still born into their parents' family.
+  const unionById = new Map(unions.map((u) => [u.id, u]));
+  for (const p of people) {
+    if (p.birthFamilyId) continue;
+    const uid = bioUnionOf.get(p.id);
+    p.birthFamilyId = (uid && unionById.get(uid)?.familyId) || null;
+  }
+
+  return {
+    raw: {
+      meta: { schemaVersion: 2, exportedAt: stamp },
+      families,
+      ...(Object.keys(places).length ? { places } : {}),
+      people,
+      unions,
+    },
+    errors: [],
+    warnings,
+  };
+};
@@ -0,0 +1,94 @@
+import type { FamilyDataV2 } from "./types";
+
+/**
+ * Undo/redo over whole-file snapshots. Every mutation in mutate.ts returns a new
+ * FamilyDataV2 that shares every record it didn't touch, so a snapshot costs
+ * little more than the arrays it rebuilt, and restoring one is exact.
+ */
+export interface HistoryEntry {
+  /** What the edit did, for the history panel: "Added child Ramesh to u_ajay_harsha". */
+  label: string;
+  before: FamilyDataV2;
+  after: FamilyDataV2;
+  at: string;
+}
+
+export interface History {
+  /** Applied edits, oldest first; the last one is what Undo reverts. */
+  past: HistoryEntry[];
+  /** Undone edits, most recently undone last; what Redo re-applies. */
+  future: HistoryEntry[];
+}
+
+/** How many edits Undo can reach back; older ones fall off the bottom. */
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory: History = { past: [], future: [] };
+
+/** Record an edit. A new edit forks the timeline, so anything undone is dropped. */
+export const recordEdit = (
+  history: History,
+  label: string,
+  before: FamilyDataV2,
+  after: FamilyDataV2,
+  limit = HISTORY_LIMIT,
+): History => ({
+  past: [
+    ...history.past,
+    { label, before, after, at: new Date().toISOString() },
+  ].slice(-limit),
+  future: [],
+});
+
+/** Step back one edit: the data to restore and the history after it, or null. */
+export const undoEdit = (
+  history: History,
+): { raw: FamilyDataV2; entry: HistoryEntry; history: History } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    raw: entry.before,
+    entry,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, entry],
+    },
+  };
+};
+
+export const redoEdit = (
+  history: History,
+): { raw: FamilyDataV2; entry: HistoryEntry; history: History } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    raw: entry.after,
+    entry,
+    history: {
+      past: [...history.past, entry],
+      future: history.future.slice(0, -1),
+    },
+  };
+};
+
+/**
+ * Jump so that exactly `applied` edits are in effect (0 = before the first one
+ * still remembered, past.length + future.length = after the last). The history
+ * panel uses this to go straight to any row.
+ */
+export const travelTo = (
+  history: History,
+  applied: number,
+): { raw: FamilyDataV2; history: History } | null => {
+  const timeline = [...history.past, ...[...history.future].reverse()];
+  if (timeline.length === 0 || applied < 0 || applied > timeline.length)
+    return null;
+  const raw = applied === 0 ? timeline[0].before : timeline[applied - 1].after;
+  return {
+    raw,
+    history: {
+      past: timeline.slice(0, applied),
+      future: timeline.slice(applied).reverse(),
+    },
+  };
+};
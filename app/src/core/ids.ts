@@ -2,12 +2,17 @@ import { customAlphabet } from 'nanoid';
 import type { FamilyDataV2 } from './types';
 
 const nano = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 8);
+const nanoUid = customAlphabet('0123456789abcdefghijklmnopqrstuvwxyz', 16);
 
 const takenIds = (raw: FamilyDataV2): Set<string> => {
   const s = new Set<string>();
   raw.people.forEach(p => s.add(p.id));
   raw.unions.forEach(u => s.add(u.id));
   Object.keys(raw.families).forEach(f => s.add(f));
+  Object.keys(raw.places ?? {}).forEach(p => s.add(p));
+  Object.keys(raw.sources ?? {}).forEach(src => s.add(src));
+  // A deleted id stays taken: reusing it would let a merge bury the newcomer.
+  (raw.tombstones ?? []).forEach(t => s.add(t.id));
   return s;
 };
 
@@ -32,6 +37,22 @@ export const newPersonId = (raw: FamilyDataV2, firstName: string): string => {
   return `${base}_${n}`;
 };
 
+/** A record's globally unique key (PersonRecord.uid): random, so two files
+ *  that never met can't mint the same one. */
+export const newUid = (): string => nanoUid();
+
+/** The data with a key on every person and union, for files written before
+ *  there were keys: once this copy is shared, a relative's correction to a
+ *  name can't make the record look like someone new. The same object when
+ *  nothing lacked one. */
+export const withUids = (raw: FamilyDataV2): FamilyDataV2 => {
+  const keyed = <T extends { uid?: string }>(rows: T[]): T[] =>
+    rows.some(r => !r.uid) ? rows.map(r => (r.uid ? r : { ...r, uid: newUid() })) : rows;
+  const people = keyed(raw.people);
+  const unions = keyed(raw.unions);
+  return people === raw.people && unions === raw.unions ? raw : { ...raw, people, unions };
+};
+
 /** Readable union id from its partners: "u_ramesh_sita", disambiguated on clash. */
 export const newUnionId = (raw: FamilyDataV2, partnerIds: string[] = []): string => {
   const taken = takenIds(raw);
@@ -57,3 +78,15 @@ export const newFamilyId = (raw: FamilyDataV2, name: string): string => {
   while (taken.has(`${base}_${n}`)) n++;
   return `${base}_${n}`;
 };
+
+/** Readable place id from its name: "placeVadnagar", disambiguated on clash. */
+export const newPlaceId = (raw: FamilyDataV2, name: string): string => {
+  const taken = takenIds(raw);
+  const cleaned = name.replace(/[^a-zA-Z0-9]/g, '');
+  if (!cleaned) return fresh('pl', taken);
+  const base = `place${cleaned}`;
+  if (!taken.has(base)) return base;
+  let n = 1;
+  while (taken.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+};
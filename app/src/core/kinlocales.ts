@@ -0,0 +1,470 @@
+/**
+ * Kinship-term locale packs. English names every relation with the same few
+ * words; the languages spoken in the family don't. Sanskrit and Gujarati split
+ * paternal from maternal (dada vs nana), Hindi and Bengali an elder uncle from
+ * a younger one (tau vs chacha, jethu vs kaka), and Tamil a parallel cousin
+ * (a sibling, in effect) from a cross cousin (a possible spouse).
+ *
+ * A pack is a table from path signatures to terms, which kinship.ts looks up
+ * for each relation. A signature is `dirs:genders`, optionally `+qualifier`:
+ *
+ * - `dirs`: one letter per hop, u(p) to a parent, d(own) to a child, s(ide) to
+ *   a partner, as in "uud" for a parent's sibling.
+ * - `genders`: one letter per person on the path, A first, then everyone each
+ *   hop reaches, ending with B. `m` or `f`; `*` in a key matches either.
+ *   "uud:*m*f" is a father's sister.
+ * - `+elder` / `+younger`: where the path turns through two full siblings
+ *   (up to a parent, down to another child), whether the second was born first.
+ *   "ud:**m+elder" is an elder brother, "uud:*m*m+elder" a father's elder brother.
+ * - `+partners`: a side hop between partners who never married.
+ *
+ * Ancestor and descendant chains of any length are looked up as two hops, "uu"
+ * or "dd" (keeping the first parent or child, which decides the side), with the
+ * pack's `great` prefix once for each generation beyond the second. Pure
+ * descendant chains past grandchildren try a `+deep` key first, for languages
+ * that drop the son's-line/daughter's-line split there. A pack without `great`
+ * has no term for chains longer than two.
+ *
+ * The first key that matches wins, so list the qualified keys before the
+ * general ones. A pack may leave any relation out; the panel then shows the
+ * other chosen locales, or the English name.
+ */
+export interface KinLocale {
+  id: string;
+  /** Name of the language, in English, for the locale picker. */
+  label: string;
+  great?: string;
+  terms: Record<string, string>;
+}
+
+const registry = new Map<string, KinLocale>();
+
+/** Add (or replace) a locale pack. */
+export const registerKinLocale = (pack: KinLocale): void => {
+  registry.set(pack.id, pack);
+};
+
+export const kinLocale = (id: string): KinLocale | undefined => registry.get(id);
+
+/** Every registered pack, in registration order. */
+export const kinLocales = (): KinLocale[] => [...registry.values()];
+
+/** What the relation finder shows until someone picks otherwise: the Sanskrit
+ *  term with its Gujarati equivalent in brackets. */
+export const DEFAULT_KIN_LOCALES = ['sa', 'gu'];
+
+registerKinLocale({
+  id: 'sa',
+  label: 'Sanskrit',
+  great: 'pra-',
+  terms: {
+    'u:*m': 'pita',
+    'u:*f': 'mata',
+    'd:*m': 'putra',
+    'd:*f': 'putri',
+    'ud:**m+elder': 'agraj',
+    'ud:**f+elder': 'agraja',
+    'ud:**m+younger': 'anuj',
+    'ud:**f+younger': 'anuja',
+    'ud:**m': 'bhrata',
+    'ud:**f': 'bhagini',
+    's:**+partners': 'sathi',
+    's:*m': 'pati',
+    's:*f': 'patni',
+    'uu:*mm': 'pitamaha',
+    'uu:*mf': 'pitamahi',
+    'uu:*fm': 'matamaha',
+    'uu:*ff': 'matamahi',
+    'dd:**m+deep': 'pautra',
+    'dd:**f+deep': 'pautri',
+    'dd:*mm': 'pautra',
+    'dd:*mf': 'pautri',
+    'dd:*fm': 'dauhitra',
+    'dd:*ff': 'dauhitri',
+    'uud:*m*m': 'pitrivya',
+    'uud:*m*f': 'pitrusvasa',
+    'uud:*f*m': 'matula',
+    'uud:*f*f': 'matrusvasa',
+    'udd:**mm': 'bhratrija',
+    'udd:**mf': 'bhratriji',
+    'udd:**fm': 'bhagineya',
+    'udd:**ff': 'bhagineyi',
+    'uudd:*m**m': 'pitrivya-putra',
+    'uudd:*m**f': 'pitrivya-putri',
+    'uudd:*f**m': 'matula-putra',
+    'uudd:*f**f': 'matula-putri',
+    'su:**m': 'shvashura',
+    'su:**f': 'shvashru',
+    'ds:**m': 'jamata',
+    'ds:**f': 'snusha',
+    'uds:**mf': 'bhratrijaya',
+    'uds:**fm': 'bhaginipati',
+    'sud:mf*m': 'shyala',
+    'sud:mf*f': 'shyali',
+    'sud:fm*m+elder': 'jyeshtha',
+    'sud:fm*m': 'devara',
+    'sud:fm*f': 'nanandri',
+    'uuds:*m*mf': 'pitrivya-patni',
+    'uuds:*f*mf': 'matulani',
+    'suds:fm*mf': 'yata',
+    'sudd:fm*mm': 'bhratrija',
+    'sudd:fm*mf': 'bhratriji',
+    'sudd:fm*fm': 'bhagineya',
+    'sudd:fm*ff': 'bhagineyi',
+    'dsu:***m': 'sambandhi',
+    'dsu:***f': 'sambandhini',
+    // A sibling's parents-in-law are the family's in-laws too, by the same word.
+    'udsu:****m': 'sambandhi',
+    'udsu:****f': 'sambandhini',
+  },
+});
+
+registerKinLocale({
+  id: 'gu',
+  label: 'Gujarati',
+  great: 'par-',
+  terms: {
+    'u:*m': 'bapa',
+    'u:*f': 'ma',
+    'd:*m': 'dikro',
+    'd:*f': 'dikri',
+    'ud:**m+elder': 'moto bhai',
+    'ud:**f+elder': 'moti ben',
+    'ud:**m+younger': 'nano bhai',
+    'ud:**f+younger': 'nani ben',
+    'ud:**m': 'bhai',
+    'ud:**f': 'ben',
+    's:**+partners': 'sathi',
+    's:*m': 'dhani',
+    's:*f': 'bairi',
+    'uu:*mm': 'dada',
+    'uu:*mf': 'dadi',
+    'uu:*fm': 'nana',
+    'uu:*ff': 'nani',
+    'dd:**m+deep': 'pautra',
+    'dd:**f+deep': 'pautri',
+    'dd:*mm': 'pautra',
+    'dd:*mf': 'pautri',
+    'dd:*fm': 'dohitro',
+    'dd:*ff': 'dohitri',
+    'uud:*m*m': 'kaka',
+    'uud:*m*f': 'foi',
+    'uud:*f*m': 'mama',
+    'uud:*f*f': 'masi',
+    'udd:**mm': 'bhatrijo',
+    'udd:**mf': 'bhatriji',
+    'udd:**fm': 'bhanej',
+    'udd:**ff': 'bhaneji',
+    'uudd:*m**m': 'pitarai bhai',
+    'uudd:*m**f': 'pitarai ben',
+    'uudd:*f**m': 'mameri bhai',
+    'uudd:*f**f': 'mameri ben',
+    'su:**m': 'sasro',
+    'su:**f': 'sasu',
+    'ds:**m': 'jamai',
+    'ds:**f': 'vahu',
+    'uds:**mf': 'bhabhi',
+    'uds:**fm': 'banevi',
+    'sud:mf*m': 'salo',
+    'sud:mf*f': 'sali',
+    'sud:fm*m+elder': 'jeth',
+    'sud:fm*m': 'diyar',
+    'sud:fm*f': 'nanand',
+    'uuds:*m*mf': 'kaki',
+    'uuds:*m*fm': 'fuva',
+    'uuds:*f*mf': 'mami',
+    'uuds:*f*fm': 'masa',
+    // A husband's elder brother's wife is jethani, a younger one's derani.
+    'suds:fm*mf+elder': 'jethani',
+    'suds:fm*mf+younger': 'derani',
+    'suds:fm*fm': 'nanadoi',
+    'suds:mf*fm': 'sadhu',
+    'suds:mf*mf': 'salaj',
+    'sudd:fm*mm': 'bhatrijo',
+    'sudd:fm*mf': 'bhatriji',
+    'sudd:fm*fm': 'bhanej',
+    'sudd:fm*ff': 'bhaneji',
+    'dsu:***m': 'vevai',
+    'dsu:***f': 'velan',
+    'udsu:****m': 'vevai',
+    'udsu:****f': 'velan',
+  },
+});
+
+registerKinLocale({
+  id: 'hi',
+  label: 'Hindi',
+  great: 'par',
+  terms: {
+    'u:*m': 'pita',
+    'u:*f': 'mata',
+    'd:*m': 'beta',
+    'd:*f': 'beti',
+    'ud:**m+elder': 'bada bhai',
+    'ud:**f+elder': 'badi behen',
+    'ud:**m+younger': 'chhota bhai',
+    'ud:**f+younger': 'chhoti behen',
+    'ud:**m': 'bhai',
+    'ud:**f': 'behen',
+    's:**+partners': 'saathi',
+    's:*m': 'pati',
+    's:*f': 'patni',
+    'uu:*mm': 'dada',
+    'uu:*mf': 'dadi',
+    'uu:*fm': 'nana',
+    'uu:*ff': 'nani',
+    'dd:**m+deep': 'pota',
+    'dd:**f+deep': 'poti',
+    'dd:*mm': 'pota',
+    'dd:*mf': 'poti',
+    'dd:*fm': 'nati',
+    'dd:*ff': 'natin',
+    // A father's elder brother is tau, a younger one chacha.
+    'uud:*m*m+elder': 'tau',
+    'uud:*m*m': 'chacha',
+    'uud:*m*f': 'bua',
+    'uud:*f*m': 'mama',
+    'uud:*f*f': 'mausi',
+    'udd:**mm': 'bhatija',
+    'udd:**mf': 'bhatiji',
+    'udd:**fm': 'bhanja',
+    'udd:**ff': 'bhanji',
+    'uudd:*m*mm': 'chachera bhai',
+    'uudd:*m*mf': 'chacheri behen',
+    'uudd:*m*fm': 'phuphera bhai',
+    'uudd:*m*ff': 'phupheri behen',
+    'uudd:*f*mm': 'mamera bhai',
+    'uudd:*f*mf': 'mameri behen',
+    'uudd:*f*fm': 'mausera bhai',
+    'uudd:*f*ff': 'mauseri behen',
+    'su:**m': 'sasur',
+    'su:**f': 'saas',
+    'ds:**m': 'damad',
+    'ds:**f': 'bahu',
+    'uds:**mf': 'bhabhi',
+    'uds:**fm': 'jija',
+    'sud:*m*m+elder': 'jeth',
+    'sud:*m*m': 'devar',
+    'sud:*m*f': 'nanad',
+    'sud:*f*m': 'saala',
+    'sud:*f*f': 'saali',
+    'uuds:*m*mf+elder': 'tai',
+    'uuds:*m*mf': 'chachi',
+    'uuds:*m*fm': 'phupha',
+    'uuds:*f*mf': 'mami',
+    'uuds:*f*fm': 'mausa',
+    'suds:fm*mf+elder': 'jethani',
+    'suds:fm*mf+younger': 'devrani',
+    'suds:fm*fm': 'nandoi',
+    'suds:mf*fm': 'saadu',
+    'suds:mf*mf': 'salhaj',
+    'sudd:fm*mm': 'bhatija',
+    'sudd:fm*mf': 'bhatiji',
+    'sudd:fm*fm': 'bhanja',
+    'sudd:fm*ff': 'bhanji',
+    'dsu:***m': 'samdhi',
+    'dsu:***f': 'samdhan',
+    'udsu:****m': 'samdhi',
+    'udsu:****f': 'samdhan',
+    'us:**m': 'sautele pita',
+    'us:**f': 'sauteli maa',
+    'sd:**m': 'sautela beta',
+    'sd:**f': 'sauteli beti',
+  },
+});
+
+registerKinLocale({
+  id: 'mr',
+  label: 'Marathi',
+  terms: {
+    'u:*m': 'baba',
+    'u:*f': 'aai',
+    'd:*m': 'mulga',
+    'd:*f': 'mulgi',
+    'ud:**m+elder': 'dada',
+    'ud:**f+elder': 'tai',
+    'ud:**m': 'bhau',
+    'ud:**f': 'bahin',
+    's:*m': 'navra',
+    's:*f': 'bayko',
+    'uu:**m': 'ajoba',
+    'uu:**f': 'aaji',
+    'dd:**m': 'natu',
+    'dd:**f': 'nat',
+    'uud:*m*m': 'kaka',
+    'uud:*m*f': 'atya',
+    'uud:*f*m': 'mama',
+    'uud:*f*f': 'mavshi',
+    'udd:**mm': 'putanya',
+    'udd:**mf': 'putani',
+    'udd:**fm': 'bhacha',
+    'udd:**ff': 'bhachi',
+    'uudd:*m*mm': 'chulat bhau',
+    'uudd:*m*mf': 'chulat bahin',
+    'uudd:*m*fm': 'atebhau',
+    'uudd:*m*ff': 'atebahin',
+    'uudd:*f*mm': 'mamebhau',
+    'uudd:*f*mf': 'mamebahin',
+    'uudd:*f*fm': 'mavasbhau',
+    'uudd:*f*ff': 'mavasbahin',
+    'su:**m': 'sasre',
+    'su:**f': 'sasu',
+    'ds:**m': 'jawai',
+    'ds:**f': 'sun',
+    'uds:**mf': 'vahini',
+    'uds:**fm': 'mehuna',
+    'sud:*m*m': 'dir',
+    'sud:*m*f': 'nanand',
+    'sud:*f*m': 'mehuna',
+    'sud:*f*f': 'mehuni',
+    'dsu:***m': 'vyahi',
+    'dsu:***f': 'vihin',
+    'udsu:****m': 'vyahi',
+    'udsu:****f': 'vihin',
+  },
+});
+
+registerKinLocale({
+  id: 'ta',
+  label: 'Tamil',
+  great: 'kollu-',
+  terms: {
+    'u:*m': 'appa',
+    'u:*f': 'amma',
+    'd:*m': 'magan',
+    'd:*f': 'magal',
+    'ud:**m+elder': 'annan',
+    'ud:**f+elder': 'akka',
+    'ud:**m+younger': 'thambi',
+    'ud:**f+younger': 'thangai',
+    'ud:**m': 'sagodharan',
+    'ud:**f': 'sagodhari',
+    's:*m': 'kanavan',
+    's:*f': 'manaivi',
+    'uu:**m': 'thatha',
+    'uu:**f': 'paati',
+    'dd:**m+deep': 'peran',
+    'dd:**f+deep': 'pethi',
+    'dd:**m': 'peran',
+    'dd:**f': 'pethi',
+    // Parallel kin (through a same-sex sibling) count as parents and siblings;
+    // cross kin (through an opposite-sex sibling) are in-laws-to-be.
+    'uud:*m*m+elder': 'periyappa',
+    'uud:*m*m': 'chithappa',
+    'uud:*m*f': 'athai',
+    'uud:*f*m': 'maama',
+    'uud:*f*f+elder': 'periyamma',
+    'uud:*f*f': 'chithi',
+    'udd:m*mm': 'magan',
+    'udd:m*mf': 'magal',
+    'udd:f*fm': 'magan',
+    'udd:f*ff': 'magal',
+    'udd:m*fm': 'marumagan',
+    'udd:m*ff': 'marumagal',
+    'udd:f*mm': 'marumagan',
+    'udd:f*mf': 'marumagal',
+    'uudd:*m*mm': 'sagodharan',
+    'uudd:*m*mf': 'sagodhari',
+    'uudd:*f*fm': 'sagodharan',
+    'uudd:*f*ff': 'sagodhari',
+    'uudd:*m*fm': 'athai magan',
+    'uudd:*m*ff': 'athai magal',
+    'uudd:*f*mm': 'maama magan',
+    'uudd:*f*mf': 'maama magal',
+    'su:**m': 'maamanaar',
+    'su:**f': 'maamiyaar',
+    'ds:**m': 'marumagan',
+    'ds:**f': 'marumagal',
+    'uds:**mf': 'anni',
+    'uds:**fm': 'machaan',
+    'sud:mf*m': 'machaan',
+    'sud:mf*f': 'machini',
+    'sud:fm*m': 'kozhundhan',
+    'sud:fm*f': 'naathanaar',
+    'dsu:***m': 'sambandhi',
+    'dsu:***f': 'sambandhiyamma',
+    'udsu:****m': 'sambandhi',
+    'udsu:****f': 'sambandhiyamma',
+  },
+});
+
+registerKinLocale({
+  id: 'bn',
+  label: 'Bengali',
+  terms: {
+    'u:*m': 'baba',
+    'u:*f': 'ma',
+    'd:*m': 'chhele',
+    'd:*f': 'meye',
+    'ud:**m+elder': 'dada',
+    'ud:**f+elder': 'didi',
+    'ud:**m+younger': 'chhoto bhai',
+    'ud:**f+younger': 'chhoto bon',
+    'ud:**m': 'bhai',
+    'ud:**f': 'bon',
+    's:*m': 'swami',
+    's:*f': 'stri',
+    'uu:*mm': 'thakurda',
+    'uu:*mf': 'thakuma',
+    'uu:*fm': 'dadamoshai',
+    'uu:*ff': 'didima',
+    'dd:**m': 'nati',
+    'dd:**f': 'natni',
+    'uud:*m*m+elder': 'jethu',
+    'uud:*m*m': 'kaka',
+    'uud:*m*f': 'pishi',
+    'uud:*f*m': 'mama',
+    'uud:*f*f': 'mashi',
+    'udd:**mm': 'bhaipo',
+    'udd:**mf': 'bhaijhi',
+    'udd:**fm': 'bhagne',
+    'udd:**ff': 'bhagni',
+    'uudd:*m*mm': 'khurtuto bhai',
+    'uudd:*m*mf': 'khurtuto bon',
+    'uudd:*m*fm': 'pishtuto bhai',
+    'uudd:*m*ff': 'pishtuto bon',
+    'uudd:*f*mm': 'mamato bhai',
+    'uudd:*f*mf': 'mamato bon',
+    'uudd:*f*fm': 'mashtuto bhai',
+    'uudd:*f*ff': 'mashtuto bon',
+    'su:**m': 'shoshur',
+    'su:**f': 'shashuri',
+    'ds:**m': 'jamai',
+    'ds:**f': 'bouma',
+    'uds:**mf': 'boudi',
+    'uds:**fm': 'jamaibabu',
+    'sud:*m*m+elder': 'bhashur',
+    'sud:*m*m': 'debor',
+    'sud:*m*f': 'nanod',
+    'sud:*f*m': 'shala',
+    'sud:*f*f': 'shali',
+    'dsu:***m': 'beai',
+    'dsu:***f': 'beyan',
+    'udsu:****m': 'beai',
+    'udsu:****f': 'beyan',
+  },
+});
+
+/** Does a pack key's gender pattern fit the path's genders? */
+const fits = (pattern: string, genders: string): boolean =>
+  pattern.length === genders.length && [...pattern].every((c, i) => c === '*' || c === genders[i]);
+
+/**
+ * The pack's term for a signature, trying each qualifier in turn before the
+ * bare signature. `dirs` and `genders` are as described at the top of the file.
+ */
+export const lookupKinTerm = (
+  pack: KinLocale,
+  dirs: string,
+  genders: string,
+  qualifiers: string[],
+): string | null => {
+  for (const q of [...qualifiers.map(x => `+${x}`), '']) {
+    for (const [key, term] of Object.entries(pack.terms)) {
+      const [sig, qual = ''] = key.split('+');
+      const [d, pattern] = sig.split(':');
+      if (d === dirs && (qual ? `+${qual}` : '') === q && fits(pattern, genders)) return term;
+    }
+  }
+  return null;
+};
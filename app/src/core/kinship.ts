@@ -1,5 +1,6 @@
 import type { Dataset, KinStep } from './types';
 import { personName } from './types';
+import { DEFAULT_KIN_LOCALES, kinLocale, lookupKinTerm } from './kinlocales';
 
 interface Neighbor {
   to: string;
@@ -16,10 +17,9 @@ const neighborsOf = (ds: Dataset, id: string): Neighbor[] => {
   return out;
 };
 
-/** BFS shortest kinship path from a to b (all edges weight 1, deterministic ties). */
-export const shortestKinPath = (ds: Dataset, a: string, b: string): KinStep[] | null => {
-  if (a === b) return [];
-  if (!ds.people.has(a) || !ds.people.has(b)) return null;
+// Breadth-first from a, recording the step that first reached each person; with
+// `stop`, it ends as soon as that person is reached.
+const kinTree = (ds: Dataset, a: string, stop?: string): Map<string, KinStep> => {
   const prev = new Map<string, KinStep>();
   const queue: string[] = [a];
   const seen = new Set([a]);
@@ -30,20 +30,33 @@ export const shortestKinPath = (ds: Dataset, a: string, b: string): KinStep[] |
       if (seen.has(n.to)) continue;
       seen.add(n.to);
       prev.set(n.to, { from: cur, to: n.to, dir: n.dir, tag: n.tag, status: n.status });
-      if (n.to === b) {
-        const steps: KinStep[] = [];
-        let at = b;
-        while (at !== a) {
-          const step = prev.get(at)!;
-          steps.unshift(step);
-          at = step.from;
-        }
-        return steps;
-      }
+      if (n.to === stop) return prev;
       queue.push(n.to);
     }
   }
-  return null;
+  return prev;
+};
+
+const pathTo = (prev: Map<string, KinStep>, a: string, b: string): KinStep[] => {
+  const steps: KinStep[] = [];
+  for (let at = b; at !== a; at = steps[0].from) steps.unshift(prev.get(at)!);
+  return steps;
+};
+
+/** BFS shortest kinship path from a to b (all edges weight 1, deterministic ties). */
+export const shortestKinPath = (ds: Dataset, a: string, b: string): KinStep[] | null => {
+  if (a === b) return [];
+  if (!ds.people.has(a) || !ds.people.has(b)) return null;
+  const prev = kinTree(ds, a, b);
+  return prev.has(b) ? pathTo(prev, a, b) : null;
+};
+
+/** The shortest path from a to everyone reachable, from a single BFS: each is
+ *  the path shortestKinPath would find. */
+export const kinPathsFrom = (ds: Dataset, a: string): Map<string, KinStep[]> => {
+  if (!ds.people.has(a)) return new Map();
+  const prev = kinTree(ds, a);
+  return new Map([...prev.keys()].map(b => [b, pathTo(prev, a, b)]));
 };
 
 const genderWord = (
@@ -69,116 +82,231 @@ const siblingKind = (ds: Dataset, a: string, b: string, steps: KinStep[]): strin
   return 'half-';
 };
 
-// --- Sanskrit (Gujarati) kinship terms -------------------------------------
-// Transliterated to Latin script. `localRelation` returns "sanskrit (gujarati)"
-// for the relations we have confidently verified (see research notes), and null
-// otherwise so the caller falls back to the plain-English name. The Sanskrit/
-// Gujarati systems encode distinctions English lacks — paternal vs maternal
-// (dada vs nana, kaka vs mama), son's-side vs daughter's-side grandchildren
-// (pautra vs dauhitra), brother's vs sister's nephews (bhatrijo vs bhanej) —
-// and the engine already has the data to make them.
-const sg = (sanskrit: string, gujarati: string): string => `${sanskrit} (${gujarati})`;
+// --- Kinship terms in the family's own languages ---------------------------
+// The term tables live in kinlocales.ts, keyed by path signature; this turns a
+// path into its signature and qualifiers, looks it up in each chosen pack, and
+// adds the modifiers every language here takes from English alike (adoptive,
+// half-, ex-). Terms from several packs come out as "first (second, third)",
+// so the default pair reads "pitamaha (dada)". Null when no pack has a term,
+// and the caller falls back to the plain-English name.
 const isMale = (ds: Dataset, id: string): boolean =>
   ds.people.get(id)?.gender !== 'female';
 
-const localRelation = (ds: Dataset, a: string, steps: KinStep[]): string | null => {
+/** Where a path turns through two full siblings (up to their parent, down to the
+ *  other child), whether the one it comes down to is the elder: their union's
+ *  children are stored eldest-first. Null when there is no such turn. */
+const siblingOrder = (ds: Dataset, steps: KinStep[]): 'elder' | 'younger' | null => {
+  const i = steps.findIndex((s, k) => s.dir === 'up' && steps[k + 1]?.dir === 'down');
+  if (i < 0) return null;
+  const x = steps[i].from;
+  const y = steps[i + 1].to;
+  const u = ds.childUnionOf.get(x)?.biological;
+  if (!u || u !== ds.childUnionOf.get(y)?.biological || steps.some(s => s.tag === 'adoptive')) return null;
+  const kids = ds.unions.get(u)?.children ?? [];
+  const ix = kids.indexOf(x);
+  const iy = kids.indexOf(y);
+  if (ix < 0 || iy < 0) return null;
+  return iy < ix ? 'elder' : 'younger';
+};
+
+const localRelation = (ds: Dataset, a: string, steps: KinStep[], locales: string[]): string | null => {
   if (steps.length === 0) return null;
-  const dirs = steps.map(s => s.dir.charAt(0)).join('');
-  const b = steps[steps.length - 1].to;
-  const bMale = isMale(ds, b);
+  let dirs = steps.map(s => s.dir.charAt(0)).join('');
+  const people = [a, ...steps.map(s => s.to)];
+  let genders = people.map(id => (isMale(ds, id) ? 'm' : 'f')).join('');
+  const b = people[people.length - 1];
   const anyAdoptive = steps.some(s => s.tag === 'adoptive');
-  const preS = (n: number) => 'pra-'.repeat(n); // Sanskrit "great-" prefix
-  const preG = (n: number) => 'par-'.repeat(n); // Gujarati "great-" prefix
-  // The first hop's parent decides the paternal/maternal side.
-  const paternal = isMale(ds, steps[0].to);
-
-  // Ancestors: father → grandparent → great-grandparent, keeping the side at every depth.
-  if (/^u+$/.test(dirs) && dirs.length >= 2) {
-    const g = dirs.length - 2;
-    const san = (paternal ? (bMale ? 'pitamaha' : 'pitamahi') : bMale ? 'matamaha' : 'matamahi');
-    const guj = (paternal ? (bMale ? 'dada' : 'dadi') : bMale ? 'nana' : 'nani');
-    return (anyAdoptive ? 'adoptive ' : '') + sg(preS(g) + san, preG(g) + guj);
-  }
-  // Descendants: at grandchild depth, split son's line (pautra) vs daughter's line
-  // (dauhitra); deeper generations use the generic pra-/par- pautra chain.
-  if (/^d+$/.test(dirs) && dirs.length >= 2) {
-    const g = dirs.length - 2;
-    const pre = anyAdoptive ? 'adopted ' : '';
-    if (g === 0) {
-      const viaSon = isMale(ds, steps[0].to);
-      const san = viaSon ? (bMale ? 'pautra' : 'pautri') : bMale ? 'dauhitra' : 'dauhitri';
-      const guj = viaSon ? (bMale ? 'pautra' : 'pautri') : bMale ? 'dohitro' : 'dohitri';
-      return pre + sg(san, guj);
+  const qualifiers: string[] = [];
+  let greats = 0;
+  let prefix = '';
+
+  // Ancestor and descendant chains fold to two hops: A, the first parent or
+  // child (the side), and B; the rest is the pack's great- prefix.
+  if (/^u+$/.test(dirs) || /^d+$/.test(dirs)) {
+    if (dirs.length >= 2) {
+      greats = dirs.length - 2;
+      if (greats > 0 && dirs[0] === 'd') qualifiers.push('deep');
+      dirs = dirs.slice(0, 2);
+      genders = genders[0] + genders[1] + genders[genders.length - 1];
     }
-    const tail = bMale ? 'pautra' : 'pautri';
-    return pre + sg(preS(g) + tail, preG(g) + tail);
+    if (anyAdoptive) prefix = dirs[0] === 'u' ? 'adoptive ' : 'adopted ';
+  } else if (dirs === 'ud') {
+    prefix = siblingKind(ds, a, b, steps);
+  } else if (dirs === 's' && steps[0].status === 'partners') {
+    qualifiers.push('partners');
+  }
+  // In-laws through a divorce are ex- in every language, as the spouse is.
+  if (steps.some(s => s.status === 'divorced')) prefix = 'ex-';
+  const order = siblingOrder(ds, steps);
+  if (order) qualifiers.unshift(order);
+
+  const terms: string[] = [];
+  for (const id of locales) {
+    const pack = kinLocale(id);
+    if (!pack || (greats > 0 && pack.great === undefined)) continue;
+    const term = lookupKinTerm(pack, dirs, genders, qualifiers);
+    if (term) terms.push(pack.great ? pack.great.repeat(greats) + term : term);
+  }
+  if (terms.length === 0) return null;
+  return prefix + (terms.length === 1 ? terms[0] : `${terms[0]} (${terms.slice(1).join(', ')})`);
+};
+
+const greats = (n: number): string => (n === 3 ? 'great-' : n > 3 ? `${n - 2}× great-` : '');
+// "grandfather" two generations out, "great-grandfather" three, and so on.
+const generations = (n: number, word: string): string => (n > 1 ? `${greats(n)}grand${word}` : word);
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+const ordinal = (n: number): string => ORDINALS[n - 1] ?? `${n}th`;
+const timesWord = (n: number): string =>
+  n === 1 ? 'once' : n === 2 ? 'twice' : n === 3 ? 'thrice' : `${n} times`;
+
+/**
+ * English for B when A climbs `m` generations to the common ancestor and B sits
+ * `n` below it (both ≥ 1): sibling, uncle/aunt (grand-, great-grand-…),
+ * nephew/niece (grand-, great-grand-…), or Nth cousin M times removed.
+ * `greats` below counts from the grandparent level, so the same "great-" chain
+ * serves a great-grandfather and his brother, the great-grand-uncle.
+ */
+const collateralName = (
+  m: number,
+  n: number,
+  kind: string,
+  g: (male: string, female: string) => string,
+  viaSide: () => string,
+): string => {
+  if (m === 1 && n === 1) return `${kind}${g('brother', 'sister')}`;
+  if (n === 1) {
+    // Only a parent's own sibling gets the side, as only grandparents do above.
+    const side = m === 2 ? viaSide() : '';
+    return `${side ? `${side} ` : ''}${kind}${greats(m - 1)}${m > 2 ? 'grand-' : ''}${g('uncle', 'aunt')}`;
   }
+  if (m === 1) return `${kind}${greats(n - 1)}${n > 2 ? 'grand' : ''}${g('nephew', 'niece')}`;
+  const removed = Math.abs(m - n);
+  return (
+    `${kind.replace('-', ' ')}${ordinal(Math.min(m, n) - 1)} cousin` +
+    (removed ? ` ${timesWord(removed)} removed` : '')
+  );
+};
 
+/**
+ * English for a path that never crosses a marriage, or null when it isn't a
+ * straight line or a climb-and-descend. `asFor` names the relation plainly for
+ * another person's gender, with no paternal/maternal side and no half- or
+ * adoptive kind: the in-law names below build on it.
+ */
+const bloodName = (ds: Dataset, steps: KinStep[], asFor?: string): string | null => {
+  const dirs = steps.map(s => s.dir.charAt(0)).join('');
+  const b = asFor ?? steps[steps.length - 1].to;
+  const anyAdoptive = !asFor && steps.some(s => s.tag === 'adoptive');
+  const g = (male: string, female: string) => genderWord(ds, b, male, female);
+  // Paternal/maternal is decided by the parent through whom the path climbs.
+  const viaSide = () => (asFor ? '' : genderWord(ds, steps[0].to, 'paternal', 'maternal'));
+
+  // Pure ancestral / descendant chains name themselves at any depth —
+  // deep lineages are the norm here, not the exception.
+  if (/^u+$/.test(dirs)) {
+    const side = dirs.length === 2 && !asFor ? `${viaSide()} ` : '';
+    return `${anyAdoptive ? 'adoptive ' : ''}${side}${generations(dirs.length, g('father', 'mother'))}`;
+  }
+  if (/^d+$/.test(dirs)) {
+    return `${anyAdoptive ? 'adopted ' : ''}${generations(dirs.length, g('son', 'daughter'))}`;
+  }
+  // Collateral blood relatives: up `m` generations from A to a common ancestor,
+  // down `n` to B. The two children of that ancestor on the way decide half- or
+  // adoptive-, exactly as for siblings.
+  const collateral = /^(u+)(d+)$/.exec(dirs);
+  if (!collateral) return null;
+  const m = collateral[1].length;
+  const n = collateral[2].length;
+  const kind = asFor ? '' : siblingKind(ds, steps[m - 1].from, steps[m].to, steps);
+  return collateralName(m, n, kind, g, viaSide);
+};
+
+const inLaw = (kin: string): string => kin.replace(/(brother|sister|uncle|aunt|nephew|niece|cousin)/, '$1-in-law');
+
+/**
+ * English for a path across one marriage, or a spouse's sibling's spouse. The
+ * spouse's kin are in-laws ("uncle-in-law"), a relative's spouse is kin by
+ * marriage ("uncle by marriage") except a sibling's or descendant's, and a
+ * parent's or child's other marriage brings step-relatives. Null for anything
+ * else, and for never-married partners, whose kin English has no words for.
+ */
+const affinalName = (ds: Dataset, steps: KinStep[]): string | null => {
+  const dirs = steps.map(s => s.dir.charAt(0)).join('');
+  const b = steps[steps.length - 1].to;
+  const g = (male: string, female: string) => genderWord(ds, b, male, female);
+  const i = dirs.indexOf('s');
+  const hop = steps[i];
+  if (dirs === 's') return sideWord(ds, hop);
+  if (steps.some(s => s.status === 'partners')) return null;
+  const ex = steps.some(s => s.status === 'divorced') ? 'ex-' : '';
+  // A spouse's sibling's spouse: a co-brother- or co-sister-in-law.
+  if (dirs === 'suds') return `${ex}co-${g('brother', 'sister')}-in-law`;
+  if (dirs.indexOf('s', i + 1) >= 0) return null;
+
+  const before = dirs.slice(0, i);
+  const after = dirs.slice(i + 1);
+  if (before === '') {
+    if (/^u+$/.test(after)) return `${ex}${generations(after.length, g('father', 'mother'))}-in-law`;
+    if (/^d+$/.test(after)) return `${ex}step${after.length > 1 ? '-' : ''}${generations(after.length, g('son', 'daughter'))}`;
+    const kin = bloodName(ds, steps.slice(i + 1), b);
+    return kin && `${ex}${inLaw(kin)}`;
+  }
+  if (after === '') {
+    if (/^u+$/.test(before)) return `${ex}step${before.length > 1 ? '-' : ''}${generations(before.length, g('father', 'mother'))}`;
+    if (/^d+$/.test(before)) return `${ex}${generations(before.length, g('son', 'daughter'))}-in-law`;
+    const kin = bloodName(ds, steps.slice(0, i), b);
+    if (!kin) return null;
+    return before === 'ud' ? `${ex}${inLaw(kin)}` : `${ex}${kin} by marriage`;
+  }
   switch (dirs) {
-    case 'u':
-      return (anyAdoptive ? 'adoptive ' : '') + sg(bMale ? 'pita' : 'mata', bMale ? 'bapa' : 'ma');
-    case 'd':
-      return (anyAdoptive ? 'adopted ' : '') + sg(bMale ? 'putra' : 'putri', bMale ? 'dikro' : 'dikri');
-    case 'ud': {
-      const kind = siblingKind(ds, a, b, steps); // '', 'half-', or 'adoptive '
-      // Full siblings share a union whose children are stored eldest-first, so their
-      // positions give elder (agraja) vs younger (anuja) — B relative to A.
-      if (kind === '') {
-        const u = ds.childUnionOf.get(a)?.biological;
-        const kids = u ? ds.unions.get(u)?.children ?? [] : [];
-        const ia = kids.indexOf(a);
-        const ib = kids.indexOf(b);
-        if (ia >= 0 && ib >= 0) {
-          return ib < ia
-            ? sg(bMale ? 'agraj' : 'agraja', bMale ? 'moto bhai' : 'moti ben')
-            : sg(bMale ? 'anuj' : 'anuja', bMale ? 'nano bhai' : 'nani ben');
-        }
-      }
-      return kind + sg(bMale ? 'bhrata' : 'bhagini', bMale ? 'bhai' : 'ben');
-    }
-    case 's': {
-      const st = steps[0].status;
-      if (st === 'partners') return sg('sathi', 'sathi');
-      const base = sg(bMale ? 'pati' : 'patni', bMale ? 'dhani' : 'bairi');
-      return st === 'divorced' ? `ex-${base}` : base;
-    }
-    case 'uud':
-      return paternal
-        ? bMale ? sg('pitrivya', 'kaka') : sg('pitrusvasa', 'foi')
-        : bMale ? sg('matula', 'mama') : sg('matrusvasa', 'masi');
-    case 'udd': {
-      const viaBrother = isMale(ds, steps[1].to);
-      return viaBrother
-        ? bMale ? sg('bhratrija', 'bhatrijo') : sg('bhratriji', 'bhatriji')
-        : bMale ? sg('bhagineya', 'bhanej') : sg('bhagineyi', 'bhaneji');
+    case 'usd':
+      return `step${g('brother', 'sister')}`;
+    case 'usu':
+      return `step-grand${g('father', 'mother')}`;
+    case 'dsd':
+      return `step-grand${g('son', 'daughter')}`;
+    case 'dsu':
+      return `co-${g('father', 'mother')}-in-law`;
+  }
+  return null;
+};
+
+/**
+ * English for any path: blood and in-law names first, else two of them joined
+ * at a marriage ("sister's father-in-law", "partner's mother"), else null.
+ */
+const englishName = (ds: Dataset, steps: KinStep[]): string | null => {
+  if (steps.length === 0) return 'the same person';
+  const part = (p: KinStep[]) => (p.some(s => s.dir === 'side') ? affinalName(ds, p) : bloodName(ds, p));
+  const whole = part(steps);
+  if (whole) return whole;
+  // Split just before a marriage, then just after one; latest first, so the
+  // head names as much as it can.
+  for (const offset of [0, 1]) {
+    for (let k = steps.length - 1; k > 0; k--) {
+      if (steps[k - offset].dir !== 'side') continue;
+      const head = part(steps.slice(0, k));
+      const tail = part(steps.slice(k));
+      if (head && tail) return `${head}'s ${tail}`;
     }
-    case 'uudd':
-      return paternal
-        ? bMale ? sg('pitrivya-putra', 'pitarai bhai') : sg('pitrivya-putri', 'pitarai ben')
-        : bMale ? sg('matula-putra', 'mameri bhai') : sg('matula-putri', 'mameri ben');
-    case 'su':
-      return sg(bMale ? 'shvashura' : 'shvashru', bMale ? 'sasro' : 'sasu');
-    case 'ds':
-      return sg(bMale ? 'jamata' : 'snusha', bMale ? 'jamai' : 'vahu');
-    case 'uds':
-    case 'sud':
-      return bMale ? sg('shyala', 'salo') : sg('shyali', 'sali');
-    default:
-      return null; // step-relations, uncle-by-marriage, unnamed paths → English fallback
   }
+  return null;
 };
 
 /**
  * Name the relationship of B relative to A ("B is A's ___") for common patterns,
- * with a readable hop chain as universal fallback. `local` carries the Sanskrit
- * (Gujarati) term when we have one, else null.
+ * with a readable hop chain as universal fallback. `local` carries the term in
+ * the chosen locale packs (Sanskrit with Gujarati by default) when they have
+ * one, else null.
  */
 export const nameRelation = (
   ds: Dataset,
   a: string,
   steps: KinStep[],
+  locales: string[] = DEFAULT_KIN_LOCALES,
 ): { name: string | null; local: string | null; chain: { personId: string; label: string }[] } => {
-  const local = localRelation(ds, a, steps);
+  const local = localRelation(ds, a, steps, locales);
   const chain: { personId: string; label: string }[] = [
     { personId: a, label: personName(ds.people.get(a)!) },
   ];
@@ -209,75 +337,242 @@ export const nameRelation = (
     chain.push({ personId: s.to, label: `${word} ${name}` });
   }
 
-  const dirs = steps.map(s => s.dir.charAt(0)).join('');
-  const b = steps.length ? steps[steps.length - 1].to : a;
-  const anyAdoptive = steps.some(s => s.tag === 'adoptive');
-  const adoptPrefixUp = anyAdoptive ? 'adoptive ' : '';
-  const adoptPrefixDown = anyAdoptive ? 'adopted ' : '';
-  const g = (male: string, female: string) => genderWord(ds, b, male, female);
-  // Paternal/maternal is decided by the parent through whom the path climbs.
-  const viaSide = () => genderWord(ds, steps[0].to, 'paternal', 'maternal');
+  return { name: englishName(ds, steps), local, chain };
+};
 
-  // Pure ancestral / descendant chains name themselves at any depth —
-  // deep lineages are the norm here, not the exception.
-  const greats = (n: number): string =>
-    n === 3 ? 'great-' : n > 3 ? `${n - 2}× great-` : '';
-
-  let name: string | null = null;
-  if (/^u+$/.test(dirs) && dirs.length >= 2) {
-    const side = dirs.length === 2 ? `${viaSide()} ` : '';
-    name = `${adoptPrefixUp}${side}${greats(dirs.length)}${g('grandfather', 'grandmother')}`;
-    return { name, local, chain };
+/** One way two people are related: the path, its name, and whether it runs
+ *  purely through parents and children (blood, adoption included) or crosses a
+ *  marriage somewhere along the way. */
+export interface KinRelation {
+  steps: KinStep[];
+  name: string | null;
+  local: string | null;
+  chain: { personId: string; label: string }[];
+  kind: 'blood' | 'marriage';
+}
+
+const viaMarriage = (steps: KinStep[]): boolean => steps.some(s => s.dir === 'side');
+
+/** How far allKinRelations looks beyond the shortest path by default, and how
+ *  many relations it returns at most: distant pairs in the big lineages have
+ *  scores of equally long routes, and only the first few are worth reading. */
+export const KIN_SEARCH_HOPS = 6;
+export const KIN_RELATIONS_MAX = 12;
+// Paths collected before the search gives up; dense royal lineages can hold
+// thousands of long detours that no one wants to page through.
+const KIN_SEARCH_CAP = 400;
+
+/**
+ * The distinct ways B is related to A, within `maxHops` steps (never fewer
+ * than the shortest path needs), at most `limit` of them. Shortest first, and
+ * at equal length blood before marriage, so an uncle who also married into the
+ * family is introduced as the uncle. In endogamous families the same two people are often cousins AND
+ * in-laws; this lists each.
+ *
+ * Only chordless paths count: a path whose people are also parent and child
+ * some shorter way (A's father's wife, when she is A's own mother) is a detour,
+ * not a separate relationship; a marriage is no such shortcut, so a cousin who
+ * became a wife is listed as both. Full siblings reached through the father or
+ * through the mother are the same relation and are listed once, as is any
+ * route that reads exactly like one already listed.
+ */
+export const allKinRelations = (
+  ds: Dataset,
+  a: string,
+  b: string,
+  maxHops = KIN_SEARCH_HOPS,
+  limit = KIN_RELATIONS_MAX,
+  locales: string[] = DEFAULT_KIN_LOCALES,
+): KinRelation[] => {
+  const shortest = shortestKinPath(ds, a, b);
+  if (shortest === null || a === b) return [];
+  const hops = Math.max(maxHops, shortest.length);
+
+  // Distance to B for every person within reach, to prune hopeless branches.
+  const toB = new Map([[b, 0]]);
+  const frontier = [b];
+  for (let head = 0; head < frontier.length; head++) {
+    const cur = frontier[head];
+    const d = toB.get(cur)!;
+    if (d >= hops) continue;
+    for (const n of neighborsOf(ds, cur)) {
+      if (toB.has(n.to)) continue;
+      toB.set(n.to, d + 1);
+      frontier.push(n.to);
+    }
   }
-  if (/^d+$/.test(dirs) && dirs.length >= 2) {
-    name = `${adoptPrefixDown}${greats(dirs.length)}grand${g('son', 'daughter')}`;
-    return { name, local, chain };
+  // Only a parent or child link makes a shortcut: a wife who is also a cousin
+  // is still the cousin by the longer road. A marriage counts only against the
+  // road down to a child and up to its other parent, which is that marriage.
+  const linked = (x: string, y: string) => neighborsOf(ds, x).some(n => n.to === y && n.dir !== 'side');
+  const married = (x: string, y: string) => (ds.spousesOf.get(x) ?? []).some(s => s.id === y);
+
+  const found: KinStep[][] = [];
+  const path: KinStep[] = [];
+  const onPath = [a];
+  const walk = (cur: string) => {
+    if (found.length >= KIN_SEARCH_CAP) return;
+    for (const n of neighborsOf(ds, cur)) {
+      const left = toB.get(n.to);
+      if (left === undefined || path.length + 1 + left > hops || onPath.includes(n.to)) continue;
+      // Chordless: the newcomer may only touch the person just before it.
+      if (onPath.slice(0, -1).some(p => linked(p, n.to))) continue;
+      const last = path[path.length - 1];
+      if (n.dir === 'up' && last?.dir === 'down' && married(last.from, n.to)) continue;
+      path.push({ from: cur, to: n.to, dir: n.dir, tag: n.tag, status: n.status });
+      onPath.push(n.to);
+      if (n.to === b) found.push([...path]);
+      else walk(n.to);
+      path.pop();
+      onPath.pop();
+    }
+  };
+  walk(a);
+
+  // A full-sibling turn (up to a parent, down to their child) names the union
+  // the two share instead of the parent, so both parents give one key.
+  const keyOf = (steps: KinStep[]) =>
+    steps
+      .map((s, i) => {
+        const next = steps[i + 1];
+        if (s.dir === 'up' && next?.dir === 'down') {
+          const ua = ds.childUnionOf.get(s.from)?.biological;
+          if (ua && ua === ds.childUnionOf.get(next.to)?.biological) return `${s.dir}:${ua}`;
+        }
+        return `${s.dir}:${s.to}`;
+      })
+      .join('>');
+  const seen = new Set<string>();
+  const ordered = [shortest, ...found].sort(
+    (x, y) => x.length - y.length || Number(viaMarriage(x)) - Number(viaMarriage(y)),
+  );
+  const out: KinRelation[] = [];
+  for (const steps of ordered) {
+    if (out.length >= limit) break;
+    const key = keyOf(steps);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const named = nameRelation(ds, a, steps, locales);
+    // Parents on both sides of an adoption give the same words twice.
+    const reads = `${named.name}|${named.chain.map(c => c.label).join('>')}`;
+    if (seen.has(reads)) continue;
+    seen.add(reads);
+    out.push({ steps, ...named, kind: viaMarriage(steps) ? 'marriage' : 'blood' });
   }
-  switch (dirs) {
-    case '':
-      name = 'the same person';
-      break;
-    case 'u':
-      name = `${adoptPrefixUp}${g('father', 'mother')}`;
-      break;
-    case 'd':
-      name = `${adoptPrefixDown}${g('son', 'daughter')}`;
-      break;
-    case 'ud':
-      name = `${siblingKind(ds, a, b, steps)}${g('brother', 'sister')}`;
-      break;
-    case 's':
-      name = sideWord(ds, steps[0]);
-      break;
-    case 'uud':
-      name = `${viaSide()} ${g('uncle', 'aunt')}`;
-      break;
-    case 'uudd':
-      name = 'first cousin';
-      break;
-    case 'udd':
-      name = `${g('nephew', 'niece')}`;
-      break;
-    case 'su':
-      name = `${g('father', 'mother')}-in-law`;
-      break;
-    case 'ds':
-      name = `${g('son', 'daughter')}-in-law`;
-      break;
-    case 'uds':
-    case 'sud':
-      name = `${g('brother', 'sister')}-in-law`;
-      break;
-    case 'us':
-      name = `step${g('father', 'mother')}`;
-      break;
-    case 'sd':
-      name = `step${g('son', 'daughter')}`;
-      break;
-    case 'uuds':
-      name = `${g('uncle', 'aunt')} by marriage`;
-      break;
+  return out;
+};
+
+/** One row of "how is everyone related to A": B and B's relation to A. */
+export interface KinTableRow extends KinRelation {
+  personId: string;
+}
+
+/**
+ * How everyone A is related to at all is related to A, nearest first, from one
+ * BFS: each row is the shortest path and its name, as the relation finder
+ * gives it for that pair.
+ */
+export const relationsFrom = (
+  ds: Dataset,
+  a: string,
+  locales: string[] = DEFAULT_KIN_LOCALES,
+): KinTableRow[] =>
+  [...kinPathsFrom(ds, a)].map(([personId, steps]) => ({
+    personId,
+    steps,
+    ...nameRelation(ds, a, steps, locales),
+    kind: viaMarriage(steps) ? 'marriage' : 'blood',
+  }));
+
+/** A most recent common ancestor of two people: the couple (or lone parent)
+ *  both descend from, with how many generations up each side climbs to reach
+ *  them. `adoptive` is set when either side can only get there through an
+ *  adoption. */
+export interface CommonAncestry {
+  ancestorIds: string[];
+  /** The union of the couple whose children lead down to A and B, if known. */
+  unionId: string | null;
+  upA: number;
+  upB: number;
+  adoptive: boolean;
+}
+
+/** Everyone `id` descends from (themselves at 0), with the fewest generations
+ *  up and whether every route at that depth needs an adoption. A biological
+ *  route wins over an adoptive one of the same length. */
+const ancestorsOf = (
+  ds: Dataset,
+  id: string,
+  bloodOnly: boolean,
+): Map<string, { up: number; adoptive: boolean }> => {
+  const out = new Map([[id, { up: 0, adoptive: false }]]);
+  let level = [id];
+  for (let up = 1; level.length > 0; up++) {
+    const next: string[] = [];
+    for (const cur of level) {
+      const via = out.get(cur)!.adoptive;
+      for (const p of ds.parentsOf.get(cur) ?? []) {
+        if (bloodOnly && p.tag === 'adoptive') continue;
+        const adoptive = via || p.tag === 'adoptive';
+        const seen = out.get(p.id);
+        if (!seen) {
+          out.set(p.id, { up, adoptive });
+          next.push(p.id);
+        } else if (seen.up === up && seen.adoptive && !adoptive) {
+          seen.adoptive = false;
+        }
+      }
+    }
+    level = next;
   }
+  return out;
+};
 
-  return { name, local, chain };
+/**
+ * The most recent common ancestors of A and B: common ancestors none of whose
+ * children is one too. Partners who are both such ancestors through the union
+ * whose children lead to A and B come back as one couple. Usually one entry; more when A and B are
+ * related through several lines (double cousins, or an endogamous marriage).
+ * If one of the two descends from the other, that person is the answer at 0.
+ * Nearest first. Pass `bloodOnly` to ignore adoptions altogether.
+ */
+export const commonAncestors = (
+  ds: Dataset,
+  a: string,
+  b: string,
+  bloodOnly = false,
+): CommonAncestry[] => {
+  if (a === b || !ds.people.has(a) || !ds.people.has(b)) return [];
+  const fromA = ancestorsOf(ds, a, bloodOnly);
+  const fromB = ancestorsOf(ds, b, bloodOnly);
+  const common = new Set([...fromA.keys()].filter(id => fromB.has(id)));
+  const nearest = [...common].filter(
+    id => !(ds.childrenOf.get(id) ?? []).some(c => common.has(c.id) && (!bloodOnly || c.tag !== 'adoptive')),
+  );
+
+  const out: CommonAncestry[] = [];
+  const paired = new Set<string>();
+  for (const id of nearest) {
+    if (paired.has(id)) continue;
+    // The union whose children lead down to both A and B: none for a half-
+    // sibling's parent, whose two lines come from different unions.
+    const union = (ds.unionsOf.get(id) ?? [])
+      .map(uid => ds.unions.get(uid)!)
+      .find(u => {
+        const kids = [...u.children, ...(u.adoptedChildren ?? [])];
+        return kids.some(c => fromA.has(c)) && kids.some(c => fromB.has(c));
+      });
+    const partner = union?.partners.find(p => p !== id && nearest.includes(p));
+    const ancestorIds = partner ? [id, partner] : [id];
+    for (const x of ancestorIds) paired.add(x);
+    const sides = ancestorIds.map(x => ({ a: fromA.get(x)!, b: fromB.get(x)! }));
+    out.push({
+      ancestorIds,
+      unionId: union?.id ?? null,
+      upA: Math.min(...sides.map(s => s.a.up)),
+      upB: Math.min(...sides.map(s => s.b.up)),
+      adoptive: sides.every(s => s.a.adoptive || s.b.adoptive),
+    });
+  }
+  return out.sort((x, y) => x.upA + x.upB - (y.upA + y.upB));
 };
@@ -1,21 +1,384 @@
-import type { FamilyDataV2, MergeReport } from "./types";
-import { personName } from "./types";
+import type {
+  Citation,
+  FamilyDataV2,
+  MergeChange,
+  MergeConflict,
+  MergeReport,
+  PersonRecord,
+  Tombstone,
+  UnionRecord,
+} from "./types";
+import { isRelativeAnchor, personName } from "./types";
+import { nameSimilarity } from "./duplicates";
+import { newPersonId, newUnionId } from "./ids";
+import { foldWords } from "./search";
+
+const citeKey = (c: Citation) =>
+  `${c.sourceId}|${c.locator ?? ""}|${c.fact ?? ""}`;
+
+/** The winner's citations plus any only the other copy had: a citation, like a
+ *  person, is never dropped by a merge. */
+export const poolCitations = <T extends { citations?: Citation[] }>(
+  winner: T,
+  other: T,
+): T => {
+  const have = new Set((winner.citations ?? []).map(citeKey));
+  const extra = (other.citations ?? []).filter((c) => !have.has(citeKey(c)));
+  return extra.length
+    ? { ...winner, citations: [...(winner.citations ?? []), ...extra] }
+    : winner;
+};
+
+// Lists of ids merged as sets: an addition or removal on either side is kept,
+// so two cousins each adding a child is not a conflict.
+const ID_LISTS = new Set(["children", "adoptedChildren", "divineParents"]);
+// Bookkeeping rather than facts: never compared field by field.
+const UNCOMPARED = new Set(["id", "uid", "updatedAt", "citations"]);
+
+export const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/** `record`, taking the other copy's key when it has none of its own. */
+const withUid = <T extends { uid?: string }>(record: T, other: T): T =>
+  record.uid || !other.uid ? record : { ...record, uid: other.uid };
+
+/** The local list, plus what incoming added since base, minus what it removed. */
+const mergeIdList = (
+  base: string[],
+  local: string[],
+  incoming: string[],
+): string[] => [
+  ...local.filter((id) => !base.includes(id) || incoming.includes(id)),
+  ...incoming.filter((id) => !base.includes(id) && !local.includes(id)),
+];
+
+/** A report of nothing yet: what a merge or a patch fills in as it goes. */
+export const emptyMergeReport = (): MergeReport => ({
+  peopleAdded: [],
+  peopleUpdated: [],
+  unionsAdded: 0,
+  unionsUpdated: 0,
+  familiesAdded: [],
+  familiesUpdated: [],
+  idsRemapped: [],
+  peopleRemoved: [],
+  conflicts: [],
+  warnings: [],
+});
 
 /**
- * Additive merge of an incoming file into the local dataset.
- * Unknown ids are added; known ids are updated only if the incoming record is
- * newer (updatedAt); nothing is ever deleted; family conflicts keep local values.
+ * Field-level three-way merge of one record: a field changed on one side only
+ * takes that side's value; a field both sides changed, differently, keeps the
+ * local value and is named in `conflicts`.
  */
-export const mergeData = (
+export const mergeFields = <T extends object>(
+  base: T,
+  local: T,
+  incoming: T,
+): { merged: T; conflicts: string[] } => {
+  const b = base as Record<string, unknown>;
+  const l = local as Record<string, unknown>;
+  const i = incoming as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...l };
+  const conflicts: string[] = [];
+  const keys = new Set([
+    ...Object.keys(b),
+    ...Object.keys(l),
+    ...Object.keys(i),
+  ]);
+  for (const key of keys) {
+    if (UNCOMPARED.has(key) || same(l[key], i[key])) continue;
+    let value = l[key];
+    if (ID_LISTS.has(key))
+      value = mergeIdList(
+        (b[key] ?? []) as string[],
+        (l[key] ?? []) as string[],
+        (i[key] ?? []) as string[],
+      );
+    else if (same(l[key], b[key])) value = i[key];
+    else if (!same(i[key], b[key])) conflicts.push(key);
+    if (value === undefined) delete merged[key];
+    else merged[key] = value;
+  }
+  return { merged: merged as T, conflicts };
+};
+
+/** Follow `absorbedInto` from `id` to a record still in `live`, or null when
+ *  the trail ends at a plain deletion. */
+const resolveId = (
+  id: string,
+  live: Set<string>,
+  tombstones: Map<string, Tombstone>,
+): string | null => {
+  const seen = new Set<string>();
+  let at = id;
+  while (!live.has(at)) {
+    const into = tombstones.get(at)?.absorbedInto;
+    if (!into || seen.has(at)) return null;
+    seen.add(at);
+    at = into;
+  }
+  return at;
+};
+
+const dedupe = (ids: string[]) => ids.filter((x, i) => ids.indexOf(x) === i);
+
+/** A union with every id run through `resolve` (null drops it), duplicates and
+ *  partners-as-children removed; null when that leaves no one, or a lone
+ *  partner and nothing else. */
+const relinkUnion = (
+  u: UnionRecord,
+  resolve: (id: string) => string | null,
+): UnionRecord | null => {
+  const fix = (ids: string[]) =>
+    dedupe(ids.map(resolve).filter((id): id is string => id !== null));
+  const partners = fix(u.partners);
+  const children = fix(u.children).filter((c) => !partners.includes(c));
+  const adoptedChildren = fix(u.adoptedChildren ?? []).filter(
+    (c) => !partners.includes(c) && !children.includes(c),
+  );
+  if (
+    partners.length === 0 ||
+    (partners.length < 2 &&
+      children.length === 0 &&
+      adoptedChildren.length === 0)
+  )
+    return null;
+  const next = { ...u, partners, children, adoptedChildren };
+  return same(next, u) ? u : next;
+};
+
+/** A person with their divine parents and relative anchor run through
+ *  `resolve`; an anchor to no one is dropped. */
+const relinkPerson = (
+  p: PersonRecord,
+  resolve: (id: string) => string | null,
+): PersonRecord => {
+  const next = { ...p };
+  if (p.divineParents) {
+    const divineParents = dedupe(
+      p.divineParents.map(resolve).filter((id): id is string => id !== null),
+    );
+    if (divineParents.length) next.divineParents = divineParents;
+    else delete next.divineParents;
+  }
+  if (isRelativeAnchor(p.genAnchor)) {
+    const to = resolve(p.genAnchor.relativeTo);
+    if (to) next.genAnchor = { ...p.genAnchor, relativeTo: to };
+    else delete next.genAnchor;
+  }
+  return same(next, p) ? p : next;
+};
+
+/** Each child's parents' first names, from a file's unions. */
+const parentNames = (raw: FamilyDataV2): Map<string, string[]> => {
+  const names = new Map(raw.people.map((p) => [p.id, p.firstName]));
+  const out = new Map<string, string[]>();
+  for (const u of raw.unions) {
+    const parents = u.partners.map((id) => names.get(id) ?? "");
+    for (const c of [...u.children, ...(u.adoptedChildren ?? [])])
+      out.set(c, [...(out.get(c) ?? []), ...parents]);
+  }
+  return out;
+};
+
+const alike = (a: string, b: string, at: number) => {
+  const x = foldWords(a).join("");
+  const y = foldWords(b).join("");
+  return x === y || nameSimilarity(x, y) >= at;
+};
+
+/**
+ * The incoming file with every record whose id is taken here by a different
+ * record renamed ("Ramesh" → "Ramesh_1"), and every reference to it rewritten.
+ * First, a record whose key (uid) this copy has under another id, as an
+ * earlier import left it, takes that id, and so does their tombstone of it.
+ * Two records sharing an id are the same when their keys match. When either
+ * has no key: when the base copy has the id; otherwise a person when the
+ * first names are alike and, if both files record their parents, a parent's
+ * name agrees, and a union when it shares a partner once people are renamed.
+ * An id that was deleted here, under a different key, is taken too.
+ */
+export const remapCollisions = (
   local: FamilyDataV2,
   incoming: FamilyDataV2,
+  base?: FamilyDataV2,
+): { raw: FamilyDataV2; remapped: MergeReport["idsRemapped"] } => {
+  const remapped: MergeReport["idsRemapped"] = [];
+  const inBase = new Set(
+    [...(base?.people ?? []), ...(base?.unions ?? [])].map((r) => r.id),
+  );
+  const stones = new Map((local.tombstones ?? []).map((t) => [t.id, t]));
+  /** True or false when both have keys, null when that can't decide it. */
+  const sameKey = (a: { uid?: string }, b: { uid?: string }) =>
+    a.uid && b.uid ? a.uid === b.uid : null;
+  const buriedElse = (r: { id: string; uid?: string }) =>
+    sameKey(stones.get(r.id) ?? {}, r) === false;
+  // Where each key lives here; a live record outranks a tombstone.
+  const byUid = new Map<string, string>();
+  for (const r of [
+    ...(local.tombstones ?? []),
+    ...local.people,
+    ...local.unions,
+  ])
+    if (r.uid) byUid.set(r.uid, r.id);
+  /** The id this copy has the record under, when that isn't its own. */
+  const known = (r: { id: string; uid?: string }) => {
+    const id = r.uid && byUid.get(r.uid);
+    return id && id !== r.id ? id : null;
+  };
+  // New ids steer clear of everything either file has used.
+  const pool: FamilyDataV2 = {
+    ...local,
+    people: [...local.people, ...incoming.people],
+    unions: [...local.unions, ...incoming.unions],
+    tombstones: [...(local.tombstones ?? []), ...(incoming.tombstones ?? [])],
+  };
+
+  const localPeople = new Map(local.people.map((p) => [p.id, p]));
+  const localParents = parentNames(local);
+  const incomingParents = parentNames(incoming);
+  const personMap = new Map<string, string>();
+  for (const p of incoming.people) {
+    const keyed = known(p);
+    if (keyed) {
+      personMap.set(p.id, keyed);
+      continue;
+    }
+    const mine = localPeople.get(p.id);
+    let same = !buriedElse(p);
+    if (mine) {
+      const mineParents = localParents.get(p.id) ?? [];
+      const theirParents = incomingParents.get(p.id) ?? [];
+      same =
+        sameKey(mine, p) ??
+        (inBase.has(p.id) ||
+          (alike(mine.firstName, p.firstName, 0.75) &&
+            (!mineParents.length ||
+              !theirParents.length ||
+              mineParents.some((a) =>
+                theirParents.some((b) => alike(a, b, 0.9)),
+              ))));
+    }
+    if (same) continue;
+    const to = newPersonId(pool, p.firstName);
+    pool.people.push({ ...p, id: to });
+    personMap.set(p.id, to);
+    remapped.push({ kind: "person", from: p.id, to });
+  }
+  const person = (id: string) => personMap.get(id) ?? id;
+
+  const localUnions = new Map(local.unions.map((u) => [u.id, u]));
+  const unionMap = new Map<string, string>();
+  for (const u of incoming.unions) {
+    const keyed = known(u);
+    if (keyed) {
+      unionMap.set(u.id, keyed);
+      continue;
+    }
+    const mine = localUnions.get(u.id);
+    const partners = u.partners.map(person);
+    const same = mine
+      ? (sameKey(mine, u) ??
+        (inBase.has(u.id) || partners.some((p) => mine.partners.includes(p))))
+      : !buriedElse(u);
+    if (same) continue;
+    const to = newUnionId(pool, partners);
+    pool.unions.push({ ...u, id: to });
+    unionMap.set(u.id, to);
+    remapped.push({ kind: "union", from: u.id, to });
+  }
+  const rekeyed = (incoming.tombstones ?? []).some((t) => known(t));
+  if (personMap.size + unionMap.size === 0 && !rekeyed)
+    return { raw: incoming, remapped };
+  const union = (id: string) => unionMap.get(id) ?? id;
+
+  return {
+    raw: {
+      ...incoming,
+      people: incoming.people.map((p) =>
+        relinkPerson({ ...p, id: person(p.id) }, person),
+      ),
+      unions: incoming.unions.map((u) => ({
+        ...u,
+        id: union(u.id),
+        partners: u.partners.map(person),
+        children: u.children.map(person),
+        adoptedChildren: (u.adoptedChildren ?? []).map(person),
+      })),
+      ...(incoming.tombstones
+        ? {
+            tombstones: incoming.tombstones.map((t) => ({
+              ...t,
+              id: known(t) ?? t.id,
+              ...(t.absorbedInto
+                ? {
+                    absorbedInto: (t.kind === "person" ? person : union)(
+                      t.absorbedInto,
+                    ),
+                  }
+                : {}),
+            })),
+          }
+        : {}),
+    },
+    remapped,
+  };
+};
+
+/**
+ * Merge of an incoming file into the local dataset.
+ * Unknown ids are added; citations from both copies are kept; nothing is
+ * deleted except by a tombstone (see below). A known id is merged one of two
+ * ways:
+ *  - given `base`, the copy the incoming file started from, field by field
+ *    (see mergeFields): each side's own edits survive, and a field both sides
+ *    changed is reported in `report.conflicts`, holding the local value;
+ *  - without it, a person or union is replaced whole when the incoming record
+ *    is newer (updatedAt), and families, places and sources keep local values.
+ *
+ * Tombstones from both files are honored and carried into the merge. A deleted
+ * record stays deleted on both sides unless it was edited after the deletion,
+ * which brings it back; a record merged into another never comes back, and
+ * references to it are rewritten to the one that absorbed it. References to
+ * plainly deleted people are dropped, as deletePerson would. Before any of
+ * that, incoming records whose id is taken here by a different record are
+ * renamed (remapCollisions).
+ */
+export const mergeData = (
+  local: FamilyDataV2,
+  theirs: FamilyDataV2,
+  base?: FamilyDataV2,
 ): { merged: FamilyDataV2; report: MergeReport } => {
-  const report: MergeReport = {
-    peopleAdded: [],
-    peopleUpdated: [],
-    unionsAdded: 0,
-    unionsUpdated: 0,
-    familiesAdded: [],
+  const { raw: incoming, remapped } = remapCollisions(local, theirs, base);
+  const report: MergeReport = { ...emptyMergeReport(), idsRemapped: remapped };
+  const tombstones = new Map<string, Tombstone>();
+  for (const t of [...(local.tombstones ?? []), ...(incoming.tombstones ?? [])])
+    if (!tombstones.has(t.id)) tombstones.set(t.id, t);
+  const buried = (r: { id: string; uid?: string; updatedAt: string }) => {
+    const t = tombstones.get(r.id);
+    if (!t || (t.uid && r.uid && t.uid !== r.uid)) return false;
+    return !!t.absorbedInto || r.updatedAt <= t.deletedAt;
+  };
+  const conflict = (
+    kind: MergeConflict["kind"],
+    id: string,
+    label: string,
+    fields: string[],
+    records: { base: object; local: object; incoming: object },
+  ) => {
+    for (const field of fields) {
+      const at = (r: object) => (r as Record<string, unknown>)[field];
+      report.conflicts.push({
+        kind,
+        id,
+        label,
+        field,
+        base: at(records.base),
+        local: at(records.local),
+        incoming: at(records.incoming),
+      });
+    }
   };
 
   const families = { ...local.families };
@@ -23,37 +386,374 @@ export const mergeData = (
     if (!(id in families)) {
       families[id] = fam;
       report.familiesAdded.push(fam.name);
+      continue;
     }
-    // Known family: keep local name/color: the owner's palette wins.
+    // Known family: without a base, keep local name/color: the owner's
+    // palette wins.
+    const was = base?.families[id];
+    if (!was) continue;
+    const mine = families[id];
+    const { merged, conflicts } = mergeFields(was, mine, fam);
+    conflict("family", id, mine.name, conflicts, {
+      base: was,
+      local: mine,
+      incoming: fam,
+    });
+    if (!same(merged, mine)) report.familiesUpdated.push(merged.name);
+    families[id] = merged;
   }
 
-  const people = [...local.people];
+  // Places and sources merge like families: new ids are added, known ones keep
+  // local values.
+  const places = { ...local.places };
+  for (const [id, place] of Object.entries(incoming.places ?? {})) {
+    if (!(id in places)) places[id] = place;
+  }
+  const sources = { ...local.sources };
+  for (const [id, src] of Object.entries(incoming.sources ?? {})) {
+    if (!(id in sources)) sources[id] = src;
+  }
+  // Saved filters by name, the same way.
+  const queries = [...(local.queries ?? [])];
+  for (const q of incoming.queries ?? []) {
+    if (!queries.some((x) => x.name === q.name)) queries.push(q);
+  }
+
+  /** The three-way merge of a record both sides have, or null to fall back
+   *  to the newer-wins rule when the base doesn't have it. */
+  const reconcile = <
+    T extends {
+      id: string;
+      uid?: string;
+      updatedAt: string;
+      citations?: Citation[];
+    },
+  >(
+    kind: "person" | "union",
+    label: string,
+    was: T | undefined,
+    mine: T,
+    inc: T,
+  ): { record: T; changed: boolean } | null => {
+    if (!was) return null;
+    const { merged, conflicts } = mergeFields(was, mine, inc);
+    conflict(kind, mine.id, label, conflicts, {
+      base: was,
+      local: mine,
+      incoming: inc,
+    });
+    const changed = !same(merged, mine);
+    const newer = changed && inc.updatedAt > mine.updatedAt;
+    const updatedAt = newer ? inc.updatedAt : mine.updatedAt;
+    const record = poolCitations({ ...merged, updatedAt }, inc);
+    return { record: withUid(record, inc), changed };
+  };
+  const nameById = new Map(local.people.map((p) => [p.id, personName(p)]));
+  const basePeople = new Map(base?.people.map((p) => [p.id, p]));
+  const baseUnions = new Map(base?.unions.map((u) => [u.id, u]));
+
+  let people = [...local.people];
   const personIdx = new Map(people.map((p, i) => [p.id, i]));
   for (const inc of incoming.people) {
     const idx = personIdx.get(inc.id);
+    if (idx === undefined && buried(inc)) continue;
+    const merged =
+      idx === undefined
+        ? null
+        : reconcile(
+            "person",
+            personName(people[idx]),
+            basePeople.get(inc.id),
+            people[idx],
+            inc,
+          );
     if (idx === undefined) {
       people.push(inc);
       personIdx.set(inc.id, people.length - 1);
       report.peopleAdded.push(personName(inc));
+    } else if (merged) {
+      people[idx] = merged.record;
+      if (merged.changed)
+        report.peopleUpdated.push(personName(merged.record));
     } else if (inc.updatedAt > people[idx].updatedAt) {
-      people[idx] = inc;
+      people[idx] = withUid(poolCitations(inc, people[idx]), people[idx]);
       report.peopleUpdated.push(personName(inc));
+    } else {
+      people[idx] = withUid(poolCitations(people[idx], inc), inc);
     }
   }
 
-  const unions = [...local.unions];
+  let unions = [...local.unions];
   const unionIdx = new Map(unions.map((u, i) => [u.id, i]));
+  // Incoming unions fused into another: their children follow them there.
+  const fused: UnionRecord[] = [];
   for (const inc of incoming.unions) {
     const idx = unionIdx.get(inc.id);
+    if (idx === undefined && buried(inc)) {
+      if (tombstones.get(inc.id)!.absorbedInto) fused.push(inc);
+      continue;
+    }
+    const merged =
+      idx === undefined
+        ? null
+        : reconcile(
+            "union",
+            unions[idx].partners
+              .map((id) => nameById.get(id) ?? id)
+              .join(" & "),
+            baseUnions.get(inc.id),
+            unions[idx],
+            inc,
+          );
     if (idx === undefined) {
       unions.push(inc);
       unionIdx.set(inc.id, unions.length - 1);
       report.unionsAdded++;
+    } else if (merged) {
+      unions[idx] = merged.record;
+      if (merged.changed) report.unionsUpdated++;
     } else if (inc.updatedAt > unions[idx].updatedAt) {
-      unions[idx] = inc;
+      unions[idx] = withUid(poolCitations(inc, unions[idx]), unions[idx]);
       report.unionsUpdated++;
+    } else {
+      unions[idx] = withUid(poolCitations(unions[idx], inc), inc);
     }
   }
 
-  return { merged: { meta: local.meta, families, people, unions }, report };
+  if (tombstones.size > 0) {
+    const removed = new Set<string>();
+    for (const p of people) {
+      if (buried(p)) {
+        removed.add(p.id);
+        report.peopleRemoved.push(personName(p));
+      } else tombstones.delete(p.id);
+    }
+    for (const u of unions) {
+      if (buried(u)) removed.add(u.id);
+      else tombstones.delete(u.id);
+    }
+    const livePeople = people.filter((p) => !removed.has(p.id));
+    const liveUnions = unions.filter((u) => !removed.has(u.id));
+    const personIds = new Set(livePeople.map((p) => p.id));
+    const unionIds = new Set(liveUnions.map((u) => u.id));
+    const resolve = (id: string) => resolveId(id, personIds, tombstones);
+
+    const extra = new Map<string, UnionRecord[]>();
+    for (const u of fused) {
+      const into = resolveId(u.id, unionIds, tombstones);
+      if (into) extra.set(into, [...(extra.get(into) ?? []), u]);
+    }
+    const deletedAt = new Date().toISOString();
+    unions = [];
+    for (const u of liveUnions) {
+      const from = [u, ...(extra.get(u.id) ?? [])];
+      const next = relinkUnion(
+        {
+          ...u,
+          children: from.flatMap((x) => x.children),
+          adoptedChildren: from.flatMap((x) => x.adoptedChildren ?? []),
+        },
+        resolve,
+      );
+      if (next) unions.push(same(next, u) ? u : next);
+      else {
+        removed.add(u.id);
+        tombstones.set(u.id, { id: u.id, kind: "union", deletedAt });
+      }
+    }
+    people = livePeople.map((p) => relinkPerson(p, resolve));
+    report.conflicts = report.conflicts.filter((c) => !removed.has(c.id));
+  }
+
+  return {
+    merged: {
+      meta: local.meta,
+      families,
+      ...(Object.keys(places).length ? { places } : {}),
+      ...(Object.keys(sources).length ? { sources } : {}),
+      ...(queries.length ? { queries } : {}),
+      people,
+      unions,
+      ...(tombstones.size ? { tombstones: [...tombstones.values()] } : {}),
+    },
+    report,
+  };
+};
+
+// Not worth a line in the preview: a record taking a key it lacked is no news.
+const BOOKKEEPING = new Set(["uid", "updatedAt"]);
+
+/**
+ * What applying `merged` would do to `local`, person by person and union by
+ * union: what it adds, what its tombstones remove, and each field an update
+ * changes. A record whose only change is its timestamp or key isn't listed.
+ */
+export const mergeChanges = (
+  local: FamilyDataV2,
+  merged: FamilyDataV2,
+): MergeChange[] => {
+  const names = new Map(
+    [...local.people, ...merged.people].map((p) => [p.id, personName(p)]),
+  );
+  const changes: MergeChange[] = [];
+  const compare = <T extends { id: string }>(
+    kind: MergeChange["kind"],
+    before: T[],
+    after: T[],
+    label: (r: T) => string,
+    people: (r: T) => string[],
+  ) => {
+    const was = new Map(before.map((r) => [r.id, r]));
+    const kept = new Set(after.map((r) => r.id));
+    for (const r of after) {
+      const old = was.get(r.id);
+      if (!old) {
+        changes.push({
+          kind,
+          id: r.id,
+          label: label(r),
+          change: "added",
+          fields: [],
+          people: people(r),
+        });
+        continue;
+      }
+      const b = old as Record<string, unknown>;
+      const a = r as Record<string, unknown>;
+      const fields = [...new Set([...Object.keys(b), ...Object.keys(a)])]
+        .filter(
+          (field) => !BOOKKEEPING.has(field) && !same(b[field], a[field]),
+        )
+        .map((field) => ({ field, before: b[field], after: a[field] }));
+      if (fields.length)
+        changes.push({
+          kind,
+          id: r.id,
+          label: label(r),
+          change: "updated",
+          fields,
+          people: dedupe([...people(old), ...people(r)]),
+        });
+    }
+    for (const r of before) {
+      if (kept.has(r.id)) continue;
+      changes.push({
+        kind,
+        id: r.id,
+        label: label(r),
+        change: "removed",
+        fields: [],
+        people: people(r),
+      });
+    }
+  };
+  compare("person", local.people, merged.people, personName, (p) => [p.id]);
+  compare(
+    "union",
+    local.unions,
+    merged.unions,
+    (u) => u.partners.map((id) => names.get(id) ?? id).join(" & "),
+    (u) => [...u.partners, ...u.children, ...(u.adoptedChildren ?? [])],
+  );
+  return changes;
+};
+
+/**
+ * `merged` with the given changes undone: an addition left out, an update or a
+ * removal put back the way `local` has it. Keeping someone the import would
+ * remove keeps their unions as they were, too. Links left pointing at no one
+ * are dropped, and so is a union left with a lone partner and nothing else.
+ */
+export const withoutChanges = (
+  local: FamilyDataV2,
+  merged: FamilyDataV2,
+  rejected: MergeChange[],
+): FamilyDataV2 => {
+  if (rejected.length === 0) return merged;
+  const key = (kind: MergeChange["kind"], id: string) => `${kind}:${id}`;
+  const undo = new Set(rejected.map((c) => key(c.kind, c.id)));
+  const kept = new Set(
+    rejected
+      .filter((c) => c.kind === "person" && c.change === "removed")
+      .map((c) => c.id),
+  );
+  for (const u of local.unions) {
+    const ids = [...u.partners, ...u.children, ...(u.adoptedChildren ?? [])];
+    if (ids.some((id) => kept.has(id))) undo.add(key("union", u.id));
+  }
+
+  const revert = <T extends { id: string }>(
+    kind: MergeChange["kind"],
+    before: T[],
+    after: T[],
+  ): T[] => {
+    const was = new Map(before.map((r) => [r.id, r]));
+    const present = new Set(after.map((r) => r.id));
+    const out = after
+      .filter((r) => !undo.has(key(kind, r.id)) || was.has(r.id))
+      .map((r) => (undo.has(key(kind, r.id)) ? was.get(r.id)! : r));
+    for (const r of before)
+      if (!present.has(r.id) && undo.has(key(kind, r.id))) out.push(r);
+    return out;
+  };
+  const people = revert("person", local.people, merged.people);
+  const personIds = new Set(people.map((p) => p.id));
+  const resolve = (id: string) => (personIds.has(id) ? id : null);
+  const unions = revert("union", local.unions, merged.unions)
+    .map((u) => relinkUnion(u, resolve))
+    .filter((u): u is UnionRecord => u !== null);
+
+  const live = new Set([...personIds, ...unions.map((u) => u.id)]);
+  const { tombstones: buried, ...rest } = merged;
+  const tombstones = (buried ?? []).filter((t) => !live.has(t.id));
+  return {
+    ...rest,
+    people: people.map((p) => relinkPerson(p, resolve)),
+    unions,
+    ...(tombstones.length ? { tombstones } : {}),
+  };
+};
+
+/** Settle conflicts the incoming way: each named field takes the incoming
+ *  value (the merge already holds the local one). */
+export const takeIncoming = (
+  merged: FamilyDataV2,
+  conflicts: MergeConflict[],
+): FamilyDataV2 => {
+  const put = <T extends object>(
+    record: T,
+    field: string,
+    value: unknown,
+  ): T => {
+    const next = { ...record } as Record<string, unknown>;
+    if (value === undefined) delete next[field];
+    else next[field] = value;
+    return next as T;
+  };
+  let next = merged;
+  for (const c of conflicts) {
+    if (c.kind === "family" && c.id in next.families)
+      next = {
+        ...next,
+        families: {
+          ...next.families,
+          [c.id]: put(next.families[c.id], c.field, c.incoming),
+        },
+      };
+    else if (c.kind === "person")
+      next = {
+        ...next,
+        people: next.people.map((p) =>
+          p.id === c.id ? put(p, c.field, c.incoming) : p,
+        ),
+      };
+    else if (c.kind === "union")
+      next = {
+        ...next,
+        unions: next.unions.map((u) =>
+          u.id === c.id ? put(u, c.field, c.incoming) : u,
+        ),
+      };
+  }
+  return next;
 };
@@ -2,13 +2,25 @@ import type {
   FamilyDataV2,
   FamilyRecord,
   Gender,
+  PersonQuery,
   PersonRecord,
+  PlaceRecord,
+  Tombstone,
   UnionRecord,
   UnionStatus,
 } from "./types";
-import { newFamilyId, newPersonId, newUnionId } from "./ids";
-
-/** Edit a family's name / color / note (an empty note is dropped). */
+import { PERSON_PLACE_KEYS, placeName } from "./types";
+import {
+  newFamilyId,
+  newPersonId,
+  newPlaceId,
+  newUid,
+  newUnionId,
+} from "./ids";
+import { dateSortKey } from "./dates";
+import { poolCitations } from "./merge";
+
+/** Edit a family's name / color / note / gotra (an empty note or gotra is dropped). */
 export const updateFamily = (
   raw: FamilyDataV2,
   familyId: string,
@@ -18,9 +30,33 @@ export const updateFamily = (
   if (!cur) return raw;
   const next: FamilyRecord = { ...cur, ...patch };
   if ("note" in patch && !patch.note?.trim()) delete next.note;
+  if ("gotra" in patch && !patch.gotra?.trim()) delete next.gotra;
   return { ...raw, families: { ...raw.families, [familyId]: next } };
 };
 
+/** Save a filter under a name, replacing any saved one of the same name in
+ *  place. A blank name saves nothing. */
+export const saveQuery = (
+  raw: FamilyDataV2,
+  name: string,
+  query: PersonQuery,
+): FamilyDataV2 => {
+  const key = name.trim();
+  if (!key) return raw;
+  const queries = [...(raw.queries ?? [])];
+  const at = queries.findIndex((q) => q.name === key);
+  if (at === -1) queries.push({ name: key, query });
+  else queries[at] = { name: key, query };
+  return { ...raw, queries };
+};
+
+export const deleteQuery = (raw: FamilyDataV2, name: string): FamilyDataV2 => {
+  const queries = (raw.queries ?? []).filter((q) => q.name !== name);
+  const next: FamilyDataV2 = { ...raw, queries };
+  if (queries.length === 0) delete next.queries;
+  return next;
+};
+
 const now = () => new Date().toISOString();
 
 export interface PersonFields {
@@ -30,6 +66,12 @@ export interface PersonFields {
   alive: boolean;
   birthFamilyId: string | null;
   notes?: string;
+  birthDate?: string;
+  deathDate?: string;
+  birthPlaceId?: string;
+  deathPlaceId?: string;
+  residencePlaceId?: string;
+  nativePlaceId?: string;
 }
 
 export const addFamily = (
@@ -48,12 +90,45 @@ export const addFamily = (
   };
 };
 
+/** The place a typed name refers to, adding it to the registry if it's new.
+ *  Matches either the bare name or "Name, Region" (case-insensitive); a new
+ *  "Name, Region" is split on its first comma. Blank text gives no place. */
+export const ensurePlace = (
+  raw: FamilyDataV2,
+  text: string,
+): { raw: FamilyDataV2; placeId: string | undefined } => {
+  const t = text.trim().replace(/\s+/g, " ");
+  if (!t) return { raw, placeId: undefined };
+  const key = t.toLowerCase();
+  const places = raw.places ?? {};
+  const hit =
+    Object.keys(places).find(
+      (id) => placeName(places[id]).toLowerCase() === key,
+    ) ??
+    Object.keys(places).find((id) => places[id].name.toLowerCase() === key);
+  if (hit) return { raw, placeId: hit };
+  const comma = t.indexOf(",");
+  const name = comma < 0 ? t : t.slice(0, comma).trim();
+  const region = comma < 0 ? "" : t.slice(comma + 1).trim();
+  const record: PlaceRecord = region ? { name, region } : { name };
+  const placeId = newPlaceId(raw, name);
+  return {
+    raw: { ...raw, places: { ...places, [placeId]: record } },
+    placeId,
+  };
+};
+
 export const addPerson = (
   raw: FamilyDataV2,
   fields: PersonFields,
 ): { raw: FamilyDataV2; personId: string } => {
   const personId = newPersonId(raw, fields.firstName);
-  const person: PersonRecord = { id: personId, ...fields, updatedAt: now() };
+  const person: PersonRecord = {
+    id: personId,
+    uid: newUid(),
+    ...fields,
+    updatedAt: now(),
+  };
   return { raw: { ...raw, people: [...raw.people, person] }, personId };
 };
 
@@ -78,7 +153,12 @@ export const findUnionByPartners = (
 
 export const createUnion = (
   raw: FamilyDataV2,
-  init: { partners: string[]; familyId: string | null; status: UnionStatus },
+  init: {
+    partners: string[];
+    familyId: string | null;
+    status: UnionStatus;
+    marriageDate?: string;
+  },
 ): { raw: FamilyDataV2; unionId: string } => {
   const unionId = newUnionId(raw, init.partners);
   const maxOrder = Math.max(
@@ -89,12 +169,14 @@ export const createUnion = (
   );
   const union: UnionRecord = {
     id: unionId,
+    uid: newUid(),
     partners: init.partners,
     children: [],
     adoptedChildren: [],
     familyId: init.familyId,
     status: init.status,
     order: maxOrder + 1,
+    ...(init.marriageDate ? { marriageDate: init.marriageDate } : {}),
     updatedAt: now(),
   };
   return { raw: { ...raw, unions: [...raw.unions, union] }, unionId };
@@ -151,6 +233,30 @@ export const moveChildInUnion = (
   }),
 });
 
+/** Reorder a union's biological children by birth date, eldest first. Children
+ *  with no usable date keep their slots; only the dated ones are rearranged among
+ *  the slots they already hold, so hand-set order is never thrown away. */
+export const sortChildrenByBirth = (
+  raw: FamilyDataV2,
+  unionId: string,
+): FamilyDataV2 => {
+  const born = new Map(raw.people.map((p) => [p.id, dateSortKey(p.birthDate)]));
+  return {
+    ...raw,
+    unions: raw.unions.map((u) => {
+      if (u.id !== unionId) return u;
+      const dated = u.children.filter((c) => born.get(c) != null);
+      const sorted = [...dated].sort((a, b) => born.get(a)! - born.get(b)!);
+      if (sorted.every((c, i) => c === dated[i])) return u;
+      let next = 0;
+      const children = u.children.map((c) =>
+        born.get(c) != null ? sorted[next++] : c,
+      );
+      return { ...u, children, updatedAt: now() };
+    }),
+  };
+};
+
 export const addPartnerToUnion = (
   raw: FamilyDataV2,
   unionId: string,
@@ -244,6 +350,42 @@ export const growChild = (
   return { raw: next, personId: childId };
 };
 
+/** `next` with a tombstone for every person and union that `raw` had and it
+ *  doesn't. `absorbedInto` maps an id that was folded into another to its
+ *  replacement. */
+const bury = (
+  raw: FamilyDataV2,
+  next: FamilyDataV2,
+  absorbedInto = new Map<string, string>(),
+): FamilyDataV2 => {
+  const people = new Set(next.people.map((p) => p.id));
+  const unions = new Set(next.unions.map((u) => u.id));
+  const deletedAt = now();
+  const stone = (
+    { id, uid }: { id: string; uid?: string },
+    kind: Tombstone["kind"],
+  ): Tombstone => {
+    const into = absorbedInto.get(id);
+    return {
+      id,
+      kind,
+      ...(uid ? { uid } : {}),
+      deletedAt,
+      ...(into ? { absorbedInto: into } : {}),
+    };
+  };
+  const buried = [
+    ...raw.people
+      .filter((p) => !people.has(p.id))
+      .map((p) => stone(p, "person")),
+    ...raw.unions
+      .filter((u) => !unions.has(u.id))
+      .map((u) => stone(u, "union")),
+  ];
+  if (buried.length === 0) return next;
+  return { ...next, tombstones: [...(next.tombstones ?? []), ...buried] };
+};
+
 /** Move a child from whatever biological union it's in into `unionId`, deleting a
  *  now-empty single-parent union it leaves behind. No-op if already there. */
 export const moveChildToUnion = (
@@ -275,7 +417,108 @@ export const moveChildToUnion = (
         (u.adoptedChildren?.length ?? 0) === 0
       ),
   );
-  return { ...raw, unions };
+  return bury(raw, { ...raw, unions });
+};
+
+/** Take a biological child out of a two-parent union so that only `parentId` is
+ *  recorded as their parent: into that parent's single-parent union, created
+ *  (with the old union's family) if they don't have one yet. */
+export const detachChild = (
+  raw: FamilyDataV2,
+  childId: string,
+  parentId: string,
+): FamilyDataV2 => {
+  const from = raw.unions.find((u) => u.children.includes(childId));
+  if (!from || !from.partners.includes(parentId)) return raw;
+  if (from.partners.length < 2) return raw;
+  let next = raw;
+  let solo = findUnionByPartners(next, [parentId]);
+  if (!solo) {
+    const created = createUnion(next, {
+      partners: [parentId],
+      familyId: from.familyId,
+      status: "unknown",
+    });
+    next = created.raw;
+    solo = next.unions.find((u) => u.id === created.unionId)!;
+  }
+  return moveChildToUnion(next, childId, solo.id);
+};
+
+export interface UnionEdit {
+  patch: Partial<
+    Pick<
+      UnionRecord,
+      | "status"
+      | "order"
+      | "childGap"
+      | "familyId"
+      | "notes"
+      | "marriageDate"
+      | "marriagePlaceId"
+    >
+  >;
+  /** Second partner for a union that has only one. */
+  partnerId?: string | null;
+  /** Biological children to move out: child id → the union to move them into,
+   *  or `{ parentId }` to keep only that partner as their parent. */
+  moves?: Record<string, string | { parentId: string }>;
+}
+
+/**
+ * Everything the union editor changes, as one edit: the union's own fields, a
+ * second partner for a single-parent union, then children moved elsewhere. A
+ * cleared note, date or childGap is removed rather than left blank. Throws on
+ * a partner the union can't take.
+ */
+export const editUnion = (
+  raw: FamilyDataV2,
+  unionId: string,
+  edit: UnionEdit,
+): FamilyDataV2 => {
+  const union = raw.unions.find((u) => u.id === unionId);
+  if (!union) throw new Error(`unknown union "${unionId}"`);
+  let next = updateUnion(raw, unionId, edit.patch);
+  next = {
+    ...next,
+    unions: next.unions.map((u) => {
+      if (u.id !== unionId) return u;
+      const cleaned = { ...u };
+      if (!cleaned.notes?.trim()) delete cleaned.notes;
+      if (!cleaned.marriageDate?.trim()) delete cleaned.marriageDate;
+      if (!cleaned.marriagePlaceId) delete cleaned.marriagePlaceId;
+      if (!cleaned.childGap || cleaned.childGap <= 1) delete cleaned.childGap;
+      if (cleaned.order === undefined) delete cleaned.order;
+      return cleaned;
+    }),
+  };
+
+  const partnerId = edit.partnerId ?? null;
+  if (partnerId) {
+    if (union.partners.length !== 1)
+      throw new Error("this union already has two partners");
+    if (partnerId === union.partners[0])
+      throw new Error("a person can't partner themselves");
+    if (
+      union.children.includes(partnerId) ||
+      union.adoptedChildren?.includes(partnerId)
+    )
+      throw new Error("that person is a child of this union");
+    const dup = findUnionByPartners(next, [union.partners[0], partnerId]);
+    if (dup)
+      throw new Error(
+        `they already have a union (${dup.id}): move the children there instead`,
+      );
+    next = addPartnerToUnion(next, unionId, partnerId);
+  }
+
+  for (const [childId, to] of Object.entries(edit.moves ?? {})) {
+    next =
+      typeof to === "string"
+        ? moveChildToUnion(next, childId, to)
+        : detachChild(next, childId, to.parentId);
+  }
+  return next;
 };
 
 export interface GrowSpouseInput {
@@ -287,6 +530,7 @@ export interface GrowSpouseInput {
   familyId: string | null;
   /** Existing children of the anchor to also assign to this marriage. */
   childIds?: string[];
+  marriageDate?: string;
 }
 
 export const growSpouse = (
@@ -308,6 +552,7 @@ export const growSpouse = (
     next = updateUnion(next, existing.id, {
       status: input.status,
       familyId: input.familyId,
+      ...(input.marriageDate ? { marriageDate: input.marriageDate } : {}),
     });
     unionId = existing.id;
   } else {
@@ -326,6 +571,7 @@ export const growSpouse = (
         partners: [input.anchorId, spouseId],
         status: input.status,
         familyId: input.familyId,
+        ...(input.marriageDate ? { marriageDate: input.marriageDate } : {}),
       });
       unionId = solo.id;
     } else {
@@ -333,6 +579,7 @@ export const growSpouse = (
         partners: [input.anchorId, spouseId],
         familyId: input.familyId,
         status: input.status,
+        marriageDate: input.marriageDate,
       });
       next = created.raw;
       unionId = created.unionId;
@@ -346,7 +593,8 @@ export const growSpouse = (
 
 /** Remove a person entirely: pull them out of every union (as partner, child, or
  *  adopted child) and drop any union left with no partners, or a lone partner and
- *  no children. Never leaves dangling references. */
+ *  no children. Never leaves dangling references; what was removed leaves a
+ *  tombstone. */
 export const deletePerson = (
   raw: FamilyDataV2,
   personId: string,
@@ -367,11 +615,45 @@ export const deletePerson = (
           (u.adoptedChildren?.length ?? 0) === 0
         ),
     );
-  return {
+  return bury(raw, {
     ...raw,
     people: raw.people.filter((p) => p.id !== personId),
     unions,
-  };
+  });
+};
+
+/** Remove a union that records nothing: a lone partner with no children. A union
+ *  that still holds a couple or a child is left alone. */
+export const deleteEmptyUnion = (
+  raw: FamilyDataV2,
+  unionId: string,
+): FamilyDataV2 =>
+  bury(raw, {
+    ...raw,
+    unions: raw.unions.filter(
+      (u) =>
+        !(
+          u.id === unionId &&
+          u.partners.length < 2 &&
+          u.children.length === 0 &&
+          (u.adoptedChildren?.length ?? 0) === 0
+        ),
+    ),
+  });
+
+/** Remove a family no one is born into and no union belongs to. A family still
+ *  in use is left alone. */
+export const deleteFamily = (
+  raw: FamilyDataV2,
+  familyId: string,
+): FamilyDataV2 => {
+  const used =
+    raw.people.some((p) => p.birthFamilyId === familyId) ||
+    raw.unions.some((u) => u.familyId === familyId);
+  if (used || !(familyId in raw.families)) return raw;
+  const families = { ...raw.families };
+  delete families[familyId];
+  return { ...raw, families };
 };
 
 /**
@@ -410,7 +692,9 @@ export const mergeBlockReason = (
  * Fold `absorbId` into `keepId`: the two ids were the same human. Every reference to
  * the absorbed person becomes the kept person, unions that end up with the same
  * partners fuse (pooling their children), and the absorbed record is removed. The
- * kept person's own fields win; only blank fields are filled from the absorbed one.
+ * kept person's own fields win; only blank fields are filled from the absorbed one,
+ * and both sets of citations are kept. The absorbed person, and any union fused
+ * away, leave tombstones naming what replaced them.
  */
 export const mergePerson = (
   raw: FamilyDataV2,
@@ -438,6 +722,7 @@ export const mergePerson = (
   });
 
   // 2. Fuse unions that now share the same partner set, pooling their children.
+  const absorbedInto = new Map([[absorbId, keepId]]);
   const byKey = new Map<string, UnionRecord>();
   const keyOrder: string[] = [];
   for (const u of unions) {
@@ -448,13 +733,14 @@ export const mergePerson = (
       keyOrder.push(key);
       continue;
     }
+    absorbedInto.set(u.id, prev.id);
     const children = dedupe([...prev.children, ...u.children]);
     const adoptedChildren = dedupe([
       ...(prev.adoptedChildren ?? []),
       ...(u.adoptedChildren ?? []),
     ]).filter((c) => !children.includes(c));
     byKey.set(key, {
-      ...prev,
+      ...poolCitations(prev, u),
       children,
       adoptedChildren,
       // A concrete status/family beats a placeholder one.
@@ -479,17 +765,26 @@ export const mergePerson = (
   // 4. Merge the two person records: kept fields win; fill only blanks from absorbed.
   const notes = [keep.notes, absorb.notes].filter(Boolean).join("\n").trim();
   const mergedKeep: PersonRecord = {
-    ...keep,
+    ...poolCitations(keep, absorb),
     lastName: keep.lastName || absorb.lastName,
     birthFamilyId: keep.birthFamilyId ?? absorb.birthFamilyId,
     ...(notes ? { notes } : {}),
+    ...(keep.birthDate || absorb.birthDate
+      ? { birthDate: keep.birthDate ?? absorb.birthDate }
+      : {}),
+    ...(keep.deathDate || absorb.deathDate
+      ? { deathDate: keep.deathDate ?? absorb.deathDate }
+      : {}),
     updatedAt: now(),
   };
+  for (const key of PERSON_PLACE_KEYS) {
+    if (!mergedKeep[key] && absorb[key]) mergedKeep[key] = absorb[key];
+  }
   const people = raw.people
     .filter((p) => p.id !== absorbId)
     .map((p) => (p.id === keepId ? mergedKeep : p));
 
-  return { ...raw, people, unions };
+  return bury(raw, { ...raw, people, unions }, absorbedInto);
 };
 
 export interface GrowParentInput {
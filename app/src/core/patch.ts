@@ -0,0 +1,487 @@
+import type {
+  FamilyDataV2,
+  MergeConflict,
+  MergeReport,
+  PersonRecord,
+  RelativeAnchor,
+  UnionRecord,
+} from "./types";
+import { isRelativeAnchor, personName } from "./types";
+import type { HistoryEntry } from "./history";
+import { newPersonId, newUnionId } from "./ids";
+import { emptyMergeReport, mergeFields, poolCitations, same } from "./merge";
+
+/**
+ * Edits as a patch: what changed, record by record, rather than the whole
+ * file. A relative who fixed two dates sends back those two dates, and the
+ * patch applies to any copy that still has the records it touches, however
+ * much else that copy has changed since.
+ *
+ * Each edit in the undo history becomes a list of operations against record
+ * ids: add a record, update some of its fields, or remove it. An update
+ * carries each field's value before and after, so applying it is a three-way
+ * merge of one record: a field changed here too is a conflict to settle, and
+ * children added on both sides are all kept. Ids are the sender's; the patch
+ * also carries the key (uid) of every person and union it mentions, so a copy
+ * that has one under another id (renamed on an import) still finds it.
+ */
+
+export type PatchKind =
+  | "person"
+  | "union"
+  | "tombstone"
+  | "family"
+  | "place"
+  | "source"
+  | "query";
+
+export type PatchOp =
+  | { op: "add"; kind: PatchKind; id: string; record: object }
+  | {
+      op: "update";
+      kind: PatchKind;
+      id: string;
+      /** The record's key, to tell it from a namesake in another copy. */
+      uid?: string;
+      /** Only the fields that changed; a field missing from one side was
+       *  unset there. */
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    }
+  | { op: "remove"; kind: PatchKind; id: string; uid?: string };
+
+export interface PatchEdit {
+  /** The history label: "Added child Ramesh to u_ajay_harsha". */
+  label: string;
+  at: string;
+  ops: PatchOp[];
+}
+
+export interface Patch {
+  meta: { patchVersion: 1; exportedAt: string };
+  /** Person and union id → key, for every one the edits mention. */
+  keys?: Record<string, string>;
+  edits: PatchEdit[];
+}
+
+type Row = Record<string, unknown>;
+
+interface Collection {
+  read: (raw: FamilyDataV2) => Map<string, Row>;
+  write: (raw: FamilyDataV2, rows: Map<string, Row>) => FamilyDataV2;
+}
+
+// Arrays of records keep their order; a record a patch adds goes at the end.
+const listOf = (
+  field: "people" | "unions" | "tombstones" | "queries",
+  key: string,
+): Collection => ({
+  read: (raw) =>
+    new Map(
+      ((raw[field] ?? []) as unknown as Row[]).map((r) => [String(r[key]), r]),
+    ),
+  write: (raw, rows) => ({ ...raw, [field]: [...rows.values()] }),
+});
+
+const tableOf = (field: "families" | "places" | "sources"): Collection => ({
+  read: (raw) =>
+    new Map(Object.entries(raw[field] ?? {}) as [string, Row][]),
+  write: (raw, rows) => ({ ...raw, [field]: Object.fromEntries(rows) }),
+});
+
+// In the order a patch lists them.
+const COLLECTIONS: Record<PatchKind, Collection> = {
+  family: tableOf("families"),
+  place: tableOf("places"),
+  source: tableOf("sources"),
+  person: listOf("people", "id"),
+  union: listOf("unions", "id"),
+  tombstone: listOf("tombstones", "id"),
+  query: listOf("queries", "name"),
+};
+const KINDS = Object.keys(COLLECTIONS) as PatchKind[];
+
+/** The fields `a` and `b` disagree on, each side's values as they were. */
+const changedFields = (a: Row, b: Row) => {
+  const before: Row = {};
+  const after: Row = {};
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (same(a[key], b[key])) continue;
+    if (key in a) before[key] = a[key];
+    if (key in b) after[key] = b[key];
+  }
+  return { before, after };
+};
+
+const ID_LISTS = ["partners", "children", "adoptedChildren", "divineParents"];
+
+/** `row` with every person or union id it holds passed through `to`. Works on
+ *  a whole record or on the few fields of an update. */
+const relink = (row: Row, to: (id: string) => string): Row => {
+  const next = { ...row };
+  for (const key of ID_LISTS)
+    if (Array.isArray(next[key])) next[key] = (next[key] as string[]).map(to);
+  if (typeof next.absorbedInto === "string")
+    next.absorbedInto = to(next.absorbedInto);
+  const anchor = next.genAnchor as number | RelativeAnchor | undefined;
+  if (isRelativeAnchor(anchor))
+    next.genAnchor = { ...anchor, relativeTo: to(anchor.relativeTo) };
+  return next;
+};
+
+/** Key by id for the people, unions and tombstones of some snapshots. */
+const keysOf = (...raws: FamilyDataV2[]): Map<string, string> => {
+  const keys = new Map<string, string>();
+  for (const raw of raws)
+    for (const r of [...(raw.tombstones ?? []), ...raw.people, ...raw.unions])
+      if (r.uid) keys.set(r.id, r.uid);
+  return keys;
+};
+
+const uidOf = (r: Row): { uid?: string } =>
+  typeof r.uid === "string" ? { uid: r.uid } : {};
+
+/** The operations that turn `before` into `after`. */
+export const diffData = (
+  before: FamilyDataV2,
+  after: FamilyDataV2,
+): PatchOp[] => {
+  const ops: PatchOp[] = [];
+  for (const kind of KINDS) {
+    const was = COLLECTIONS[kind].read(before);
+    const now = COLLECTIONS[kind].read(after);
+    for (const [id, r] of now) {
+      const old = was.get(id);
+      // Edits share every record they didn't touch: most compare by identity.
+      if (!old) ops.push({ op: "add", kind, id, record: r });
+      else if (old !== r && !same(old, r))
+        ops.push({
+          op: "update",
+          kind,
+          id,
+          ...uidOf(old),
+          ...changedFields(old, r),
+        });
+    }
+    for (const [id, r] of was)
+      if (!now.has(id)) ops.push({ op: "remove", kind, id, ...uidOf(r) });
+  }
+  return ops;
+};
+
+/** A patch of the edits still in the undo history, oldest first. Undone
+ *  edits aren't in it, and neither is anything that fell off the bottom. */
+export const patchFromHistory = (past: HistoryEntry[]): Patch => {
+  const keys: Record<string, string> = {};
+  const edits: PatchEdit[] = [];
+  for (const e of past) {
+    const ops = diffData(e.before, e.after);
+    if (ops.length === 0) continue;
+    const known = keysOf(e.before, e.after);
+    const mention = (id: string) => {
+      const uid = known.get(id);
+      if (uid) keys[id] = uid;
+      return id;
+    };
+    for (const op of ops) {
+      mention(op.id);
+      if (op.op === "add") relink(op.record as Row, mention);
+      if (op.op === "update") {
+        relink(op.before, mention);
+        relink(op.after, mention);
+      }
+    }
+    edits.push({ label: e.label, at: e.at, ops });
+  }
+  return {
+    meta: { patchVersion: 1, exportedAt: new Date().toISOString() },
+    keys,
+    edits,
+  };
+};
+
+export const serializePatch = (patch: Patch): string =>
+  JSON.stringify(patch, null, 2);
+
+/** True when the text is a patch rather than a whole file. */
+export const looksLikePatch = (text: string): boolean =>
+  /^\uFEFF?\s*\{\s*"meta"\s*:\s*\{\s*"patchVersion"/.test(text);
+
+const isRecord = (v: unknown): v is Row =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Read a patch, checking its shape; the records in it are checked once it's
+ *  applied, the way an imported file's are. */
+export const parsePatch = (
+  text: string,
+): { patch: Patch | null; errors: string[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch (e) {
+    return { patch: null, errors: [`not valid JSON: ${(e as Error).message}`] };
+  }
+  if (!isRecord(json) || !isRecord(json.meta) || !Array.isArray(json.edits))
+    return { patch: null, errors: ['patch must contain "meta" and "edits"'] };
+  if (json.meta.patchVersion !== 1)
+    return {
+      patch: null,
+      errors: [`unsupported patch version ${String(json.meta.patchVersion)}`],
+    };
+
+  const errors: string[] = [];
+  const edits: PatchEdit[] = [];
+  json.edits.forEach((e: unknown, i) => {
+    if (!isRecord(e) || !Array.isArray(e.ops)) {
+      errors.push(`edit ${i + 1}: no "ops" list`);
+      return;
+    }
+    const ops: PatchOp[] = [];
+    e.ops.forEach((o: unknown, j) => {
+      const at = `edit ${i + 1}, operation ${j + 1}`;
+      if (
+        !isRecord(o) ||
+        typeof o.id !== "string" ||
+        !KINDS.includes(o.kind as PatchKind)
+      )
+        errors.push(`${at}: needs a known "kind" and an "id"`);
+      else if (o.op === "add" && isRecord(o.record))
+        ops.push({
+          op: "add",
+          kind: o.kind as PatchKind,
+          id: o.id,
+          record: o.record,
+        });
+      else if (o.op === "update" && isRecord(o.before) && isRecord(o.after))
+        ops.push({
+          op: "update",
+          kind: o.kind as PatchKind,
+          id: o.id,
+          ...uidOf(o),
+          before: o.before,
+          after: o.after,
+        });
+      else if (o.op === "remove")
+        ops.push({
+          op: "remove",
+          kind: o.kind as PatchKind,
+          id: o.id,
+          ...uidOf(o),
+        });
+      else errors.push(`${at}: not an add, update or remove`);
+    });
+    edits.push({
+      label: String(e.label ?? `Edit ${i + 1}`),
+      at: String(e.at ?? ""),
+      ops,
+    });
+  });
+  if (errors.length) return { patch: null, errors };
+  const keys = Object.fromEntries(
+    Object.entries(isRecord(json.keys) ? json.keys : {}).filter(
+      (e): e is [string, string] => typeof e[1] === "string",
+    ),
+  );
+  return {
+    patch: {
+      meta: {
+        patchVersion: 1,
+        exportedAt: String(json.meta.exportedAt ?? ""),
+      },
+      keys,
+      edits,
+    },
+    errors: [],
+  };
+};
+
+/** `row` with `fields` written over it, and the fields only `other` names
+ *  unset: one side of an update, on top of the record as it is here. */
+const overlay = (row: Row, fields: Row, other: Row): Row => {
+  const next = { ...row, ...fields };
+  for (const key of Object.keys(other))
+    if (!(key in fields)) delete next[key];
+  return next;
+};
+
+/**
+ * Apply a patch to this copy, edit by edit. Each record is found by its key
+ * when the patch gives one, by id otherwise, and every id inside the patch is
+ * translated the same way. Every record an update or a removal names must
+ * still be here, and be the same record (by key). A person or union the patch
+ * adds under an id this copy gives a different record (two relatives who each
+ * added a Ramesh) comes in under a fresh id, as on an import, and the rest of
+ * the patch follows it there; any other addition must not clash with a record
+ * already here. An operation this copy
+ * already has is skipped, so applying a patch twice changes nothing. A field
+ * changed both here and in the patch keeps the local value and is named in
+ * the report's conflicts, as an import's are.
+ *
+ * Links are not checked here: the caller validates the result as it would an
+ * imported file, which catches a patch that points at someone since deleted.
+ */
+export const applyPatch = (
+  local: FamilyDataV2,
+  patch: Patch,
+): { raw: FamilyDataV2 | null; report: MergeReport; errors: string[] } => {
+  const report = emptyMergeReport();
+  const errors: string[] = [];
+  const tables = new Map(KINDS.map((k) => [k, COLLECTIONS[k].read(local)]));
+  const touched = new Set<PatchKind>();
+  const tombstones = tables.get("tombstone")!;
+  const people = tables.get("person")!;
+  // Where each key lives here. Live records come after tombstones in keysOf,
+  // so they win.
+  const byUid = new Map([...keysOf(local)].map(([id, uid]) => [uid, id]));
+  const keys = patch.keys ?? {};
+  const renamed = new Map<string, string>();
+  const to = (id: string) =>
+    renamed.get(id) ?? ((keys[id] && byUid.get(keys[id])) || id);
+  const adds = patch.edits.flatMap((e) =>
+    e.ops.flatMap((op) =>
+      op.op === "add" && (op.kind === "person" || op.kind === "union")
+        ? [{ kind: op.kind, id: op.id, record: op.record as Row }]
+        : [],
+    ),
+  );
+  // New ids steer clear of everything this copy and the patch use.
+  const pool: FamilyDataV2 = {
+    ...local,
+    people: [...local.people],
+    unions: [...local.unions],
+  };
+  const claim = (kind: "person" | "union", record: Row) =>
+    kind === "person"
+      ? pool.people.push(record as unknown as PersonRecord)
+      : pool.unions.push(record as unknown as UnionRecord);
+  for (const { kind, record } of adds) claim(kind, record);
+  // Theirs takes a fresh id when this copy gave the same one to someone else.
+  for (const { kind, id, record } of adds) {
+    const uid = record.uid;
+    const mine = tables.get(kind)!.get(id) ?? tombstones.get(id);
+    if (typeof uid !== "string" || byUid.has(uid) || renamed.has(id)) continue;
+    if (typeof mine?.uid !== "string" || mine.uid === uid) continue;
+    const fresh =
+      kind === "person"
+        ? newPersonId(pool, String(record.firstName ?? ""))
+        : newUnionId(pool, ((record.partners ?? []) as string[]).map(to));
+    claim(kind, { ...record, id: fresh });
+    renamed.set(id, fresh);
+    report.idsRemapped.push({ kind, from: id, to: fresh });
+  }
+  /** The op against this copy's ids. */
+  const localize = (op: PatchOp): PatchOp => {
+    if (op.kind === "query") return op;
+    const keyed = op.op !== "add" && op.uid && byUid.get(op.uid);
+    const id = keyed || to(op.id);
+    if (op.op === "remove") return { ...op, id };
+    if (op.op === "update")
+      return {
+        ...op,
+        id,
+        before: relink(op.before, to),
+        after: relink(op.after, to),
+      };
+    const record = relink(op.record as Row, to);
+    return { ...op, id, record: "id" in record ? { ...record, id } : record };
+  };
+  const labelOf = (kind: PatchKind, r: Row): string =>
+    kind === "person"
+      ? personName(r as unknown as PersonRecord)
+      : kind === "union"
+        ? ((r.partners ?? []) as string[])
+            .map((id) => {
+              const p = people.get(id);
+              return p ? personName(p as unknown as PersonRecord) : id;
+            })
+            .join(" & ")
+        : String(r.name ?? r.id ?? "");
+
+  for (const edit of patch.edits) {
+    for (const op of edit.ops.map(localize)) {
+      const rows = tables.get(op.kind)!;
+      const what = `${op.kind} "${op.id}"`;
+      const fail = (why: string) =>
+        errors.push(`${edit.label}: ${what} ${why}`);
+      const row = rows.get(op.id);
+      const deleted = op.kind !== "tombstone" && tombstones.has(op.id);
+
+      if (op.op === "add") {
+        if (row) {
+          // Already applied, or a tombstone this copy recorded for itself.
+          if (!same(row, op.record) && op.kind !== "tombstone")
+            fail("already exists in this copy");
+        } else if (deleted) fail("was deleted in this copy");
+        else {
+          rows.set(op.id, op.record as Row);
+          touched.add(op.kind);
+          if (op.kind === "family")
+            report.familiesAdded.push(labelOf(op.kind, op.record as Row));
+        }
+        continue;
+      }
+      if (!row) {
+        // A removal this copy has made too is nothing to do.
+        if (op.op === "remove" && deleted) continue;
+        fail(deleted ? "was deleted in this copy" : "isn't in this copy");
+        continue;
+      }
+      if (op.uid && typeof row.uid === "string" && row.uid !== op.uid) {
+        fail("is a different record in this copy");
+        continue;
+      }
+      if (op.op === "remove") {
+        rows.delete(op.id);
+        touched.add(op.kind);
+        continue;
+      }
+
+      const { merged, conflicts } = mergeFields(
+        overlay(row, op.before, op.after),
+        row,
+        overlay(row, op.after, op.before),
+      );
+      const next = poolCitations(
+        "updatedAt" in op.after
+          ? { ...merged, updatedAt: op.after.updatedAt }
+          : merged,
+        op.after,
+      );
+      if (conflicts.length && !["person", "union", "family"].includes(op.kind))
+        fail(`has ${conflicts.join(", ")} changed in this copy too`);
+      for (const field of conflicts) {
+        const c: MergeConflict = {
+          kind: op.kind as MergeConflict["kind"],
+          id: op.id,
+          label: labelOf(op.kind, row),
+          field,
+          base: op.before[field],
+          local: row[field],
+          incoming: op.after[field],
+        };
+        // The same field changed twice in the patch: the later value stands.
+        const i = report.conflicts.findIndex(
+          (x) => x.kind === c.kind && x.id === c.id && x.field === field,
+        );
+        if (i < 0) report.conflicts.push(c);
+        else
+          report.conflicts[i] = {
+            ...report.conflicts[i],
+            incoming: c.incoming,
+          };
+      }
+      if (same(next, row)) continue;
+      rows.set(op.id, next);
+      touched.add(op.kind);
+      const name = labelOf(op.kind, next);
+      if (op.kind === "family" && !report.familiesUpdated.includes(name))
+        report.familiesUpdated.push(name);
+    }
+  }
+  if (errors.length) return { raw: null, report, errors };
+
+  let raw = local;
+  for (const kind of touched)
+    raw = COLLECTIONS[kind].write(raw, tables.get(kind)!);
+  return { raw, report, errors: [] };
+};
@@ -0,0 +1,136 @@
+import type { Dataset, FamilyDataV2 } from "./types";
+import { personName } from "./types";
+import type { WarningKind } from "./validate";
+import { checkData } from "./validate";
+import {
+  deleteEmptyUnion,
+  deleteFamily,
+  saveQuery,
+  updatePerson,
+} from "./mutate";
+
+/**
+ * Everything worth tidying in a file that still loads: the warnings validate.ts
+ * tolerates, plus lints it doesn't check (people tied to no one, unions that
+ * record nothing, families with one member or none). Each issue names what it's
+ * about so the panel can focus it, and carries a fix when one edit settles it.
+ */
+
+export type IssueKind =
+  | WarningKind
+  | "no-connections"
+  | "lone-union"
+  | "single-member-family"
+  | "unused-family";
+
+export interface IssueFix {
+  /** What the fix does, as a button and as the history entry. */
+  label: string;
+  apply: (raw: FamilyDataV2) => FamilyDataV2;
+}
+
+export interface DataIssue {
+  kind: IssueKind;
+  message: string;
+  personId?: string;
+  unionId?: string;
+  familyId?: string;
+  queryName?: string;
+  fix?: IssueFix;
+}
+
+/** Every issue in the dataset: validation warnings first, in file order, then
+ *  the lints. */
+export const dataIssues = (ds: Dataset): DataIssue[] => {
+  const { raw } = ds;
+  const nameOf = (id: string) => {
+    const p = ds.people.get(id);
+    return p ? personName(p) : id;
+  };
+  const familyName = (id: string | null) =>
+    id ? raw.families[id]?.name ?? id : "none";
+
+  const issues: DataIssue[] = checkData(raw).warnings.map((w) => {
+    const issue: DataIssue = { ...w };
+    const union = w.unionId ? ds.unions.get(w.unionId) : undefined;
+    if (w.kind === "birth-family" && w.personId && union) {
+      const { personId } = w;
+      issue.fix = {
+        label: `Set ${nameOf(personId)}'s birth family to ${familyName(union.familyId)}`,
+        apply: (r) =>
+          updatePerson(r, personId, { birthFamilyId: union.familyId }),
+      };
+    } else if (w.kind === "dead-but-alive" && w.personId) {
+      const { personId } = w;
+      issue.fix = {
+        label: `Mark ${nameOf(personId)} as late`,
+        apply: (r) => updatePerson(r, personId, { alive: false }),
+      };
+    } else if (w.kind === "query-family" && w.queryName) {
+      const saved = raw.queries?.find((q) => q.name === w.queryName);
+      if (saved) {
+        const { familyId: _dropped, ...query } = saved.query;
+        issue.fix = {
+          label: `Drop the family from the filter "${saved.name}"`,
+          apply: (r) => saveQuery(r, saved.name, query),
+        };
+      }
+    }
+    return issue;
+  });
+
+  for (const p of raw.people) {
+    const tied =
+      (ds.unionsOf.get(p.id)?.length ?? 0) > 0 ||
+      ds.childUnionOf.has(p.id) ||
+      (p.divineParents?.length ?? 0) > 0 ||
+      ds.divineChildrenOf.has(p.id);
+    if (tied) continue;
+    issues.push({
+      kind: "no-connections",
+      message: `"${p.id}": no parents, partners or children`,
+      personId: p.id,
+      // No fix: someone with no links yet is more often half entered than
+      // junk, and a deletion reaches every copy that merges this one.
+    });
+  }
+
+  for (const u of raw.unions) {
+    const children = u.children.length + (u.adoptedChildren?.length ?? 0);
+    if (u.partners.length !== 1 || children > 0) continue;
+    issues.push({
+      kind: "lone-union",
+      message: `union "${u.id}": one partner and no children`,
+      personId: u.partners[0],
+      unionId: u.id,
+      fix: {
+        label: `Remove ${nameOf(u.partners[0])}'s empty union`,
+        apply: (r) => deleteEmptyUnion(r, u.id),
+      },
+    });
+  }
+
+  for (const [id, family] of Object.entries(raw.families)) {
+    const members = ds.membersOfFamily.get(id);
+    if (!members || members.size === 0) {
+      issues.push({
+        kind: "unused-family",
+        message: `family "${id}": no one belongs to it`,
+        familyId: id,
+        fix: {
+          label: `Delete the family ${family.name}`,
+          apply: (r) => deleteFamily(r, id),
+        },
+      });
+    } else if (members.size === 1) {
+      const [only] = members;
+      issues.push({
+        kind: "single-member-family",
+        message: `family "${id}": "${only}" is its only member`,
+        personId: only,
+        familyId: id,
+      });
+    }
+  }
+  return issues;
+};
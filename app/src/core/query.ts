@@ -0,0 +1,124 @@
+import type { Dataset, PersonQuery, UnionStatus } from "./types";
+
+/**
+ * Filters over people, for the questions a family tree keeps being asked:
+ * "all living women born into the Pandya family in generation 5", "everyone
+ * with no parents recorded". A query is a plain object of optional fields
+ * (PersonQuery), so it saves into the data file as-is.
+ */
+
+/** True when the query sets nothing, and so would match everyone. */
+export const isEmptyQuery = (q: PersonQuery): boolean =>
+  Object.values(q).every((v) => v === undefined);
+
+/** Do two queries set the same fields to the same values? */
+export const sameQuery = (a: PersonQuery, b: PersonQuery): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (k) => a[k as keyof PersonQuery] === b[k as keyof PersonQuery],
+  );
+};
+
+/** The generation the filter counts in: 1 at the top of each tree. */
+const generationOf = (ds: Dataset, id: string): number | undefined => {
+  const g = ds.generations.get(id);
+  return g === undefined ? undefined : g + 1;
+};
+
+/** Does the person match every field the query sets? */
+export const matchesQuery = (
+  ds: Dataset,
+  id: string,
+  q: PersonQuery,
+): boolean => {
+  const p = ds.people.get(id);
+  if (!p) return false;
+  if (q.alive !== undefined && p.alive !== q.alive) return false;
+  if (q.gender !== undefined && p.gender !== q.gender) return false;
+  if (q.divine !== undefined && !!p.divine !== q.divine) return false;
+  if (q.familyId !== undefined || q.affiliation !== undefined) {
+    const ties = ds.familiesOf.get(id) ?? [];
+    const tied = ties.some(
+      (a) =>
+        (q.familyId === undefined || a.familyId === q.familyId) &&
+        (q.affiliation === undefined || a.kind === q.affiliation),
+    );
+    if (!tied) return false;
+  }
+  if (q.minGeneration !== undefined || q.maxGeneration !== undefined) {
+    const g = generationOf(ds, id);
+    if (g === undefined) return false;
+    if (q.minGeneration !== undefined && g < q.minGeneration) return false;
+    if (q.maxGeneration !== undefined && g > q.maxGeneration) return false;
+  }
+  const has = (refs: unknown[] | undefined) => (refs?.length ?? 0) > 0;
+  if (q.hasParents !== undefined && has(ds.parentsOf.get(id)) !== q.hasParents)
+    return false;
+  if (q.hasSpouse !== undefined && has(ds.spousesOf.get(id)) !== q.hasSpouse)
+    return false;
+  if (
+    q.hasChildren !== undefined &&
+    has(ds.childrenOf.get(id)) !== q.hasChildren
+  )
+    return false;
+  if (q.unionStatus !== undefined) {
+    const unions = ds.unionsOf.get(id) ?? [];
+    if (!unions.some((uid) => ds.unions.get(uid)?.status === q.unionStatus))
+      return false;
+  }
+  return true;
+};
+
+/** Everyone the query matches, in file order. */
+export const runQuery = (ds: Dataset, q: PersonQuery): string[] =>
+  ds.raw.people.map((p) => p.id).filter((id) => matchesQuery(ds, id, q));
+
+const STATUS_WORD: Record<UnionStatus, string> = {
+  married: "ever married",
+  divorced: "ever divorced",
+  partners: "with a partner they never married",
+  unknown: "in a union of unknown status",
+};
+
+const AFFILIATION_WORD = {
+  birth: "born into",
+  "adopted-into": "adopted into",
+  "married-into": "married into",
+} as const;
+
+/** The query read back as a phrase: "living women born into Pandya, in
+ *  generation 5, with no parents recorded". */
+export const describeQuery = (ds: Dataset, q: PersonQuery): string => {
+  const who = [
+    q.alive === true ? "living" : q.alive === false ? "late" : "",
+    q.divine === true ? "divine" : q.divine === false ? "mortal" : "",
+    q.gender === "female" ? "women" : q.gender === "male" ? "men" : "people",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const clauses: string[] = [];
+  if (q.familyId !== undefined || q.affiliation !== undefined) {
+    const family = q.familyId
+      ? ds.raw.families[q.familyId]?.name ?? q.familyId
+      : "a family";
+    clauses.push(
+      `${q.affiliation ? AFFILIATION_WORD[q.affiliation] : "of"} ${family}`,
+    );
+  }
+  const lo = q.minGeneration;
+  const hi = q.maxGeneration;
+  if (lo !== undefined && lo === hi) clauses.push(`in generation ${lo}`);
+  else if (lo !== undefined && hi !== undefined)
+    clauses.push(`in generations ${lo}–${hi}`);
+  else if (lo !== undefined) clauses.push(`from generation ${lo} down`);
+  else if (hi !== undefined) clauses.push(`down to generation ${hi}`);
+  const either = (has: boolean | undefined, yes: string, no: string) => {
+    if (has !== undefined) clauses.push(has ? yes : no);
+  };
+  either(q.hasParents, "with parents recorded", "with no parents recorded");
+  either(q.hasSpouse, "with a spouse", "with no spouse");
+  either(q.hasChildren, "with children", "with no children");
+  if (q.unionStatus) clauses.push(STATUS_WORD[q.unionStatus]);
+  const phrase = [who, clauses.join(", ")].filter(Boolean).join(" ");
+  return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+};
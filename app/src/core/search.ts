@@ -0,0 +1,224 @@
+import type { FamilyDataV2, SearchEntry } from "./types";
+import { personName, placeName } from "./types";
+
+/**
+ * Search that finds Kṛṣṇa when you type "Krishna", "Krsna" or कृष्ण. Every name
+ * is folded to one spelling before it's compared: diacritics stripped,
+ * Devanagari and Gujarati transliterated, and the usual romanization variants
+ * (sh/s, ch/c, w/v, doubled vowels) merged. What's left of a difference is a
+ * typo, and a small edit distance forgives it.
+ */
+
+// Devanagari, by offset from U+0900. Gujarati sits at the same offsets from
+// U+0A80, so one table serves both scripts.
+const table = (from: number, sounds: string): Map<number, string> =>
+  new Map(sounds.split(" ").map((s, i) => [from + i, s]));
+const VOWELS = table(0x05, "a a i i u u r l e e e ai o o o au");
+const VOWEL_SIGNS = table(0x3e, "a i i u u r r e e e ai o o o au");
+const CONSONANTS = new Map([
+  ...table(
+    0x15,
+    "k kh g gh n c ch j jh n t th d dh n t th d dh n n p ph b bh m y r r l l l v s s s h",
+  ),
+  // The nukta forms: qa, khha, ghha, za, dddha, rha, fa, yya.
+  ...table(0x58, "k kh g j r rh ph y"),
+]);
+const NASALS = new Set([0x01, 0x02]);
+const VISARGA = 0x03;
+const VIRAMA = 0x4d;
+const OM = 0x50;
+
+const indicOffset = (code: number): number | null =>
+  code >= 0x900 && code <= 0x97f
+    ? code - 0x900
+    : code >= 0xa80 && code <= 0xaff
+      ? code - 0xa80
+      : null;
+
+/**
+ * Devanagari and Gujarati to plain Latin: consonants carry their inherent "a"
+ * unless a vowel sign or virama replaces it, and drop it at the end of a word
+ * the way the names are said (राम is "Ram", not "Rama"). Anything else passes
+ * through untouched.
+ */
+export const transliterate = (text: string): string => {
+  let out = "";
+  let inherent = false; // the last consonant still owes its "a"
+  let syllables = 0;
+  const settle = (wordEnds: boolean) => {
+    if (inherent && !(wordEnds && syllables > 1)) out += "a";
+    inherent = false;
+  };
+  for (const ch of text) {
+    const at = indicOffset(ch.codePointAt(0)!);
+    if (at === null) {
+      settle(true);
+      syllables = 0;
+      out += ch;
+    } else if (CONSONANTS.has(at)) {
+      settle(false);
+      out += CONSONANTS.get(at);
+      inherent = true;
+      syllables++;
+    } else if (VOWEL_SIGNS.has(at)) {
+      inherent = false;
+      out += VOWEL_SIGNS.get(at);
+    } else if (at === VIRAMA) {
+      inherent = false;
+      syllables--;
+    } else if (VOWELS.has(at)) {
+      settle(false);
+      out += VOWELS.get(at);
+      syllables++;
+    } else if (NASALS.has(at) || at === VISARGA) {
+      settle(false);
+      out += at === VISARGA ? "h" : "n";
+    } else if (at === OM) {
+      settle(true);
+      out += "om";
+    } else if (at >= 0x66 && at <= 0x6f) {
+      settle(true);
+      out += String(at - 0x66);
+    } else if (at === 0x64 || at === 0x65) {
+      settle(true);
+      out += " "; // danda
+    }
+    // Nukta, avagraha and the rest add nothing to the sound.
+  }
+  settle(true);
+  return out;
+};
+
+// Spellings that name the same sound: Krishna/Kṛṣṇa, Chandra/Candra,
+// Vishwa/Viśva, Geeta/Gītā. Longest first so "chh" folds as one.
+const VARIANTS: [RegExp, string][] = [
+  [/chh|ch/g, "c"],
+  [/sh/g, "s"],
+  [/w/g, "v"],
+  [/aa/g, "a"],
+  [/ee|ii/g, "i"],
+  [/oo|uu/g, "u"],
+];
+
+/** Text as search compares it: the folded words, in order. */
+export const foldWords = (text: string): string[] => {
+  let s = transliterate(text)
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+  for (const [from, to] of VARIANTS) s = s.replace(from, to);
+  return s.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+};
+
+const unique = (...texts: (string | undefined)[]): string[] => [
+  ...new Set(texts.flatMap((t) => (t ? foldWords(t) : []))),
+];
+
+/** Built once with the Dataset: everything the search bar can find. */
+export const buildSearchIndex = (raw: FamilyDataV2): SearchEntry[] => [
+  ...raw.people.map((p) => ({
+    kind: "person" as const,
+    id: p.id,
+    label: personName(p),
+    names: unique(p.firstName, p.lastName, p.altName),
+    text: unique(p.notes),
+  })),
+  ...Object.entries(raw.families).map(([id, f]) => ({
+    kind: "family" as const,
+    id,
+    label: f.name,
+    names: unique(f.name),
+    text: unique(f.note, f.gotra),
+  })),
+  ...Object.entries(raw.places ?? {}).map(([id, pl]) => ({
+    kind: "place" as const,
+    id,
+    label: placeName(pl),
+    names: unique(pl.name),
+    text: unique(pl.region),
+  })),
+];
+
+/** Typos forgiven in a query word of this length: none in short words, where
+ *  one edit already turns most names into others. */
+const typosAllowed = (length: number): number =>
+  length <= 3 ? 0 : length <= 6 ? 1 : 2;
+
+/** Edit distances from the query word to the whole word, and to its closest
+ *  prefix, so a half-typed name with a slip still matches. */
+const editDistances = (
+  q: string,
+  word: string,
+): { whole: number; prefix: number } => {
+  let row = Array.from({ length: word.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= q.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= word.length; j++) {
+      const sub = row[j - 1] + (q[i - 1] === word[j - 1] ? 0 : 1);
+      next.push(Math.min(sub, row[j] + 1, next[j - 1] + 1));
+    }
+    row = next;
+  }
+  return { whole: row[word.length], prefix: Math.min(...row) };
+};
+
+/** Plain edit distance between two folded words. */
+export const editDistance = (a: string, b: string): number =>
+  editDistances(a, b).whole;
+
+/** How well one query word matches one name word; lower is better. A slip in
+ *  a whole word ranks above one in a half-typed word. */
+const wordScore = (q: string, word: string): number => {
+  if (word === q) return 0;
+  if (word.startsWith(q)) return 1;
+  if (q.length >= 3 && word.includes(q)) return 2;
+  const allowed = typosAllowed(q.length);
+  const { whole, prefix } = editDistances(q, word);
+  if (whole <= allowed) return 2 + whole;
+  return prefix <= allowed ? 3 + prefix : Infinity;
+};
+
+// A word found only in the notes ranks below any match on the name.
+const TEXT_PENALTY = 5;
+
+/** How well the query matches an entry, or Infinity when some word of it
+ *  matches nothing. */
+export const matchScore = (entry: SearchEntry, words: string[]): number => {
+  let total = 0;
+  for (const q of words) {
+    let best = Math.min(...entry.names.map((w) => wordScore(q, w)));
+    if (best === Infinity && entry.text.some((w) => w.startsWith(q)))
+      best = TEXT_PENALTY;
+    if (best === Infinity) return Infinity;
+    total += best;
+  }
+  return total;
+};
+
+export interface SearchHit {
+  entry: SearchEntry;
+  score: number;
+}
+
+/**
+ * Entries matching every word of the query, best first: exact names, then
+ * prefixes, then typos, then notes; alphabetical among equals. An empty query
+ * finds nothing.
+ */
+export const search = (
+  index: SearchEntry[],
+  query: string,
+  kinds?: SearchEntry["kind"][],
+): SearchHit[] => {
+  const words = foldWords(query);
+  if (words.length === 0) return [];
+  const hits: SearchHit[] = [];
+  for (const entry of index) {
+    if (kinds && !kinds.includes(entry.kind)) continue;
+    const score = matchScore(entry, words);
+    if (score < Infinity) hits.push({ entry, score });
+  }
+  return hits.sort(
+    (a, b) => a.score - b.score || a.entry.label.localeCompare(b.entry.label),
+  );
+};
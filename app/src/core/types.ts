@@ -15,7 +15,12 @@ export type UnionStatus = "married" | "divorced" | "partners" | "unknown";
 export type ParentTag = "biological" | "adoptive";
 
 export interface PersonRecord {
+  /** Readable, and unique only within one file: "Ramesh", "Ramesh_1". */
   id: string;
+  /** Globally unique key, minted when the record is created and never changed,
+   *  so merges can tell two relatives' "Ramesh" apart. Absent on records made
+   *  before keys existed. */
+  uid?: string;
   firstName: string;
   lastName: string;
   gender: Gender;
@@ -23,6 +28,18 @@ export interface PersonRecord {
   /** Family born into; null = unknown lineage. */
   birthFamilyId: string | null;
   notes?: string;
+  /** Partial or approximate dates in the core/dates.ts grammar: "1947-08-15",
+   *  "1947", "c. 1920", "before 1950", "1920/1925". */
+  birthDate?: string;
+  deathDate?: string;
+  /** Places from the file's `places` registry: where they were born, died and
+   *  live, and the ancestral village the family traces itself to. */
+  birthPlaceId?: string;
+  deathPlaceId?: string;
+  residencePlaceId?: string;
+  nativePlaceId?: string;
+  /** Where what we know about them comes from; a citation may back one fact. */
+  citations?: Citation<PersonFact>[];
   updatedAt: string;
   /** A deva / divine being. Rendered distinctly and kept as a "free agent": its
    *  parentage never binds the generation leveling of mortals. */
@@ -62,6 +79,8 @@ export interface PersonRecord {
 
 export interface UnionRecord {
   id: string;
+  /** Globally unique key, as PersonRecord.uid. */
+  uid?: string;
   /** 1 or 2 person ids. 1 = the other parent is unknown (a data gap, not a status). */
   partners: string[];
   /** Biological children of this union. */
@@ -79,6 +98,11 @@ export interface UnionRecord {
   /** Free text about the partnership itself: what a `childGap` stands in for,
    *  which text a descent comes from, why a niyoga birth is counted where it is. */
   notes?: string;
+  /** When the partnership began, same grammar as PersonRecord.birthDate. */
+  marriageDate?: string;
+  /** Where the partnership began, from the `places` registry. */
+  marriagePlaceId?: string;
+  citations?: Citation<UnionFact>[];
   updatedAt: string;
 }
 
@@ -88,6 +112,73 @@ export interface FamilyRecord {
   /** Optional human distinguisher for lineages that share a name: e.g. a place
    *  or branch ("Surat branch"). Ids are always unique; names may repeat. */
   note?: string;
+  /** The clan the family traces itself to ("Kashyap"); its children are born
+   *  into it, and the marriage check won't match two people of the same one. */
+  gotra?: string;
+}
+
+/** A town or village people and unions can point at. Villages, not families,
+ *  are often what a branch is known by ("the Surat side"). */
+export interface PlaceRecord {
+  name: string;
+  /** District / state / country, to tell same-named villages apart. */
+  region?: string;
+}
+
+/** Person fields that hold a place id, in display order. */
+export const PERSON_PLACE_KEYS = [
+  "birthPlaceId",
+  "residencePlaceId",
+  "nativePlaceId",
+  "deathPlaceId",
+] as const;
+export type PersonPlaceKey = (typeof PERSON_PLACE_KEYS)[number];
+
+/** How someone is tied to a place, for search results and the detail card. */
+export type PlaceTie = "born" | "lives" | "native" | "died" | "married";
+
+export const PERSON_PLACE_TIE: Record<PersonPlaceKey, PlaceTie> = {
+  birthPlaceId: "born",
+  residencePlaceId: "lives",
+  nativePlaceId: "native",
+  deathPlaceId: "died",
+};
+
+/** A book, record or informant the tree's facts come from. */
+export interface SourceRecord {
+  title: string;
+  author?: string;
+  url?: string;
+  note?: string;
+}
+
+/** The facts a citation can be pinned to; a citation without one backs the
+ *  whole record. */
+export const PERSON_FACTS = [
+  "name",
+  "gender",
+  "birth",
+  "death",
+  "residence",
+  "native",
+  "lineage",
+  "divineParents",
+] as const;
+export type PersonFact = (typeof PERSON_FACTS)[number];
+export const UNION_FACTS = [
+  "partners",
+  "marriage",
+  "status",
+  "children",
+] as const;
+export type UnionFact = (typeof UNION_FACTS)[number];
+
+/** "Srimad Bhagavatam, 9.6.4": a source plus where in it to look. */
+export interface Citation<F extends string = PersonFact | UnionFact> {
+  sourceId: string;
+  /** Page, chapter/verse, folio… free text. */
+  locator?: string;
+  fact?: F;
 }
 
 /** Display name for a family, with a distinguisher when the name isn't unique. */
@@ -96,11 +187,71 @@ export interface FamilyLabel {
   distinguisher?: string;
 }
 
+/** A filter over people: every field that's set must hold, unset ones don't
+ *  filter. Built in the filter panel, run by core/query.ts. */
+export interface PersonQuery {
+  alive?: boolean;
+  gender?: Gender;
+  familyId?: string;
+  /** How they belong to `familyId`; any way at all when unset. */
+  affiliation?: FamilyAffiliation["kind"];
+  /** Generation range, inclusive, counted from 1 at the top of each tree. */
+  minGeneration?: number;
+  maxGeneration?: number;
+  divine?: boolean;
+  hasParents?: boolean;
+  hasSpouse?: boolean;
+  hasChildren?: boolean;
+  /** In at least one union of this status. */
+  unionStatus?: UnionStatus;
+}
+
+/** A filter kept in the data file under a name, for the questions that keep
+ *  coming back ("everyone with no parents recorded"). */
+export interface SavedQuery {
+  name: string;
+  query: PersonQuery;
+}
+
+/** Something the search bar can find, with its words already folded by
+ *  core/search.ts (no diacritics, Latin script, spelling variants merged). */
+export interface SearchEntry {
+  kind: "person" | "family" | "place";
+  id: string;
+  label: string;
+  /** Words of the name (and altName): matched with typo tolerance. */
+  names: string[];
+  /** Words of the notes, region or distinguisher: matched by prefix only. */
+  text: string[];
+}
+
+/** What's left of a deleted person or union: its id and when it went, so that
+ *  merging an older copy that still has it doesn't bring it back. A record
+ *  folded into another by mergePerson names where it went. */
+export interface Tombstone {
+  id: string;
+  kind: "person" | "union";
+  /** The deleted record's key, so a different record that later took the same
+   *  id in another copy isn't buried with it. */
+  uid?: string;
+  deletedAt: string;
+  /** The id that replaced it; references to the old id are rewritten to it. */
+  absorbedInto?: string;
+}
+
 export interface FamilyDataV2 {
   meta: { schemaVersion: 2; exportedAt: string };
   families: Record<string, FamilyRecord>;
+  /** Place registry, keyed by id like `families`. Absent in files that predate it. */
+  places?: Record<string, PlaceRecord>;
+  /** Source registry that citations point into; also optional. */
+  sources?: Record<string, SourceRecord>;
+  /** Saved filters, in the order they're listed. Optional. */
+  queries?: SavedQuery[];
   people: PersonRecord[];
   unions: UnionRecord[];
+  /** Deleted people and unions, kept so merges honor the deletion. Optional. */
+  tombstones?: Tombstone[];
 }
 
 export interface FamilyAffiliation {
@@ -137,10 +288,14 @@ export interface Dataset {
   membersOfFamily: Map<string, Set<string>>;
   /** Deva id → the ids of its divine children (free-agent parentage). */
   divineChildrenOf: Map<string, string[]>;
+  /** Place id → everyone tied to it, and how (a person can be tied twice). */
+  peopleAtPlace: Map<string, { personId: string; tie: PlaceTie }[]>;
   /** Per-family display label; adds a distinguisher when a name is shared. */
   familyLabels: Map<string, FamilyLabel>;
   generations: Map<string, number>;
   componentOf: Map<string, number>;
+  /** Everyone, every family and every place, ready for core/search.ts. */
+  searchIndex: SearchEntry[];
 }
 
 export interface PersonNode {
@@ -200,12 +355,48 @@ export interface KinStep {
   status?: UnionStatus;
 }
 
+/** A field both sides changed, differently, since the copy they started from.
+ *  The merge keeps the local value until the conflict is resolved. */
+export interface MergeConflict {
+  kind: "person" | "union" | "family";
+  id: string;
+  /** Who or what the record is, for the report. */
+  label: string;
+  field: string;
+  base: unknown;
+  local: unknown;
+  incoming: unknown;
+}
+
+/** A person or union an import would add, change or remove, as the preview
+ *  lists it. Changes left unticked are undone before the import is applied. */
+export interface MergeChange {
+  kind: "person" | "union";
+  id: string;
+  label: string;
+  change: "added" | "updated" | "removed";
+  /** For an update, each field that changes: the local value, then the new one. */
+  fields: { field: string; before: unknown; after: unknown }[];
+  /** Everyone the change touches, to pick out in the graph. */
+  people: string[];
+}
+
 export interface MergeReport {
   peopleAdded: string[];
   peopleUpdated: string[];
   unionsAdded: number;
   unionsUpdated: number;
   familiesAdded: string[];
+  familiesUpdated: string[];
+  /** Incoming records renamed because their id was taken here by a different
+   *  person or union. */
+  idsRemapped: { kind: "person" | "union"; from: string; to: string }[];
+  /** Local people the incoming file had deleted or merged away. */
+  peopleRemoved: string[];
+  conflicts: MergeConflict[];
+  /** What converting their file had to leave out: GEDCOM families with no
+   *  known partners, unknown children, dates we can't express. */
+  warnings: string[];
 }
 
 export const personName = (p: {
@@ -213,6 +404,13 @@ export const personName = (p: {
   lastName: string;
 }): string => [p.firstName, p.lastName].filter(Boolean).join(" ");
 
+/** "Vadnagar, Gujarat", or just the name when no region is recorded. */
+export const placeName = (
+  place: PlaceRecord | undefined,
+  fallback = "",
+): string =>
+  place ? [place.name, place.region].filter(Boolean).join(", ") : fallback;
+
 /** "Pandya" normally; "Pandya · of Kevalji" when the name is shared by another lineage. */
 export const formatFamilyLabel = (
   label: FamilyLabel | undefined,
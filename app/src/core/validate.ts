@@ -1,11 +1,30 @@
-import type { FamilyDataV2, PersonRecord, RelativeAnchor, UnionRecord } from './types';
-import { isRelativeAnchor } from './types';
+import type { Citation, FamilyDataV2, PersonQuery, PersonRecord, RelativeAnchor, SavedQuery, Tombstone, UnionRecord } from './types';
+import { isRelativeAnchor, PERSON_FACTS, PERSON_PLACE_KEYS, UNION_FACTS } from './types';
+import { certainlyBefore, isValidDate } from './dates';
 
 export interface ValidationResult {
   errors: string[];
   warnings: string[];
 }
 
+export type WarningKind =
+  | 'query-family'
+  | 'divine-parent'
+  | 'duplicate-partners'
+  | 'birth-family'
+  | 'bad-date'
+  | 'date-order'
+  | 'dead-but-alive';
+
+/** A warning with what it's about, so the app can point at it and offer a fix. */
+export interface DataWarning {
+  kind: WarningKind;
+  message: string;
+  personId?: string;
+  unionId?: string;
+  queryName?: string;
+}
+
 const isRecord = (v: unknown): v is Record<string, unknown> =>
   typeof v === 'object' && v !== null && !Array.isArray(v);
 
@@ -23,26 +42,122 @@ const parseAnchor = (v: unknown): { genAnchor?: number | RelativeAnchor } => {
   return {};
 };
 
+/** A place reference, kept as-is when it's a non-empty string (validateData checks it resolves). */
+const parsePlaceField = <K extends string>(key: K, v: unknown): { [P in K]?: string } =>
+  typeof v === 'string' && v ? ({ [key]: v } as { [P in K]?: string }) : {};
+
+/** Citations with a string sourceId; a fact outside `facts` widens to the whole record. */
+const parseCitations = <F extends string>(v: unknown, facts: readonly F[]): { citations?: Citation<F>[] } => {
+  if (!Array.isArray(v)) return {};
+  const citations = v
+    .filter(c => isRecord(c) && typeof c.sourceId === 'string' && c.sourceId)
+    .map((c: Record<string, unknown>) => ({
+      sourceId: String(c.sourceId),
+      ...(typeof c.locator === 'string' && c.locator.trim() ? { locator: c.locator.trim() } : {}),
+      ...(facts.includes(c.fact as F) ? { fact: c.fact as F } : {}),
+    }));
+  return citations.length ? { citations } : {};
+};
+
+/** Keep a date as trimmed text (validateData judges it); drop blanks and non-strings. */
+const parseDateField = <K extends string>(key: K, v: unknown): { [P in K]?: string } =>
+  typeof v === 'string' && v.trim() ? ({ [key]: v.trim() } as { [P in K]?: string }) : {};
+
+/** A saved filter's fields, each kept only when it has the right type. */
+const parseQuery = (v: Record<string, unknown>): PersonQuery => {
+  const bool = <K extends keyof PersonQuery>(key: K) =>
+    typeof v[key] === 'boolean' ? ({ [key]: v[key] } as Pick<PersonQuery, K>) : {};
+  const int = <K extends keyof PersonQuery>(key: K) =>
+    Number.isInteger(v[key]) ? ({ [key]: v[key] } as Pick<PersonQuery, K>) : {};
+  return {
+    ...bool('alive'),
+    ...(v.gender === 'female' || v.gender === 'male' ? { gender: v.gender } : {}),
+    ...(typeof v.familyId === 'string' && v.familyId ? { familyId: v.familyId } : {}),
+    ...(v.affiliation === 'birth' || v.affiliation === 'adopted-into' || v.affiliation === 'married-into'
+      ? { affiliation: v.affiliation }
+      : {}),
+    ...int('minGeneration'),
+    ...int('maxGeneration'),
+    ...bool('divine'),
+    ...bool('hasParents'),
+    ...bool('hasSpouse'),
+    ...bool('hasChildren'),
+    ...(v.unionStatus === 'married' ||
+    v.unionStatus === 'divorced' ||
+    v.unionStatus === 'partners' ||
+    v.unionStatus === 'unknown'
+      ? { unionStatus: v.unionStatus }
+      : {}),
+  };
+};
+
 /**
  * Structural + referential validation of a v2 file. Errors make the file unusable;
  * warnings are data-quality issues the app tolerates.
  */
 export const validateData = (raw: FamilyDataV2): ValidationResult => {
+  const { errors, warnings } = checkData(raw);
+  return { errors, warnings: warnings.map(w => w.message) };
+};
+
+/** validateData, with each warning kept whole for the data-quality panel. */
+export const checkData = (raw: FamilyDataV2): { errors: string[]; warnings: DataWarning[] } => {
   const errors: string[] = [];
-  const warnings: string[] = [];
+  const warnings: DataWarning[] = [];
+  const warn = (kind: WarningKind, message: string, about: Omit<DataWarning, 'kind' | 'message'>) =>
+    warnings.push({ kind, message, ...about });
 
   if (raw.meta?.schemaVersion !== 2) {
     errors.push(`meta.schemaVersion must be 2 (got ${String(raw.meta?.schemaVersion)})`);
   }
 
+  const places = raw.places ?? {};
+  for (const [id, place] of Object.entries(places)) {
+    if (!place.name.trim()) errors.push(`place "${id}": empty name`);
+  }
+
+  const sources = raw.sources ?? {};
+  for (const [id, src] of Object.entries(sources)) {
+    if (!src.title.trim()) errors.push(`source "${id}": empty title`);
+  }
+  const queryNames = new Set<string>();
+  for (const q of raw.queries ?? []) {
+    if (!q.name.trim()) errors.push('saved query with an empty name');
+    else if (queryNames.has(q.name)) errors.push(`saved query "${q.name}": duplicate name`);
+    queryNames.add(q.name);
+    if (q.query.familyId !== undefined && !(q.query.familyId in raw.families)) {
+      warn('query-family', `saved query "${q.name}": unknown family "${q.query.familyId}"`, { queryName: q.name });
+    }
+  }
+
+  const checkCitations = (owner: string, citations: Citation[] | undefined) => {
+    for (const c of citations ?? []) {
+      if (!(c.sourceId in sources)) errors.push(`${owner}: citation of unknown source "${c.sourceId}"`);
+    }
+  };
+
+  // Keys are unique across people and unions alike.
+  const uids = new Set<string>();
+  const checkUid = (id: string, uid: string | undefined) => {
+    if (uid === undefined) return;
+    if (uids.has(uid)) errors.push(`"${id}": duplicate key "${uid}"`);
+    uids.add(uid);
+  };
+
   const personIds = new Set<string>();
   for (const p of raw.people) {
     if (!p.id) errors.push('person with empty id');
     else if (personIds.has(p.id)) errors.push(`duplicate person id "${p.id}"`);
     personIds.add(p.id);
+    checkUid(p.id, p.uid);
     if (p.birthFamilyId !== null && !(p.birthFamilyId in raw.families)) {
       errors.push(`person "${p.id}": unknown birthFamilyId "${p.birthFamilyId}"`);
     }
+    for (const key of PERSON_PLACE_KEYS) {
+      const placeId = p[key];
+      if (placeId !== undefined && !(placeId in places)) errors.push(`person "${p.id}": unknown ${key} "${placeId}"`);
+    }
+    checkCitations(`person "${p.id}"`, p.citations);
   }
 
   // Divine parentage: parents must exist and be marked divine (a free-agent link,
@@ -51,7 +166,9 @@ export const validateData = (raw: FamilyDataV2): ValidationResult => {
   for (const p of raw.people) {
     for (const dp of p.divineParents ?? []) {
       if (!personIds.has(dp)) errors.push(`person "${p.id}": unknown divineParent "${dp}"`);
-      else if (!divineById.get(dp)) warnings.push(`"${p.id}": divineParent "${dp}" is not marked divine`);
+      else if (!divineById.get(dp)) {
+        warn('divine-parent', `"${p.id}": divineParent "${dp}" is not marked divine`, { personId: dp });
+      }
     }
   }
 
@@ -103,6 +220,7 @@ export const validateData = (raw: FamilyDataV2): ValidationResult => {
     if (!u.id) errors.push('union with empty id');
     else if (unionIds.has(u.id)) errors.push(`duplicate union id "${u.id}"`);
     unionIds.add(u.id);
+    checkUid(u.id, u.uid);
 
     if (u.partners.length < 1 || u.partners.length > 2) {
       errors.push(`union "${u.id}": must have 1 or 2 partners (got ${u.partners.length})`);
@@ -115,12 +233,21 @@ export const validateData = (raw: FamilyDataV2): ValidationResult => {
     }
     const key = [...u.partners].sort().join('|');
     if (u.partners.length === 2) {
-      if (partnerKeys.has(key)) warnings.push(`unions share the same partner pair (${key})`);
+      if (partnerKeys.has(key)) {
+        warn('duplicate-partners', `unions share the same partner pair (${key})`, {
+          personId: u.partners[0],
+          unionId: u.id,
+        });
+      }
       partnerKeys.add(key);
     }
     if (u.familyId !== null && !(u.familyId in raw.families)) {
       errors.push(`union "${u.id}": unknown familyId "${u.familyId}"`);
     }
+    if (u.marriagePlaceId !== undefined && !(u.marriagePlaceId in places)) {
+      errors.push(`union "${u.id}": unknown marriagePlaceId "${u.marriagePlaceId}"`);
+    }
+    checkCitations(`union "${u.id}"`, u.citations);
 
     const adopted = u.adoptedChildren ?? [];
     for (const cid of u.children) {
@@ -140,19 +267,74 @@ export const validateData = (raw: FamilyDataV2): ValidationResult => {
     }
   }
 
+  // A tombstone says the record is gone; one that's also alive is a contradiction
+  // a merge couldn't settle.
+  const buried = new Set<string>();
+  for (const t of raw.tombstones ?? []) {
+    if (buried.has(t.id)) errors.push(`duplicate tombstone "${t.id}"`);
+    buried.add(t.id);
+    if (personIds.has(t.id) || unionIds.has(t.id)) errors.push(`"${t.id}" is both present and deleted`);
+  }
+
   // Data-quality warnings: biological children whose birth family disagrees with their union's family
   const peopleById = new Map(raw.people.map(p => [p.id, p]));
   for (const u of raw.unions) {
     for (const cid of u.children) {
       const child = peopleById.get(cid);
       if (child && child.birthFamilyId !== u.familyId) {
-        warnings.push(
+        warn(
+          'birth-family',
           `"${cid}": birthFamilyId "${child.birthFamilyId}" differs from union "${u.id}" familyId "${u.familyId}"`,
+          { personId: cid, unionId: u.id },
         );
       }
     }
   }
 
+  // Dates are data quality, never fatal: a malformed one is shown as written, and
+  // only orderings that are certainly impossible are flagged.
+  const DATE_HELP = 'use e.g. 1947-08-15, 1947, c. 1920, before 1950, 1920/1925';
+  for (const p of raw.people) {
+    for (const key of ['birthDate', 'deathDate'] as const) {
+      const d = p[key];
+      if (d !== undefined && !isValidDate(d)) {
+        warn('bad-date', `"${p.id}": ${key} "${d}" is not a date (${DATE_HELP})`, { personId: p.id });
+      }
+    }
+    if (p.birthDate && p.deathDate && certainlyBefore(p.deathDate, p.birthDate)) {
+      warn('date-order', `"${p.id}": died (${p.deathDate}) before being born (${p.birthDate})`, { personId: p.id });
+    }
+    if (p.deathDate && p.alive) {
+      warn('dead-but-alive', `"${p.id}": has a deathDate but is marked alive`, { personId: p.id });
+    }
+  }
+  for (const u of raw.unions) {
+    if (u.marriageDate !== undefined && !isValidDate(u.marriageDate)) {
+      warn('bad-date', `union "${u.id}": marriageDate "${u.marriageDate}" is not a date (${DATE_HELP})`, {
+        personId: u.partners[0],
+        unionId: u.id,
+      });
+    }
+    for (const pid of u.partners) {
+      const partner = peopleById.get(pid);
+      if (u.marriageDate && partner?.birthDate && certainlyBefore(u.marriageDate, partner.birthDate)) {
+        warn('date-order', `union "${u.id}": married (${u.marriageDate}) before "${pid}" was born (${partner.birthDate})`, {
+          personId: pid,
+          unionId: u.id,
+        });
+      }
+      for (const cid of [...u.children, ...(u.adoptedChildren ?? [])]) {
+        const child = peopleById.get(cid);
+        if (partner?.birthDate && child?.birthDate && certainlyBefore(child.birthDate, partner.birthDate)) {
+          warn('date-order', `"${cid}": born (${child.birthDate}) before their parent "${pid}" (${partner.birthDate})`, {
+            personId: cid,
+            unionId: u.id,
+          });
+        }
+      }
+    }
+  }
+
   return { errors, warnings };
 };
 
@@ -177,12 +359,20 @@ export const parseFamilyData = (
 
   const people: PersonRecord[] = (json.people as Record<string, unknown>[]).map(p => ({
     id: String(p.id ?? ''),
+    ...(typeof p.uid === 'string' && p.uid ? { uid: p.uid } : {}),
     firstName: String(p.firstName ?? ''),
     lastName: String(p.lastName ?? ''),
     gender: p.gender === 'female' ? 'female' : 'male',
     alive: p.alive !== false,
     birthFamilyId: p.birthFamilyId == null ? null : String(p.birthFamilyId),
     ...(p.notes ? { notes: String(p.notes) } : {}),
+    ...parseDateField('birthDate', p.birthDate),
+    ...parseDateField('deathDate', p.deathDate),
+    ...parsePlaceField('birthPlaceId', p.birthPlaceId),
+    ...parsePlaceField('deathPlaceId', p.deathPlaceId),
+    ...parsePlaceField('residencePlaceId', p.residencePlaceId),
+    ...parsePlaceField('nativePlaceId', p.nativePlaceId),
+    ...parseCitations(p.citations, PERSON_FACTS),
     updatedAt: String(p.updatedAt ?? new Date(0).toISOString()),
     ...(p.divine === true ? { divine: true } : {}),
     ...(Array.isArray(p.divineParents) && p.divineParents.length
@@ -195,6 +385,7 @@ export const parseFamilyData = (
 
   const unions: UnionRecord[] = (json.unions as Record<string, unknown>[]).map(u => ({
     id: String(u.id ?? ''),
+    ...(typeof u.uid === 'string' && u.uid ? { uid: u.uid } : {}),
     partners: Array.isArray(u.partners) ? u.partners.map(String) : [],
     children: Array.isArray(u.children) ? u.children.map(String) : [],
     adoptedChildren: Array.isArray(u.adoptedChildren) ? u.adoptedChildren.map(String) : [],
@@ -206,6 +397,9 @@ export const parseFamilyData = (
     ...(typeof u.order === 'number' ? { order: u.order } : {}),
     ...(typeof u.childGap === 'number' && u.childGap >= 1 ? { childGap: u.childGap } : {}),
     ...(u.notes ? { notes: String(u.notes) } : {}),
+    ...parseDateField('marriageDate', u.marriageDate),
+    ...parsePlaceField('marriagePlaceId', u.marriagePlaceId),
+    ...parseCitations(u.citations, UNION_FACTS),
     updatedAt: String(u.updatedAt ?? new Date(0).toISOString()),
   }));
 
@@ -216,16 +410,72 @@ export const parseFamilyData = (
         name: String(f.name ?? id.replace(/^family/, '')),
         color: String(f.color ?? '#8a93a6'),
         ...(f.note ? { note: String(f.note) } : {}),
+        ...(f.gotra ? { gotra: String(f.gotra) } : {}),
       };
     }
   }
 
+  // Optional: files written before the registry existed simply have no places.
+  const places: FamilyDataV2['places'] = {};
+  if (isRecord(json.places)) {
+    for (const [id, pl] of Object.entries(json.places)) {
+      if (isRecord(pl)) {
+        places[id] = {
+          name: String(pl.name ?? id.replace(/^place/, '')),
+          ...(pl.region ? { region: String(pl.region) } : {}),
+        };
+      }
+    }
+  }
+
+  const sources: FamilyDataV2['sources'] = {};
+  if (isRecord(json.sources)) {
+    for (const [id, src] of Object.entries(json.sources)) {
+      if (isRecord(src)) {
+        sources[id] = {
+          title: String(src.title ?? id.replace(/^source/, '')),
+          ...(src.author ? { author: String(src.author) } : {}),
+          ...(src.url ? { url: String(src.url) } : {}),
+          ...(src.note ? { note: String(src.note) } : {}),
+        };
+      }
+    }
+  }
+
+  // A saved filter without a name, or with one already taken, is dropped rather
+  // than failing the whole file over it.
+  const dropped: string[] = [];
+  const queries: SavedQuery[] = [];
+  for (const q of Array.isArray(json.queries) ? json.queries.filter(isRecord) : []) {
+    const name = String(q.name ?? '');
+    if (!name.trim()) dropped.push('saved query with an empty name, dropped');
+    else if (queries.some(x => x.name === name)) dropped.push(`saved query "${name}": duplicate name, dropped`);
+    else queries.push({ name, query: isRecord(q.query) ? parseQuery(q.query) : {} });
+  }
+
+  const tombstones: Tombstone[] = Array.isArray(json.tombstones)
+    ? json.tombstones
+        .filter(isRecord)
+        .filter(t => typeof t.id === 'string' && t.id && (t.kind === 'person' || t.kind === 'union'))
+        .map(t => ({
+          id: String(t.id),
+          kind: t.kind === 'union' ? 'union' : 'person',
+          ...(typeof t.uid === 'string' && t.uid ? { uid: t.uid } : {}),
+          deletedAt: String(t.deletedAt ?? new Date(0).toISOString()),
+          ...(typeof t.absorbedInto === 'string' && t.absorbedInto ? { absorbedInto: t.absorbedInto } : {}),
+        }))
+    : [];
+
   const raw: FamilyDataV2 = {
     meta: { schemaVersion: 2, exportedAt: String((json.meta as Record<string, unknown>)?.exportedAt ?? new Date(0).toISOString()) },
     families,
+    ...(Object.keys(places).length ? { places } : {}),
+    ...(Object.keys(sources).length ? { sources } : {}),
+    ...(queries.length ? { queries } : {}),
     people,
     unions,
+    ...(tombstones.length ? { tombstones } : {}),
   };
   const { errors, warnings } = validateData(raw);
-  return { raw: errors.length ? null : raw, errors, warnings };
+  return { raw: errors.length ? null : raw, errors, warnings: [...dropped, ...warnings] };
 };
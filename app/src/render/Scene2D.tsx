@@ -3,6 +3,7 @@ import ForceGraph2D, { type ForceGraphMethods } from 'react-force-graph-2d';
 import type { Gender, GraphLink, GraphNode } from '../core/types';
 import { BACKGROUND_COLOR, dimToward, mixHex } from '../core/colors';
 import { computeLayout2d } from '../core/layout2d';
+import { runQuery } from '../core/query';
 import { familyView, largestFamily, subgraphForFamily } from '../core/family2d';
 import { useStore } from '../state/store';
 import { computeVisuals, type VisualState } from './visuals';
@@ -53,6 +54,8 @@ export default function Scene2D() {
   const family2d = useStore(s => s.family2d);
   const focusId = useStore(s => s.focusId);
   const relation = useStore(s => s.relation);
+  const query = useStore(s => s.query);
+  const mergeChanges = useStore(s => s.mergeChanges);
   const cameraRequest = useStore(s => s.cameraRequest);
   const clickPerson = useStore(s => s.clickPerson);
   const backgroundClick = useStore(s => s.backgroundClick);
@@ -87,6 +90,17 @@ export default function Scene2D() {
     return { nodes, links: sub.links.map(l => ({ ...l })) };
   }, [graph, dataset, activeFamily]);
 
+  // An import preview picks out who it touches the way a filter does.
+  const queryMatches = useMemo(
+    () =>
+      mergeChanges
+        ? new Set(mergeChanges.flatMap(c => c.people))
+        : dataset && query
+          ? new Set(runQuery(dataset, query))
+          : null,
+    [dataset, query, mergeChanges],
+  );
+
   const visuals = useMemo(() => {
     if (!dataset || !graph) return null;
     return computeVisuals(dataset, graph, {
@@ -96,13 +110,15 @@ export default function Scene2D() {
       relationActive: relation.active,
       relationSteps: relation.steps,
       relationEndpoints: [relation.aId, relation.bId],
+      queryMatches,
     });
-  }, [dataset, graph, focusId, relation]);
+  }, [dataset, graph, focusId, relation, queryMatches]);
   visualRef.current = visuals;
 
   const nodeOpacity = useCallback((node: FG2Node): number => {
     const vis = visualRef.current;
     if (vis?.pathSet) return vis.pathSet.has(node.id) ? 1 : 0.12;
+    if (vis?.querySet && !vis.querySet.has(node.id)) return 0.12;
     return node.ext ? 0.5 : 1;
   }, []);
 
@@ -257,6 +273,7 @@ export default function Scene2D() {
         l.kind === 'child' && nb?.kind === 'person'
           ? GENDER_LINK[nb.gender]
           : linkBaseColor(l);
+      if (vis?.querySet && !(vis.querySet.has(a) && vis.querySet.has(b))) return dimToward(base, 0.85);
       const faded = na?.ext || nb?.ext;
       return faded ? dimToward(base, 0.4) : base;
     };
@@ -326,22 +343,11 @@ export default function Scene2D() {
     [clickPerson],
   );
 
-  const shareFamily = useCallback(() => {
-    if (!activeFamily) return;
-    const url = new URL(window.location.href);
-    url.searchParams.set('family', activeFamily);
-    url.searchParams.delete('edit'); // a shared link must never carry the edit key
-    const link = url.toString();
-    const done = () =>
-      useStore.getState().showToast('Link copied, it opens on this family tree');
-    if (navigator.clipboard?.writeText) {
-      navigator.clipboard
-        .writeText(link)
-        .then(done, () => window.prompt('Copy this link:', link));
-    } else {
-      window.prompt('Copy this link:', link);
-    }
-  }, [activeFamily]);
+  // The URL already carries ?family=activeFamily (see syncShareParams).
+  const shareFamily = useCallback(
+    () => useStore.getState().copyShareLink('Link copied, it opens on this family tree'),
+    [],
+  );
 
   const familyName = activeFamily
     ? dataset?.raw.families[activeFamily]?.name ?? 'this family'
@@ -367,13 +373,22 @@ export default function Scene2D() {
         onBackgroundClick={backgroundClick}
       />
       {activeFamily && (
-        <button
-          className="btn share-btn"
-          onClick={shareFamily}
-          title={`Copy a link that opens the ${familyName} tree`}
-        >
-          ⤴ Share
-        </button>
+        <div className="share-actions">
+          <button
+            className="btn share-btn"
+            onClick={() => useStore.getState().exportGedcom(activeFamily)}
+            title={`Download the ${familyName} tree as a GEDCOM file for genealogy software`}
+          >
+            ⤓ GEDCOM
+          </button>
+          <button
+            className="btn share-btn"
+            onClick={shareFamily}
+            title={`Copy a link that opens the ${familyName} tree`}
+          >
+            ⤴ Share
+          </button>
+        </div>
       )}
     </div>
   );
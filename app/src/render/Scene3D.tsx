@@ -5,6 +5,7 @@ import SpriteText from 'three-spritetext';
 import type { Gender, GraphLink, GraphNode, Vec3 } from '../core/types';
 import { personName } from '../core/types';
 import { BACKGROUND_COLOR, dimToward } from '../core/colors';
+import { runQuery } from '../core/query';
 import { useStore } from '../state/store';
 import { computeVisuals, type VisualState } from './visuals';
 
@@ -154,6 +155,8 @@ export default function Scene3D() {
   const lensFamilyId = useStore(s => s.lensFamilyId);
   const isolateComponent = useStore(s => s.isolateComponent);
   const relation = useStore(s => s.relation);
+  const query = useStore(s => s.query);
+  const mergeChanges = useStore(s => s.mergeChanges);
   const cameraRequest = useStore(s => s.cameraRequest);
   const clickPerson = useStore(s => s.clickPerson);
   const isolatePerson = useStore(s => s.isolatePerson);
@@ -174,6 +177,17 @@ export default function Scene3D() {
     return { nodes, links };
   }, [graph, layout]);
 
+  // An import preview picks out who it touches the way a filter does.
+  const queryMatches = useMemo(
+    () =>
+      mergeChanges
+        ? new Set(mergeChanges.flatMap(c => c.people))
+        : dataset && query
+          ? new Set(runQuery(dataset, query))
+          : null,
+    [dataset, query, mergeChanges],
+  );
+
   const visuals = useMemo(() => {
     if (!dataset || !graph) return null;
     return computeVisuals(dataset, graph, {
@@ -183,8 +197,9 @@ export default function Scene3D() {
       relationActive: relation.active,
       relationSteps: relation.steps,
       relationEndpoints: [relation.aId, relation.bId],
+      queryMatches,
     });
-  }, [dataset, graph, focusId, lensFamilyId, isolateComponent, relation]);
+  }, [dataset, graph, focusId, lensFamilyId, isolateComponent, relation, queryMatches]);
   visualRef.current = visuals;
 
   // Names stay visible even from afar on human-scale trees; distance culling
@@ -8,6 +8,9 @@ export interface VisualState {
   glow: Set<string>;
   /** Node ids on the active relation path (persons + bridging unions), or null. */
   pathSet: Set<string> | null;
+  /** People a filter matches, plus the unions between them; null when no
+   *  filter is doing the dimming. */
+  querySet: Set<string> | null;
 }
 
 export interface VisualInputs {
@@ -17,12 +20,15 @@ export interface VisualInputs {
   relationActive: boolean;
   relationSteps: KinStep[] | null;
   relationEndpoints: (string | null)[];
+  /** People the active filter matches, or null for no filter. */
+  queryMatches: Set<string> | null;
 }
 
 const DIM_LENS = 0.04;
 const DIM_FOCUS = 0.15;
 const DIM_ISOLATE = 0.03;
 const DIM_RELATION = 0.06;
+const DIM_QUERY = 0.08;
 
 const findUnionIdBetween = (ds: Dataset, a: string, b: string): string | null => {
   for (const uid of ds.unionsOf.get(a) ?? []) {
@@ -90,6 +96,19 @@ export const computeVisuals = (
   const neighborhood =
     inputs.focusId && !inputs.relationActive ? focusNeighborhood(ds, inputs.focusId) : null;
 
+  // A filter dims like a lens, under the relation path and an isolated island.
+  const querySet =
+    inputs.queryMatches && !inputs.relationActive && inputs.isolateComponent === null
+      ? new Set(inputs.queryMatches)
+      : null;
+  if (querySet) {
+    for (const node of graph.nodes) {
+      if (node.kind === 'union' && ds.unions.get(node.unionId)?.partners.every(p => querySet.has(p))) {
+        querySet.add(node.id);
+      }
+    }
+  }
+
   const unionInLens = (unionId: string): boolean => {
     if (!lensMembers || !inputs.lensFamilyId) return true;
     const u = ds.unions.get(unionId);
@@ -120,10 +139,11 @@ export const computeVisuals = (
       }
       let focusFactor = 1;
       if (neighborhood) focusFactor = neighborhood.has(node.id) ? 1 : DIM_FOCUS;
-      factor = Math.min(lensFactor, focusFactor);
+      const queryFactor = querySet && !querySet.has(node.id) ? DIM_QUERY : 1;
+      factor = Math.min(lensFactor, focusFactor, queryFactor);
     }
     nodeOpacity.set(node.id, base * factor);
   }
 
-  return { nodeOpacity, glow, pathSet };
+  return { nodeOpacity, glow, pathSet, querySet };
 };
@@ -19,8 +19,8 @@ export const purgeLegacyBrowserData = (): void => {
   }
 };
 
-export const downloadFile = (name: string, text: string): void => {
-  const blob = new Blob([text], { type: 'application/json' });
+export const downloadFile = (name: string, text: string, type = 'application/json'): void => {
+  const blob = new Blob([text], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
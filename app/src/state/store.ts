@@ -4,7 +4,10 @@ import type {
   FamilyDataV2,
   Graph,
   KinStep,
+  MergeChange,
+  MergeConflict,
   MergeReport,
+  PersonPlaceKey,
   UnionStatus,
   Vec3,
 } from "../core/types";
@@ -13,24 +16,77 @@ import { largestFamily, primaryFamilyOf } from "../core/family2d";
 import { buildGraph } from "../core/graph";
 import { computeLayout } from "../core/layout";
 import { parseFamilyData, validateData } from "../core/validate";
-import { mergeData } from "../core/merge";
-import { serialize } from "../core/exporter";
-import { nameRelation, shortestKinPath } from "../core/kinship";
+import {
+  mergeChanges,
+  mergeData,
+  takeIncoming,
+  withoutChanges,
+} from "../core/merge";
+import {
+  applyPatch,
+  looksLikePatch,
+  parsePatch,
+  patchFromHistory,
+  serializePatch,
+} from "../core/patch";
+import {
+  serialize,
+  serializeGedcom,
+  serializeRelationTable,
+} from "../core/exporter";
+import { importGedcom, looksLikeGedcom } from "../core/gedcom";
+import { withUids } from "../core/ids";
+import {
+  allKinRelations,
+  commonAncestors,
+  KIN_RELATIONS_MAX,
+  KIN_SEARCH_HOPS,
+  nameRelation,
+  type CommonAncestry,
+  type KinRelation,
+  type KinTableRow,
+} from "../core/kinship";
+import { DEFAULT_KIN_LOCALES } from "../core/kinlocales";
+import { coefficientOfRelationship } from "../core/consanguinity";
+import type { DataIssue } from "../core/quality";
+import { pairKey } from "../core/duplicates";
+import {
+  checkEligibility,
+  DEFAULT_ELIGIBILITY_RULES,
+  type Eligibility,
+  type EligibilityRules,
+} from "../core/eligibility";
+import {
+  emptyHistory,
+  recordEdit,
+  redoEdit,
+  travelTo,
+  undoEdit,
+  type History,
+} from "../core/history";
 import {
   addFamily,
   deletePerson,
+  editUnion,
+  ensurePlace,
   growChild,
   growParent,
   growSpouse,
   mergePerson,
   moveChildInUnion,
+  sortChildrenByBirth,
   addPerson,
+  deleteQuery,
+  saveQuery,
   updateFamily,
   updatePerson,
   updateUnion,
   type PersonFields,
+  type UnionEdit,
 } from "../core/mutate";
-import type { FamilyRecord } from "../core/types";
+import { isEmptyQuery } from "../core/query";
+import type { FamilyRecord, PersonQuery } from "../core/types";
+import { personName } from "../core/types";
 
 // Secret that unlocks editing via ?edit=<key>. Edit tools are gated purely on
 // this URL param each load — never persisted — so the app defaults to a plain
@@ -64,6 +120,19 @@ export interface RelationState {
   /** Sanskrit (Gujarati) term for the relation, when we have one. */
   local: string | null;
   chain: { personId: string; label: string }[] | null;
+  /** Every way B is related to A (allKinRelations); the fields above mirror
+   *  the one being shown, `paths[pathIndex]`. */
+  paths: KinRelation[] | null;
+  pathIndex: number;
+  /** Who A and B are related through, when they share blood (or adoptive)
+   *  ancestry at all; empty for in-laws. */
+  ancestry: CommonAncestry[] | null;
+  /** Whether A and B could marry under `eligibilityRules`; checked even when
+   *  they aren't related at all. */
+  eligibility: Eligibility | null;
+  /** Wright's coefficient of relationship: the share of genes A and B have in
+   *  common by descent, 0 for in-laws. */
+  relatedness: number | null;
   noRelation: boolean;
 }
 
@@ -77,11 +146,30 @@ export interface FormPayload {
   existingId?: string | null;
   status?: UnionStatus;
   unionFamilyId?: string | null;
-  unionStatusPatches?: { unionId: string; status: UnionStatus }[];
+  /** Edit: per-union status and marriage date (undefined clears the date). */
+  unionPatches?: {
+    unionId: string;
+    status: UnionStatus;
+    marriageDate?: string;
+  }[];
+  /** +Spouse: when the new marriage began. */
+  marriageDate?: string;
+  /** Place names as typed; each is resolved to a registry id (new names are
+   *  added). A blank entry clears that place. */
+  places?: Partial<Record<PersonPlaceKey, string>>;
+  /** +Spouse: where the new marriage began, as typed. */
+  marriagePlace?: string;
   /** +Spouse: existing children of the anchor to also assign to this marriage. */
   childIds?: string[];
 }
 
+/** The union editor's save: the edit itself, with the marriage place as typed
+ *  (resolved against the registry like the person form's places). */
+export interface UnionEditPayload {
+  edit: UnionEdit;
+  marriagePlace: string;
+}
+
 const emptyRelation: RelationState = {
   active: false,
   aId: null,
@@ -90,6 +178,11 @@ const emptyRelation: RelationState = {
   name: null,
   local: null,
   chain: null,
+  paths: null,
+  pathIndex: 0,
+  ancestry: null,
+  eligibility: null,
+  relatedness: null,
   noRelation: false,
 };
 
@@ -148,7 +241,16 @@ interface AppState {
   family2d: string | null;
   isolateComponent: number | null;
   relation: RelationState;
+  /** Locale packs (kinlocales.ts) the relation finder names relations in, in
+   *  the order they're shown: the first leads, the rest follow in brackets. */
+  kinLocales: string[];
+  /** What the relation panel answers: how A and B are related, or whether
+   *  they could marry. */
+  relationView: "kinship" | "eligibility";
+  eligibilityRules: EligibilityRules;
   cameraRequest: CameraRequest | null;
+  /** Place the search bar is listing people for, or null for normal search. */
+  searchPlaceId: string | null;
 
   isDraft: boolean;
   dirty: boolean;
@@ -160,12 +262,41 @@ interface AppState {
   form: { mode: FormMode; anchorId: string | null } | null;
   formError: string | null;
   mergeReport: MergeReport | null;
+  /** An import waiting in the preview: the merged data, local values in every
+   *  conflicting field. Null once applied or cancelled. */
+  pendingMerge: FamilyDataV2 | null;
+  /** What the pending import came from, heading its Undo label: "Imported a
+   *  file", or "Applied changes from a patch (2 edits)". */
+  pendingSource: string | null;
+  /** What the pending import would change, for the preview to list and the
+   *  graph to pick out. */
+  mergeChanges: MergeChange[] | null;
+  importOpen: boolean;
   importErrors: string[] | null;
   confirmReset: boolean;
   confirmDelete: string | null;
   /** Person kept when a "same person" merge dialog is open; the other is absorbed. */
   mergeKeepId: string | null;
+  /** Suggested duplicate the merge dialog opens with already picked. */
+  mergeAbsorbId: string | null;
+  /** Suggested duplicates judged "not the same person" this session, by
+   *  pairKey (core/duplicates.ts). */
+  dismissedDuplicates: string[];
   familyEditorOpen: boolean;
+  /** Union open in the union editor (status, order, children…), or null. */
+  unionEditorId: string | null;
+  unionEditorError: string | null;
+  /** Person whose relation to everyone else the relationship table lists. */
+  relationTableId: string | null;
+  /** Undo/redo stack for this session's edits; cleared whenever the file is
+   *  (re)loaded, since its snapshots belong to the file they were taken from. */
+  history: History;
+  historyOpen: boolean;
+  /** The filter dimming everyone it doesn't match (core/query.ts), or null. */
+  query: PersonQuery | null;
+  queryPanelOpen: boolean;
+  /** The data-quality panel: validation warnings and lints (core/quality.ts). */
+  qualityOpen: boolean;
   hintDismissed: boolean;
   toast: string | null;
 
@@ -178,12 +309,18 @@ interface AppState {
   fitView: () => void;
   clearFocus: () => void;
   setLens: (familyId: string | null) => void;
+  searchPlace: (placeId: string | null) => void;
   isolatePerson: (id: string) => void;
   backgroundClick: () => void;
   escape: () => void;
 
   toggleRelationMode: () => void;
   clearRelationPicks: () => void;
+  /** Show (and light up) another of the relations between A and B. */
+  showRelationPath: (index: number) => void;
+  toggleKinLocale: (id: string) => void;
+  setRelationView: (view: AppState["relationView"]) => void;
+  setEligibilityRules: (patch: Partial<EligibilityRules>) => void;
 
   openForm: (mode: FormMode, anchorId?: string | null) => void;
   closeForm: () => void;
@@ -191,25 +328,64 @@ interface AppState {
   requestDelete: (id: string) => void;
   cancelDelete: () => void;
   confirmDeleteNow: () => void;
-  openMerge: (keepId: string) => void;
+  openMerge: (keepId: string, absorbId?: string) => void;
   cancelMerge: () => void;
   confirmMerge: (absorbId: string) => void;
   reorderChild: (unionId: string, childId: string, dir: -1 | 1) => void;
+  sortChildrenByAge: (unionId: string) => void;
   openFamilyEditor: () => void;
   closeFamilyEditor: () => void;
   updateFamilyRecord: (familyId: string, patch: Partial<FamilyRecord>) => void;
+  openUnionEditor: (unionId: string) => void;
+  closeUnionEditor: () => void;
+  openRelationTable: (personId: string) => void;
+  closeRelationTable: () => void;
+  /** Download the table's rows, as filtered and sorted on screen, as CSV. */
+  exportRelationTable: (rows: KinTableRow[]) => void;
+  saveUnion: (payload: UnionEditPayload) => void;
   lockEditing: () => void;
+  undo: () => void;
+  redo: () => void;
+  /** Go straight to the point where `applied` recorded edits are in effect. */
+  jumpToHistory: (applied: number) => void;
+  toggleHistory: () => void;
+  toggleQueryPanel: () => void;
+  setQuery: (query: PersonQuery | null) => void;
+  /** Save the current filter into the data file under a name. */
+  saveCurrentQuery: (name: string) => void;
+  deleteSavedQuery: (name: string) => void;
+  toggleQualityPanel: () => void;
+  applyIssueFix: (issue: DataIssue) => void;
+  /** Take a suggested pair out of the duplicates queue for this session. */
+  dismissDuplicate: (keepId: string, absorbId: string) => void;
 
-  importText: (text: string) => void;
+  openImport: () => void;
+  closeImport: () => void;
+  /** Merge a relative's file in as a preview; with `baseText`, the copy they
+   *  started from, field by field. A patch is applied instead, edit by edit.
+   *  Nothing changes until resolveMerge. */
+  importText: (text: string, baseText?: string) => void;
+  /** Commit the previewed merge, the listed conflicts taking the incoming
+   *  value and the rest keeping the local one, less the unticked changes. */
+  resolveMerge: (
+    takeTheirs: MergeConflict[],
+    rejected: MergeChange[],
+  ) => void;
   closeMergeReport: () => void;
   closeImportErrors: () => void;
   saveToFile: () => Promise<void>;
   exportDownload: () => void;
+  /** Download the edits in the undo history as a patch for a relative. */
+  exportPatch: () => void;
+  /** Download GEDCOM for the whole dataset, or just one family's tree. */
+  exportGedcom: (familyId?: string | null) => void;
   requestReset: () => void;
   cancelReset: () => void;
   confirmResetNow: () => Promise<void>;
   dismissHint: () => void;
   showToast: (msg: string) => void;
+  /** Copy a link to the view on screen, then toast `done`. */
+  copyShareLink: (done: string) => void;
   clearToast: () => void;
 }
 
@@ -225,16 +401,44 @@ const cam = (req: CameraRequestInput): CameraRequest => ({
   seq: ++cameraSeq,
 });
 
-// The family currently on screen is mirrored into this URL param (via
-// replaceState, so it never grows browser history) so copying the address bar
-// shares the same family with whoever opens the link.
-const FAMILY_PARAM = "family";
-const syncFamilyParam = (familyId: string | null) => {
+// What's on screen is mirrored into URL params (via replaceState, so it never
+// grows browser history) so copying the address bar shares the same view with
+// whoever opens the link: the family (in 2D family2d, in 3D the lens), the
+// focused person, the relation pair, the isolated island and the view mode.
+const SHARE_PARAMS = {
+  family: "family",
+  person: "person",
+  relationA: "a",
+  relationB: "b",
+  isolate: "isolate",
+  view: "view",
+} as const;
+
+const defaultViewMode = (source: DataSource): "2d" | "3d" =>
+  isShowcase(source) ? "3d" : "2d";
+
+const syncShareParams = (s: AppState) => {
   if (typeof window === "undefined") return;
   const url = new URL(window.location.href);
-  if (familyId) url.searchParams.set(FAMILY_PARAM, familyId);
-  else url.searchParams.delete(FAMILY_PARAM);
-  window.history.replaceState(null, "", url);
+  const put = (key: string, value: string | null) => {
+    if (value) url.searchParams.set(key, value);
+    else url.searchParams.delete(key);
+  };
+  const { relation } = s;
+  put(SHARE_PARAMS.family, s.viewMode === "2d" ? s.family2d : s.lensFamilyId);
+  put(SHARE_PARAMS.person, s.focusId);
+  put(SHARE_PARAMS.relationA, relation.active ? relation.aId : null);
+  put(SHARE_PARAMS.relationB, relation.active ? relation.bId : null);
+  put(
+    SHARE_PARAMS.isolate,
+    s.isolateComponent === null ? null : String(s.isolateComponent),
+  );
+  put(
+    SHARE_PARAMS.view,
+    s.viewMode === defaultViewMode(s.dataSource) ? null : s.viewMode,
+  );
+  if (url.href !== window.location.href)
+    window.history.replaceState(null, "", url);
 };
 
 const deriveAll = (raw: FamilyDataV2) => {
@@ -262,26 +466,122 @@ const postDataFile = async (text: string, file: string): Promise<boolean> => {
 
 export const useStore = create<AppState>((set, get) => {
   // Debounced write-through to family-data.json on the dev server (local editing).
+  // The target file is fixed when the write is scheduled, and only a write of
+  // the data still on screen clears `dirty`: an undo landing mid-request stays
+  // unsaved until its own write goes through.
   let devWriteTimer: ReturnType<typeof setTimeout> | undefined;
   const scheduleDevWrite = (raw: FamilyDataV2) => {
     if (devWriteTimer) clearTimeout(devWriteTimer);
+    const file = DATA_FILES[get().dataSource];
     devWriteTimer = setTimeout(async () => {
-      const ok = await postDataFile(
-        serialize(raw),
-        DATA_FILES[get().dataSource],
-      );
-      if (ok) set({ dirty: false });
+      const ok = await postDataFile(serialize(raw), file);
+      if (ok && get().raw === raw) set({ dirty: false });
     }, 700);
   };
+  const cancelDevWrite = () => {
+    if (devWriteTimer) clearTimeout(devWriteTimer);
+    devWriteTimer = undefined;
+  };
+
+  // Closing the import preview drops the import it was holding; so does any
+  // edit, undo or redo, since the preview was worked out against the old data.
+  const noPreview = {
+    mergeReport: null,
+    pendingMerge: null,
+    pendingSource: null,
+    mergeChanges: null,
+  } as const;
 
-  /** Apply a data mutation: re-derive everything and write through to
-   *  family-data.json on the dev server. The file is the only persistence:
-   *  nothing is ever stored in the browser. */
-  const commit = (raw: FamilyDataV2) => {
-    set({ ...deriveAll(raw), isDraft: true, dirty: true });
+  /** Apply a data mutation: re-derive everything, record it for Undo under a
+   *  human label, and write through to family-data.json on the dev server. The
+   *  file is the only persistence: nothing is ever stored in the browser. */
+  const commit = (next: FamilyDataV2, label: string) => {
+    // What an import brought in from an older file gets its keys here.
+    const raw = withUids(next);
+    const before = get().raw;
+    set({
+      ...deriveAll(raw),
+      ...noPreview,
+      isDraft: true,
+      dirty: true,
+      ...(before
+        ? { history: recordEdit(get().history, label, before, raw) }
+        : {}),
+    });
     if (get().editUnlocked) scheduleDevWrite(raw);
   };
 
+  /** Show an import, merged or patched in, as a preview to tick through, or
+   *  its errors when the result wouldn't validate. */
+  const previewImport = (
+    merged: FamilyDataV2,
+    report: MergeReport,
+    source = "Imported a file",
+  ) => {
+    const s = get();
+    if (!s.raw) return;
+    const { errors } = validateData(merged);
+    if (errors.length) {
+      set({
+        importErrors: [
+          "merge would corrupt the dataset:",
+          ...errors.slice(0, 8),
+        ],
+      });
+      return;
+    }
+    // Nothing is applied yet: the preview shares the right-hand side.
+    set({
+      mergeReport: report,
+      pendingMerge: merged,
+      pendingSource: source,
+      mergeChanges: mergeChanges(s.raw, merged),
+      historyOpen: false,
+      queryPanelOpen: false,
+      qualityOpen: false,
+    });
+  };
+
+  /** Put an earlier (or undone) snapshot back on screen. Anything the view was
+   *  pointing at that the snapshot doesn't have is let go, and the write-through
+   *  runs exactly as for a fresh edit. */
+  const restore = (raw: FamilyDataV2, history: History, toast: string) => {
+    const s = get();
+    const derived = deriveAll(raw);
+    const hasPerson = (id: string | null) =>
+      id !== null && derived.dataset.people.has(id);
+    const hasFamily = (id: string | null) => id !== null && id in raw.families;
+    set({
+      ...derived,
+      ...noPreview,
+      history,
+      isDraft: true,
+      dirty: true,
+      toast,
+      focusId: hasPerson(s.focusId) ? s.focusId : null,
+      // A named relation may no longer hold; keep the mode, drop the picks.
+      relation: s.relation.aId
+        ? { ...emptyRelation, active: s.relation.active }
+        : s.relation,
+      lensFamilyId: hasFamily(s.lensFamilyId) ? s.lensFamilyId : null,
+      family2d: hasFamily(s.family2d)
+        ? s.family2d
+        : largestFamily(derived.dataset),
+      form: null,
+      formError: null,
+      confirmDelete: null,
+      mergeKeepId: null,
+      unionEditorId: null,
+      unionEditorError: null,
+    });
+    if (s.editUnlocked) scheduleDevWrite(raw);
+  };
+
+  const nameOf = (raw: FamilyDataV2, id: string | null | undefined) => {
+    const p = id ? raw.people.find((x) => x.id === id) : undefined;
+    return p ? personName(p) : (id ?? "someone");
+  };
+
   return {
     phase: "loading",
     loadError: null,
@@ -296,17 +596,35 @@ export const useStore = create<AppState>((set, get) => {
     family2d: null,
     isolateComponent: null,
     relation: emptyRelation,
+    kinLocales: DEFAULT_KIN_LOCALES,
+    relationView: "kinship",
+    eligibilityRules: DEFAULT_ELIGIBILITY_RULES,
     cameraRequest: null,
+    searchPlaceId: null,
     isDraft: false,
     dirty: false,
     dataUpdatedAt: null,
     editUnlocked: computeEditUnlocked(),
     confirmDelete: null,
     mergeKeepId: null,
+    mergeAbsorbId: null,
+    dismissedDuplicates: [],
     familyEditorOpen: false,
+    unionEditorId: null,
+    unionEditorError: null,
+    relationTableId: null,
+    history: emptyHistory,
+    historyOpen: false,
+    query: null,
+    queryPanelOpen: false,
+    qualityOpen: false,
     form: null,
     formError: null,
     mergeReport: null,
+    pendingMerge: null,
+    pendingSource: null,
+    mergeChanges: null,
+    importOpen: false,
     importErrors: null,
     confirmReset: false,
     hintDismissed: false,
@@ -323,10 +641,11 @@ export const useStore = create<AppState>((set, get) => {
           ? (requested as DataSource)
           : "default";
       // The showcase lineages are 3D-only (see SHOWCASE_ORDER); the real family
-      // opens in the 2D genealogical view.
-      const initialViewMode: AppState["viewMode"] = isShowcase(dataSource)
-        ? "3d"
-        : "2d";
+      // opens in the 2D genealogical view unless a shared link asks for 3D.
+      const initialViewMode: AppState["viewMode"] =
+        !isShowcase(dataSource) && params.get(SHARE_PARAMS.view) === "3d"
+          ? "3d"
+          : defaultViewMode(dataSource);
       set({ dataSource, viewMode: initialViewMode });
       // Older builds stored a data draft in IndexedDB that shadowed the deployed
       // file forever. Clean out anything they left behind so every visitor is
@@ -350,31 +669,72 @@ export const useStore = create<AppState>((set, get) => {
         const parsed = parseFamilyData(await res.text());
         if (!parsed.raw)
           throw new Error(parsed.errors[0] ?? "invalid data file");
-        const raw = parsed.raw;
+        const raw = withUids(parsed.raw);
         const derived = deriveAll(raw);
-        const requestedFamily = params.get(FAMILY_PARAM);
-        const sharedFamily =
-          requestedFamily && derived.dataset.raw.families[requestedFamily]
-            ? requestedFamily
-            : null;
+        // A shared link's ids are only trusted once the data says they exist.
+        const { dataset } = derived;
+        const shared = (key: string, known: (id: string) => boolean) => {
+          const id = params.get(key);
+          return id && known(id) ? id : null;
+        };
+        const isPerson = (id: string) => dataset.people.has(id);
+        const sharedFamily = shared(
+          SHARE_PARAMS.family,
+          (id) => !!dataset.raw.families[id],
+        );
+        const sharedPerson = shared(SHARE_PARAMS.person, isPerson);
+        const relationA = shared(SHARE_PARAMS.relationA, isPerson);
+        const relationB = relationA
+          ? shared(
+              SHARE_PARAMS.relationB,
+              (id) => isPerson(id) && id !== relationA,
+            )
+          : null;
+        // `?isolate=` alone would read as island 0; only digits are an island.
+        const isolateParam = params.get(SHARE_PARAMS.isolate);
+        const isolate =
+          isolateParam && /^\d+$/.test(isolateParam)
+            ? Number(isolateParam)
+            : NaN;
+        const sharedIsolate = [...dataset.componentOf.values()].includes(
+          isolate,
+        )
+          ? isolate
+          : null;
         const is3d = get().viewMode === "3d";
         set({
           ...derived,
           phase: "ready",
           isDraft: false,
           dirty: false,
+          history: emptyHistory,
+          dismissedDuplicates: [],
           dataUpdatedAt: Number.isNaN(lastModified) ? null : lastModified,
-          family2d: sharedFamily ?? largestFamily(derived.dataset),
+          family2d:
+            sharedFamily ??
+            (sharedPerson ? primaryFamilyOf(dataset, sharedPerson) : null) ??
+            largestFamily(dataset),
           lensFamilyId: is3d ? sharedFamily : null,
-          cameraRequest:
-            sharedFamily && is3d
-              ? cam({ kind: "family", id: sharedFamily })
-              : cam({ kind: "fit" }),
+          focusId: sharedPerson,
+          isolateComponent: sharedIsolate,
+          relation: relationA
+            ? { ...emptyRelation, active: true, aId: relationA }
+            : emptyRelation,
+          cameraRequest: sharedPerson
+            ? cam({ kind: "person", id: sharedPerson })
+            : sharedIsolate !== null
+              ? cam({ kind: "component", comp: sharedIsolate })
+              : sharedFamily && is3d
+                ? cam({ kind: "family", id: sharedFamily })
+                : cam({ kind: "fit" }),
           toast:
             DEV && get().editUnlocked
               ? "Local edit mode: changes autosave to family-data.json"
               : null,
         });
+        // Picking B runs the same search a click would, so the shared pair
+        // opens with its relation already named.
+        if (relationB) get().clickPerson(relationB);
       } catch (e) {
         set({ phase: "error", loadError: (e as Error).message });
       }
@@ -389,8 +749,21 @@ export const useStore = create<AppState>((set, get) => {
         if (!r.aId || (r.aId && r.bId)) {
           set({ relation: { ...emptyRelation, active: true, aId: id } });
         } else if (id !== r.aId) {
-          const steps = shortestKinPath(s.dataset, r.aId, id);
-          if (steps === null) {
+          const paths = allKinRelations(
+            s.dataset,
+            r.aId,
+            id,
+            KIN_SEARCH_HOPS,
+            KIN_RELATIONS_MAX,
+            s.kinLocales,
+          );
+          const eligibility = checkEligibility(
+            s.dataset,
+            r.aId,
+            id,
+            s.eligibilityRules,
+          );
+          if (paths.length === 0) {
             set({
               relation: {
                 ...r,
@@ -399,15 +772,16 @@ export const useStore = create<AppState>((set, get) => {
                 name: null,
                 local: null,
                 chain: null,
+                paths: null,
+                pathIndex: 0,
+                ancestry: null,
+                eligibility,
+                relatedness: null,
                 noRelation: true,
               },
             });
           } else {
-            const { name, local, chain } = nameRelation(
-              s.dataset,
-              r.aId,
-              steps,
-            );
+            const { steps, name, local, chain } = paths[0];
             set({
               relation: {
                 ...r,
@@ -416,6 +790,11 @@ export const useStore = create<AppState>((set, get) => {
                 name,
                 local,
                 chain,
+                paths,
+                pathIndex: 0,
+                ancestry: commonAncestors(s.dataset, r.aId, id),
+                eligibility,
+                relatedness: coefficientOfRelationship(s.dataset, r.aId, id),
                 noRelation: false,
               },
               cameraRequest: cam({ kind: "fit" }),
@@ -506,6 +885,8 @@ export const useStore = create<AppState>((set, get) => {
 
     fitView: () => set({ cameraRequest: cam({ kind: "fit" }) }),
 
+    searchPlace: (placeId) => set({ searchPlaceId: placeId }),
+
     setLens: (familyId) => {
       const s = get();
       // In 2D, "select a family" chooses the single family to show.
@@ -549,9 +930,17 @@ export const useStore = create<AppState>((set, get) => {
     escape: () => {
       const s = get();
       if (s.form) set({ form: null, formError: null });
-      else if (s.mergeReport) set({ mergeReport: null });
+      else if (s.unionEditorId)
+        set({ unionEditorId: null, unionEditorError: null });
+      else if (s.relationTableId) set({ relationTableId: null });
+      else if (s.mergeReport) set(noPreview);
+      else if (s.importOpen) set({ importOpen: false });
       else if (s.importErrors) set({ importErrors: null });
       else if (s.confirmReset) set({ confirmReset: false });
+      else if (s.historyOpen) set({ historyOpen: false });
+      else if (s.queryPanelOpen) set({ queryPanelOpen: false });
+      else if (s.qualityOpen) set({ qualityOpen: false });
+      else if (s.query) set({ query: null });
       else if (s.relation.active) set({ relation: emptyRelation });
       else if (s.isolateComponent !== null)
         set({ isolateComponent: null, cameraRequest: cam({ kind: "fit" }) });
@@ -573,6 +962,59 @@ export const useStore = create<AppState>((set, get) => {
     clearRelationPicks: () =>
       set({ relation: { ...emptyRelation, active: true } }),
 
+    showRelationPath: (index) => {
+      const r = get().relation;
+      const picked = r.paths?.[index];
+      if (!picked) return;
+      const { steps, name, local, chain } = picked;
+      set({
+        relation: { ...r, steps, name, local, chain, pathIndex: index },
+      });
+    },
+
+    toggleKinLocale: (id) => {
+      const s = get();
+      const kinLocales = s.kinLocales.includes(id)
+        ? s.kinLocales.filter((x) => x !== id)
+        : [...s.kinLocales, id];
+      const r = s.relation;
+      if (!s.dataset || !r.aId || !r.paths) return set({ kinLocales });
+      // Rename the relations already found; the paths themselves don't change.
+      const ds = s.dataset;
+      const aId = r.aId;
+      const paths = r.paths.map((p) => ({
+        ...p,
+        ...nameRelation(ds, aId, p.steps, kinLocales),
+      }));
+      set({
+        kinLocales,
+        relation: { ...r, paths, local: paths[r.pathIndex].local },
+      });
+    },
+
+    setRelationView: (view) => set({ relationView: view }),
+
+    setEligibilityRules: (patch) => {
+      const s = get();
+      const eligibilityRules = { ...s.eligibilityRules, ...patch };
+      const r = s.relation;
+      set({
+        eligibilityRules,
+        relation:
+          s.dataset && r.aId && r.bId
+            ? {
+                ...r,
+                eligibility: checkEligibility(
+                  s.dataset,
+                  r.aId,
+                  r.bId,
+                  eligibilityRules,
+                ),
+              }
+            : r,
+      });
+    },
+
     openForm: (mode, anchorId = null) =>
       set({ form: { mode, anchorId }, formError: null }),
     closeForm: () => set({ form: null, formError: null }),
@@ -595,13 +1037,20 @@ export const useStore = create<AppState>((set, get) => {
           createdFamilyId = r.familyId;
           fields = { ...fields, birthFamilyId: r.familyId };
         }
+        for (const [key, text] of Object.entries(payload.places ?? {})) {
+          const r = ensurePlace(raw, text);
+          raw = r.raw;
+          fields = { ...fields, [key]: r.placeId };
+        }
         let newPersonId: string | null = null;
+        let label = "";
         const anchor = s.form.anchorId;
         switch (s.form.mode) {
           case "standalone": {
             const r = addPerson(raw, fields);
             raw = r.raw;
             newPersonId = r.personId;
+            label = `Added ${nameOf(raw, r.personId)}`;
             break;
           }
           case "child": {
@@ -614,6 +1063,12 @@ export const useStore = create<AppState>((set, get) => {
             });
             raw = r.raw;
             newPersonId = r.personId;
+            const into = raw.unions.find(
+              (u) =>
+                u.children.includes(r.personId) ||
+                u.adoptedChildren?.includes(r.personId),
+            );
+            label = `Added ${payload.adopted ? "adopted child" : "child"} ${nameOf(raw, r.personId)} to ${into?.id ?? nameOf(raw, anchor)}`;
             break;
           }
           case "spouse": {
@@ -635,9 +1090,17 @@ export const useStore = create<AppState>((set, get) => {
               status: payload.status ?? "married",
               familyId: unionFamilyId,
               childIds: payload.childIds ?? [],
+              marriageDate: payload.marriageDate,
             });
             raw = r.raw;
             newPersonId = r.personId;
+            label = `Added spouse ${nameOf(raw, r.personId)} to ${nameOf(raw, anchor)} (${r.unionId})`;
+            if (payload.marriagePlace?.trim()) {
+              const pl = ensurePlace(raw, payload.marriagePlace);
+              raw = updateUnion(pl.raw, r.unionId, {
+                marriagePlaceId: pl.placeId,
+              });
+            }
             break;
           }
           case "parent": {
@@ -649,20 +1112,25 @@ export const useStore = create<AppState>((set, get) => {
             });
             raw = r.raw;
             newPersonId = r.personId;
+            label = `Added ${payload.adopted ? "adoptive parent" : "parent"} ${nameOf(raw, r.personId)} of ${nameOf(raw, anchor)}`;
             break;
           }
           case "edit": {
             raw = updatePerson(raw, anchor!, fields);
-            for (const patch of payload.unionStatusPatches ?? []) {
-              raw = updateUnion(raw, patch.unionId, { status: patch.status });
+            for (const patch of payload.unionPatches ?? []) {
+              raw = updateUnion(raw, patch.unionId, {
+                status: patch.status,
+                marriageDate: patch.marriageDate,
+              });
             }
             newPersonId = anchor;
+            label = `Edited ${nameOf(raw, anchor)}`;
             break;
           }
         }
         const { errors } = validateData(raw);
         if (errors.length) throw new Error(errors[0]);
-        commit(raw);
+        commit(raw, label);
         set({ form: null, formError: null });
         if (newPersonId) {
           set({
@@ -675,30 +1143,109 @@ export const useStore = create<AppState>((set, get) => {
       }
     },
 
-    importText: (text) => {
+    openImport: () => set({ importOpen: true }),
+    closeImport: () => set({ importOpen: false }),
+
+    importText: (text, baseText) => {
       const s = get();
       if (!s.raw) return;
+      set({ importOpen: false });
+      if (looksLikePatch(text)) {
+        const { patch, errors } = parsePatch(text);
+        const applied = patch ? applyPatch(s.raw, patch) : null;
+        if (!applied?.raw) {
+          set({
+            importErrors: applied
+              ? ["the patch doesn't fit this copy:", ...applied.errors]
+              : errors,
+          });
+          return;
+        }
+        // The records it brings are read the way a whole file's would be.
+        const parsed = parseFamilyData(serialize(applied.raw));
+        if (!parsed.raw) {
+          set({ importErrors: parsed.errors });
+          return;
+        }
+        const n = patch!.edits.length;
+        previewImport(
+          parsed.raw,
+          applied.report,
+          `Applied changes from a patch (${n} edit${n === 1 ? "" : "s"})`,
+        );
+        return;
+      }
+      // A GEDCOM file is converted to our own format first, then takes exactly
+      // the same parse → validate → merge path as a relative's JSON. What the
+      // conversion left out goes to the preview with the rest.
+      let warnings: string[] = [];
+      if (looksLikeGedcom(text)) {
+        const ged = importGedcom(text, s.raw);
+        if (!ged.raw) {
+          set({ importErrors: ged.errors });
+          return;
+        }
+        text = serialize(ged.raw);
+        warnings = ged.warnings;
+      }
       const parsed = parseFamilyData(text);
       if (!parsed.raw) {
         set({ importErrors: parsed.errors });
         return;
       }
-      const { merged, report } = mergeData(s.raw, parsed.raw);
-      const { errors } = validateData(merged);
-      if (errors.length) {
+      const base = baseText === undefined ? null : parseFamilyData(baseText);
+      if (base && !base.raw) {
         set({
           importErrors: [
-            "merge would corrupt the dataset:",
-            ...errors.slice(0, 8),
+            "the copy they started from can't be read:",
+            ...base.errors,
           ],
         });
         return;
       }
-      commit(merged);
-      set({ mergeReport: report });
+      const { merged, report } = mergeData(
+        s.raw,
+        parsed.raw,
+        base?.raw ?? undefined,
+      );
+      previewImport(merged, { ...report, warnings });
     },
 
-    closeMergeReport: () => set({ mergeReport: null }),
+    resolveMerge: (takeTheirs, rejected) => {
+      const s = get();
+      if (!s.raw || !s.pendingMerge || !s.mergeChanges) return;
+      const merged = withoutChanges(
+        s.raw,
+        takeIncoming(s.pendingMerge, takeTheirs),
+        rejected,
+      );
+      const { errors } = validateData(merged);
+      if (errors.length) {
+        // Keep the preview: unticking something else usually settles it.
+        set({ toast: `Can't import that selection: ${errors[0]}` });
+        return;
+      }
+      const count = (
+        kind: MergeChange["kind"],
+        change: MergeChange["change"],
+      ) =>
+        s.mergeChanges!.filter(
+          (c) =>
+            c.kind === kind && c.change === change && !rejected.includes(c),
+        ).length;
+      const removed = count("person", "removed");
+      const conflicts = s.mergeReport?.conflicts.length ?? 0;
+      const source = s.pendingSource ?? "Imported a file";
+      const label = [
+        `${source}: ${count("person", "added")} people added`,
+        `${count("person", "updated")} updated`,
+        ...(removed ? [`${removed} removed`] : []),
+        ...(conflicts ? [`${conflicts} conflicts settled`] : []),
+      ].join(", ");
+      commit(merged, label);
+      set({ ...noPreview, toast: label });
+    },
+    closeMergeReport: () => set(noPreview),
     closeImportErrors: () => set({ importErrors: null }),
 
     // Dev-only (editing exists only there): write straight to
@@ -706,7 +1253,7 @@ export const useStore = create<AppState>((set, get) => {
     saveToFile: async () => {
       const s = get();
       if (!s.raw) return;
-      if (devWriteTimer) clearTimeout(devWriteTimer);
+      cancelDevWrite();
       const file = DATA_FILES[s.dataSource];
       const ok = await postDataFile(serialize(s.raw), file);
       set({
@@ -723,9 +1270,33 @@ export const useStore = create<AppState>((set, get) => {
       downloadFile("family-data-export.json", serialize(s.raw));
     },
 
+    exportPatch: () => {
+      const patch = patchFromHistory(get().history.past);
+      if (patch.edits.length === 0) {
+        set({ toast: "No edits to send: make some, then export the patch" });
+        return;
+      }
+      downloadFile("family-data-patch.json", serializePatch(patch));
+    },
+
+    exportGedcom: (familyId = null) => {
+      const s = get();
+      if (!s.dataset) return;
+      const name = familyId
+        ? (s.dataset.raw.families[familyId]?.name ?? familyId)
+        : "family-data-export";
+      downloadFile(
+        `${name.replace(/[^a-zA-Z0-9_-]/g, "") || "family"}.ged`,
+        serializeGedcom(s.dataset, familyId),
+        "text/plain",
+      );
+    },
+
     requestReset: () => set({ confirmReset: true }),
     cancelReset: () => set({ confirmReset: false }),
     confirmResetNow: async () => {
+      // The draft is being thrown away: don't let a pending write resurrect it.
+      cancelDevWrite();
       set({
         confirmReset: false,
         isDraft: false,
@@ -745,7 +1316,19 @@ export const useStore = create<AppState>((set, get) => {
     reorderChild: (unionId, childId, dir) => {
       const s = get();
       if (!s.raw) return;
-      commit(moveChildInUnion(s.raw, unionId, childId, dir));
+      commit(
+        moveChildInUnion(s.raw, unionId, childId, dir),
+        `Moved ${nameOf(s.raw, childId)} ${dir < 0 ? "up" : "down"} in ${unionId}`,
+      );
+    },
+
+    sortChildrenByAge: (unionId) => {
+      const s = get();
+      if (!s.raw) return;
+      commit(
+        sortChildrenByBirth(s.raw, unionId),
+        `Sorted the children of ${unionId} by age`,
+      );
     },
 
     openFamilyEditor: () => set({ familyEditorOpen: true }),
@@ -753,18 +1336,64 @@ export const useStore = create<AppState>((set, get) => {
     updateFamilyRecord: (familyId, patch) => {
       const s = get();
       if (!s.raw) return;
-      commit(updateFamily(s.raw, familyId, patch));
+      commit(
+        updateFamily(s.raw, familyId, patch),
+        `Edited family ${s.raw.families[familyId]?.name ?? familyId}`,
+      );
+    },
+
+    openUnionEditor: (unionId) =>
+      set({ unionEditorId: unionId, unionEditorError: null }),
+    closeUnionEditor: () =>
+      set({ unionEditorId: null, unionEditorError: null }),
+
+    openRelationTable: (personId) => set({ relationTableId: personId }),
+    closeRelationTable: () => set({ relationTableId: null }),
+    exportRelationTable: (rows) => {
+      const s = get();
+      const person = s.relationTableId
+        ? s.dataset?.people.get(s.relationTableId)
+        : undefined;
+      if (!s.dataset || !person) return;
+      downloadFile(
+        `${personName(person).replace(/[^a-zA-Z0-9_-]/g, "") || "person"}-relations.csv`,
+        serializeRelationTable(s.dataset, rows),
+        "text/csv",
+      );
+    },
+    saveUnion: ({ edit, marriagePlace }) => {
+      const s = get();
+      if (!s.raw || !s.unionEditorId) return;
+      const unionId = s.unionEditorId;
+      try {
+        const pl = ensurePlace(s.raw, marriagePlace);
+        const next = editUnion(pl.raw, unionId, {
+          ...edit,
+          patch: { ...edit.patch, marriagePlaceId: pl.placeId },
+        });
+        const { errors } = validateData(next);
+        if (errors.length) throw new Error(errors[0]);
+        const partners = s.raw.unions
+          .find((u) => u.id === unionId)!
+          .partners.concat(edit.partnerId ? [edit.partnerId] : [])
+          .map((id) => nameOf(s.raw!, id));
+        commit(next, `Edited union ${partners.join(" & ")} (${unionId})`);
+        set({ unionEditorId: null, unionEditorError: null });
+      } catch (e) {
+        set({ unionEditorError: (e as Error).message });
+      }
     },
 
     confirmDeleteNow: () => {
       const s = get();
       if (!s.raw || !s.confirmDelete) return;
       const next = deletePerson(s.raw, s.confirmDelete);
-      commit(next);
+      commit(next, `Deleted ${nameOf(s.raw, s.confirmDelete)}`);
       set({ confirmDelete: null, focusId: null, form: null });
     },
 
-    openMerge: (keepId) => set({ mergeKeepId: keepId }),
+    openMerge: (keepId, absorbId) =>
+      set({ mergeKeepId: keepId, mergeAbsorbId: absorbId ?? null }),
     cancelMerge: () => set({ mergeKeepId: null }),
     confirmMerge: (absorbId) => {
       const s = get();
@@ -773,7 +1402,10 @@ export const useStore = create<AppState>((set, get) => {
         const next = mergePerson(s.raw, s.mergeKeepId, absorbId);
         const { errors } = validateData(next);
         if (errors.length) throw new Error(errors[0]);
-        commit(next);
+        commit(
+          next,
+          `Merged ${nameOf(s.raw, absorbId)} into ${nameOf(s.raw, s.mergeKeepId)}`,
+        );
         set({
           mergeKeepId: null,
           focusId: s.mergeKeepId,
@@ -793,25 +1425,134 @@ export const useStore = create<AppState>((set, get) => {
         form: null,
         confirmDelete: null,
         mergeKeepId: null,
+        unionEditorId: null,
+        historyOpen: false,
+        qualityOpen: false,
+        ...noPreview,
       });
     },
 
+    undo: () => {
+      const s = get();
+      const step = s.editUnlocked ? undoEdit(s.history) : null;
+      if (step) restore(step.raw, step.history, `Undid: ${step.entry.label}`);
+    },
+
+    redo: () => {
+      const s = get();
+      const step = s.editUnlocked ? redoEdit(s.history) : null;
+      if (step) restore(step.raw, step.history, `Redid: ${step.entry.label}`);
+    },
+
+    jumpToHistory: (applied) => {
+      const s = get();
+      if (!s.editUnlocked || applied === s.history.past.length) return;
+      const step = travelTo(s.history, applied);
+      if (step)
+        restore(
+          step.raw,
+          step.history,
+          applied === 0
+            ? "Back to before the first edit"
+            : `Back to: ${step.history.past[applied - 1].label}`,
+        );
+    },
+
+    // The history, filter and quality panels share the right-hand side with
+    // the import preview: one at a time.
+    toggleHistory: () =>
+      set({
+        ...noPreview,
+        historyOpen: !get().historyOpen,
+        queryPanelOpen: false,
+        qualityOpen: false,
+      }),
+    toggleQueryPanel: () =>
+      set({
+        ...noPreview,
+        queryPanelOpen: !get().queryPanelOpen,
+        historyOpen: false,
+        qualityOpen: false,
+      }),
+    setQuery: (query) =>
+      set({ query: query && !isEmptyQuery(query) ? query : null }),
+    saveCurrentQuery: (name) => {
+      const s = get();
+      if (!s.raw || !s.query || !name.trim()) return;
+      commit(
+        saveQuery(s.raw, name, s.query),
+        `Saved the filter "${name.trim()}"`,
+      );
+    },
+    deleteSavedQuery: (name) => {
+      const s = get();
+      if (!s.raw) return;
+      commit(deleteQuery(s.raw, name), `Deleted the filter "${name}"`);
+    },
+    toggleQualityPanel: () =>
+      set({
+        ...noPreview,
+        qualityOpen: !get().qualityOpen,
+        historyOpen: false,
+        queryPanelOpen: false,
+      }),
+    applyIssueFix: (issue) => {
+      const s = get();
+      if (!s.raw || !s.editUnlocked || !issue.fix) return;
+      const next = issue.fix.apply(s.raw);
+      const { errors } = validateData(next);
+      if (errors.length) {
+        set({ toast: `Fix failed: ${errors[0]}` });
+        return;
+      }
+      commit(next, issue.fix.label);
+      if (issue.personId && !next.people.some((p) => p.id === issue.personId))
+        set({ focusId: null });
+    },
+    dismissDuplicate: (keepId, absorbId) =>
+      set({
+        dismissedDuplicates: [
+          ...get().dismissedDuplicates,
+          pairKey(keepId, absorbId),
+        ],
+      }),
+
     dismissHint: () => set({ hintDismissed: true }),
     showToast: (msg) => set({ toast: msg }),
+    copyShareLink: (done) => {
+      // The address bar already mirrors the view (see syncShareParams).
+      const url = new URL(window.location.href);
+      // A shared link must never carry the edit key.
+      url.searchParams.delete("edit");
+      const link = url.toString();
+      if (navigator.clipboard?.writeText) {
+        navigator.clipboard.writeText(link).then(
+          () => set({ toast: done }),
+          () => window.prompt("Copy this link:", link),
+        );
+      } else {
+        window.prompt("Copy this link:", link);
+      }
+    },
     clearToast: () => set({ toast: null }),
   };
 });
 
-// Keep the URL's family param mirroring whatever family is on screen — in 2D
-// that's family2d, in 3D the lens (null lens means "everyone", so no param).
+// Keep the URL's share params mirroring what's on screen. Only once the data
+// is loaded: until then boot() still has the incoming link's params to read.
 useStore.subscribe((state, prev) => {
+  if (state.phase !== "ready") return;
   if (
+    state.phase !== prev.phase ||
     state.family2d !== prev.family2d ||
     state.lensFamilyId !== prev.lensFamilyId ||
-    state.viewMode !== prev.viewMode
+    state.viewMode !== prev.viewMode ||
+    state.focusId !== prev.focusId ||
+    state.isolateComponent !== prev.isolateComponent ||
+    state.relation.active !== prev.relation.active ||
+    state.relation.aId !== prev.relation.aId ||
+    state.relation.bId !== prev.relation.bId
   ) {
-    syncFamilyParam(
-      state.viewMode === "2d" ? state.family2d : state.lensFamilyId,
-    );
+    syncShareParams(state);
   }
 });
@@ -1,10 +1,35 @@
-import type { UnionStatus } from '../core/types';
-import { personName } from '../core/types';
+import type { PersonFact, PlaceTie, UnionFact, UnionStatus } from '../core/types';
+import { personName, placeName, PERSON_PLACE_KEYS, PERSON_PLACE_TIE } from '../core/types';
+import { formatDate } from '../core/dates';
+import { formatCoefficient, inbreedingCoefficient, pedigreeCollapse } from '../core/consanguinity';
 import { useStore } from '../state/store';
 
 const statusWord = (s: UnionStatus): string =>
   s === 'married' ? 'married' : s === 'divorced' ? 'divorced ⚮' : s === 'partners' ? 'partners' : 'union';
 
+const PLACE_WORD: Record<PlaceTie, string> = {
+  born: 'born in',
+  lives: 'lives in',
+  native: 'native village',
+  died: 'died in',
+  married: 'married in',
+};
+
+const FACT_WORD: Record<PersonFact | UnionFact, string> = {
+  name: 'name',
+  gender: 'gender',
+  birth: 'birth',
+  death: 'death',
+  residence: 'residence',
+  native: 'native village',
+  lineage: 'lineage',
+  divineParents: 'divine parentage',
+  partners: 'partners',
+  marriage: 'marriage',
+  status: 'status',
+  children: 'children',
+};
+
 export default function DetailCard() {
   const dataset = useStore(s => s.dataset);
   const focusId = useStore(s => s.focusId);
@@ -13,11 +38,16 @@ export default function DetailCard() {
   const clearFocus = useStore(s => s.clearFocus);
   const setLens = useStore(s => s.setLens);
   const openForm = useStore(s => s.openForm);
+  const copyShareLink = useStore(s => s.copyShareLink);
   const requestDelete = useStore(s => s.requestDelete);
   const openMerge = useStore(s => s.openMerge);
   const reorderChild = useStore(s => s.reorderChild);
+  const sortChildrenByAge = useStore(s => s.sortChildrenByAge);
   const editUnlocked = useStore(s => s.editUnlocked);
   const lensFamilyId = useStore(s => s.lensFamilyId);
+  const searchPlace = useStore(s => s.searchPlace);
+  const openUnionEditor = useStore(s => s.openUnionEditor);
+  const openRelationTable = useStore(s => s.openRelationTable);
 
   if (!dataset || !focusId || relationActive) return null;
   const person = dataset.people.get(focusId);
@@ -28,6 +58,43 @@ export default function DetailCard() {
   const parents = dataset.parentsOf.get(focusId) ?? [];
   const unionIds = dataset.unionsOf.get(focusId) ?? [];
 
+  const lifespan = [
+    person.birthDate && `b. ${formatDate(person.birthDate)}`,
+    person.deathDate && `d. ${formatDate(person.deathDate)}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  // A place links to everyone else tied to it, via the search bar's place mode.
+  const PlaceLink = ({ id }: { id: string }) => (
+    <button className="person-link" onClick={() => searchPlace(id)} title="Everyone tied to this place">
+      {placeName(dataset.raw.places?.[id], id)}
+    </button>
+  );
+  const placeKeys = PERSON_PLACE_KEYS.filter(k => person[k]);
+
+  // Sources for this person and their unions, one row per source with every
+  // locator cited from it ("9.2.17 · birth; 9.2.18").
+  const cited = new Map<string, string[]>();
+  const cite = (sourceId: string, locator: string | undefined, what: string | undefined) => {
+    const ref = [locator, what].filter(Boolean).join(' · ');
+    const refs = cited.get(sourceId) ?? [];
+    if (ref && !refs.includes(ref)) refs.push(ref);
+    cited.set(sourceId, refs);
+  };
+  for (const c of person.citations ?? []) cite(c.sourceId, c.locator, c.fact && FACT_WORD[c.fact]);
+  for (const uid of unionIds) {
+    const u = dataset.unions.get(uid)!;
+    const partner = dataset.people.get(u.partners.find(p => p !== focusId) ?? '');
+    for (const c of u.citations ?? []) {
+      const what = [c.fact ? FACT_WORD[c.fact] : 'union', partner && `with ${partner.firstName}`];
+      cite(c.sourceId, c.locator, what.filter(Boolean).join(' '));
+    }
+  }
+  // Ancestors met more than once going up, as after a cousin marriage.
+  const collapse = pedigreeCollapse(dataset, focusId);
+  const inbreeding = collapse.length > 0 ? inbreedingCoefficient(dataset, focusId) : 0;
+
   const PersonLink = ({ id, suffix }: { id: string; suffix?: string }) => {
     const p = dataset.people.get(id);
     if (!p) return null;
@@ -48,6 +115,17 @@ export default function DetailCard() {
             {personName(person)}
             {!person.alive && <span className="deceased" title="deceased"> ॐ</span>}
           </h2>
+          {lifespan && <div className="detail-dates muted">{lifespan}</div>}
+          {placeKeys.length > 0 && (
+            <div className="detail-dates muted">
+              {placeKeys.map((k, i) => (
+                <span key={k}>
+                  {i > 0 && ' · '}
+                  {PLACE_WORD[PERSON_PLACE_TIE[k]]} <PlaceLink id={person[k]!} />
+                </span>
+              ))}
+            </div>
+          )}
           <div className="chips">
             {affiliations.length === 0 && <span className="chip chip-unknown">unknown lineage</span>}
             {affiliations.map(a => (
@@ -71,6 +149,20 @@ export default function DetailCard() {
               </button>
             ))}
           </div>
+          <button
+            className="btn btn-subtle relation-table-btn"
+            onClick={() => openRelationTable(focusId)}
+            title="How everyone in the tree is related to them, as a list"
+          >
+            Relation to everyone
+          </button>
+          <button
+            className="btn btn-subtle share-link-btn"
+            onClick={() => copyShareLink(`Link copied, it opens on ${personName(person)}`)}
+            title="Copy a link that opens the tree on them"
+          >
+            ⤴ Share
+          </button>
         </div>
         <button className="btn btn-icon" onClick={clearFocus} aria-label="Close">
           ×
@@ -91,20 +183,50 @@ export default function DetailCard() {
           const u = dataset.unions.get(uid)!;
           const partner = u.partners.find(p => p !== focusId);
           const adopted = u.adoptedChildren ?? [];
+          const bornYear = (id: string) => {
+            const d = dataset.people.get(id)?.birthDate;
+            return d ? formatDate(d) : undefined;
+          };
+          const datedKids = u.children.filter(c => dataset.people.get(c)?.birthDate).length;
           return (
             <div className="detail-section" key={uid}>
               <h3>
                 {partner ? (
                   <>
                     {statusWord(u.status)} · <PersonLink id={partner} />
+                    {u.marriageDate && <em className="tag"> {formatDate(u.marriageDate)}</em>}
+                    {u.marriagePlaceId && (
+                      <em className="tag">
+                        {' '}
+                        in <PlaceLink id={u.marriagePlaceId} />
+                      </em>
+                    )}
                   </>
                 ) : (
                   'children · other parent unknown'
                 )}
+                {editUnlocked && (
+                  <button
+                    className="reorder-btn"
+                    title="Status, order, family, notes, children of this union"
+                    onClick={() => openUnionEditor(uid)}
+                  >
+                    edit
+                  </button>
+                )}
               </h3>
               {partner && u.children.length + adopted.length > 0 && (
                 <div className="children-label">
                   Children{u.children.length > 1 && editUnlocked ? ' · oldest at top' : ''}
+                  {editUnlocked && datedKids > 1 && (
+                    <button
+                      className="reorder-btn"
+                      title="Reorder by birth date; children without one keep their place"
+                      onClick={() => sortChildrenByAge(uid)}
+                    >
+                      sort by age
+                    </button>
+                  )}
                 </div>
               )}
               {u.children.length + adopted.length === 0 && <span className="muted">no children</span>}
@@ -112,7 +234,7 @@ export default function DetailCard() {
                 <div className="children-list">
                   {u.children.map((c, i) => (
                     <div className="child-row" key={c}>
-                      <PersonLink id={c} />
+                      <PersonLink id={c} suffix={bornYear(c)} />
                       {editUnlocked && u.children.length > 1 && (
                         <span className="reorder">
                           <button
@@ -137,7 +259,7 @@ export default function DetailCard() {
                   ))}
                   {adopted.map(c => (
                     <div className="child-row" key={c}>
-                      <PersonLink id={c} suffix="adopted" />
+                      <PersonLink id={c} suffix={['adopted', bornYear(c)].filter(Boolean).join(' · ')} />
                     </div>
                   ))}
                 </div>
@@ -146,7 +268,49 @@ export default function DetailCard() {
           );
         })}
 
+        {collapse.length > 0 && (
+          <div className="detail-section">
+            <h3>Pedigree collapse</h3>
+            {inbreeding > 0 && (
+              <span className="muted">
+                Parents related by blood: inbreeding coefficient {formatCoefficient(inbreeding)}
+              </span>
+            )}
+            {collapse.map(c => (
+              <div className="source-row" key={c.ancestorId}>
+                <PersonLink id={c.ancestorId} />
+                <span className="source-refs">
+                  {c.paths} lines of descent, nearest {c.up} generation{c.up > 1 ? 's' : ''} up
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {person.notes && <p className="detail-notes">{person.notes}</p>}
+
+        {cited.size > 0 && (
+          <div className="detail-section">
+            <h3>Sources</h3>
+            {[...cited].map(([sid, refs]) => {
+              const src = dataset.raw.sources?.[sid];
+              const title = src?.title ?? sid;
+              return (
+                <div className="source-row" key={sid} title={src?.note}>
+                  {src?.url ? (
+                    <a href={src.url} target="_blank" rel="noreferrer">
+                      {title}
+                    </a>
+                  ) : (
+                    <span>{title}</span>
+                  )}
+                  {src?.author && <em className="muted"> · {src.author}</em>}
+                  {refs.length > 0 && <span className="source-refs">{refs.join('; ')}</span>}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {editUnlocked && (
@@ -21,8 +21,8 @@ export default function FamilyEditor() {
           </button>
         </header>
         <p className="muted">
-          Color, name, and an optional branch/place to tell same-named lineages apart.
-          Changes save automatically.
+          Color, name, an optional branch/place to tell same-named lineages apart, and the
+          gotra its children are born into. Changes save automatically.
         </p>
         <div className="detail-body family-editor">
           {families.map(([id, f]) => {
@@ -48,6 +48,13 @@ export default function FamilyEditor() {
                   onBlur={e => update(id, { note: e.target.value })}
                   aria-label="Branch or place"
                 />
+                <input
+                  className="fam-gotra-input"
+                  defaultValue={f.gotra ?? ''}
+                  placeholder="gotra"
+                  onBlur={e => update(id, { gotra: e.target.value.trim() })}
+                  aria-label="Gotra"
+                />
                 <span className="fam-count muted">{dataset.membersOfFamily.get(id)?.size ?? 0}</span>
               </div>
             );
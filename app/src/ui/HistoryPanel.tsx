@@ -0,0 +1,55 @@
+import { useStore } from '../state/store';
+
+const timeOf = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+/** This session's edits, newest first. Clicking a row returns the tree to just
+ *  after that edit; undone edits stay listed (dimmed) until a new edit replaces them. */
+export default function HistoryPanel() {
+  const open = useStore(s => s.historyOpen);
+  const editUnlocked = useStore(s => s.editUnlocked);
+  const history = useStore(s => s.history);
+  const jumpToHistory = useStore(s => s.jumpToHistory);
+  const toggleHistory = useStore(s => s.toggleHistory);
+
+  if (!open || !editUnlocked) return null;
+  const applied = history.past.length;
+  const timeline = [...history.past, ...[...history.future].reverse()];
+
+  return (
+    <section className="history-panel panel" aria-label="Edit history">
+      <header className="detail-head">
+        <h2 className="detail-name">History</h2>
+        <button className="btn btn-icon" onClick={toggleHistory} aria-label="Close">
+          ×
+        </button>
+      </header>
+      <p className="muted">Ctrl+Z undoes, Ctrl+Shift+Z redoes. Each step saves like any edit.</p>
+      <ol className="history-list">
+        {timeline
+          .map((entry, i) => (
+            <li key={`${entry.at}:${i}`}>
+              <button
+                className={`history-row ${i + 1 === applied ? 'history-current' : ''} ${i >= applied ? 'history-undone' : ''}`}
+                onClick={() => jumpToHistory(i + 1)}
+                title={i >= applied ? 'Redo up to here' : 'Go back to just after this edit'}
+              >
+                <span>{entry.label}</span>
+                <em className="tag">{timeOf(entry.at)}</em>
+              </button>
+            </li>
+          ))
+          .reverse()}
+        <li>
+          <button
+            className={`history-row ${applied === 0 ? 'history-current' : ''}`}
+            onClick={() => jumpToHistory(0)}
+            disabled={timeline.length === 0}
+          >
+            <span className="muted">{timeline.length ? 'Before these edits' : 'No edits yet'}</span>
+          </button>
+        </li>
+      </ol>
+    </section>
+  );
+}
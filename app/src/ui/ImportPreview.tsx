@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import type { MergeChange } from '../core/types';
+import { useStore } from '../state/store';
+
+/** A field's value as the preview shows it. */
+const fieldValue = (v: unknown): string =>
+  v === undefined || v === null || v === '' ? '(none)' : typeof v === 'string' ? v : JSON.stringify(v);
+
+// Sections, in the order the preview lists them.
+const SECTIONS: { kind: MergeChange['kind']; change: MergeChange['change']; title: string }[] = [
+  { kind: 'person', change: 'added', title: 'People added' },
+  { kind: 'person', change: 'updated', title: 'People changed' },
+  { kind: 'person', change: 'removed', title: 'People removed' },
+  { kind: 'union', change: 'added', title: 'Unions added' },
+  { kind: 'union', change: 'updated', title: 'Unions changed' },
+  { kind: 'union', change: 'removed', title: 'Unions removed' },
+];
+
+const toggled = (prev: Set<number>, i: number, on: boolean): Set<number> => {
+  const next = new Set(prev);
+  if (on) next.add(i);
+  else next.delete(i);
+  return next;
+};
+
+/** An import before it's applied: every person and union it would add, change
+ *  or remove, each with a tick to leave it out, and any field both sides
+ *  changed to settle. The graph picks out the people it touches meanwhile. */
+export default function ImportPreview() {
+  const report = useStore(s => s.mergeReport);
+  const changes = useStore(s => s.mergeChanges);
+  const dataset = useStore(s => s.dataset);
+  const close = useStore(s => s.closeMergeReport);
+  const resolve = useStore(s => s.resolveMerge);
+  const focusPerson = useStore(s => s.focusPerson);
+  // Conflicts (by index) settled the incoming way; the rest keep the local value.
+  const [theirs, setTheirs] = useState<Set<number>>(new Set());
+  // Changes (by index) unticked, left out when the import is applied.
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setTheirs(new Set());
+    setSkipped(new Set());
+  }, [changes]);
+
+  if (!report || !changes || !dataset) return null;
+  const { conflicts } = report;
+  const families = report.familiesAdded.length + report.familiesUpdated.length;
+  const nothing = changes.length + families + conflicts.length === 0;
+  const sections = SECTIONS.map(s => ({
+    ...s,
+    rows: changes.map((c, i) => ({ c, i })).filter(({ c }) => c.kind === s.kind && c.change === s.change),
+  })).filter(s => s.rows.length > 0);
+
+  return (
+    <section className="merge-panel panel" aria-label="Import preview">
+      <header className="detail-head">
+        <h2 className="detail-name">
+          Import preview <span className="muted">· {changes.length}</span>
+        </h2>
+        <button className="btn btn-icon" onClick={close} aria-label="Close">
+          ×
+        </button>
+      </header>
+
+      <div className="detail-body">
+        {nothing ? (
+          <p className="muted">Nothing new: your data already contains everything in that file.</p>
+        ) : (
+          <p className="muted">Nothing is changed until you import. Untick anything you don’t want.</p>
+        )}
+        {conflicts.length > 0 && (
+          <div className="detail-section">
+            <h3>{conflicts.length} changed on both sides</h3>
+            <p className="muted">You and they each changed these since the copy they started from. Pick which to keep.</p>
+            {conflicts.map((c, i) => (
+              <div key={`${c.kind}:${c.id}:${c.field}`} className="merge-conflict">
+                <div>
+                  <strong>{c.label}</strong> <span className="muted">· {c.field}</span>
+                </div>
+                <div className="muted">was {fieldValue(c.base)}</div>
+                <div className="merge-conflict-choices">
+                  <button
+                    className={`btn ${theirs.has(i) ? '' : 'btn-active'}`}
+                    onClick={() => setTheirs(prev => toggled(prev, i, false))}
+                  >
+                    Mine: {fieldValue(c.local)}
+                  </button>
+                  <button
+                    className={`btn ${theirs.has(i) ? 'btn-active' : ''}`}
+                    onClick={() => setTheirs(prev => toggled(prev, i, true))}
+                  >
+                    Theirs: {fieldValue(c.incoming)}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {report.warnings.length > 0 && (
+          <div className="detail-section">
+            <h3>{report.warnings.length} left out of their file</h3>
+            <p className="muted">Their file had these, but they couldn’t be brought in as they were.</p>
+            <ul className="error-list">
+              {report.warnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {report.idsRemapped.length > 0 && (
+          <div className="detail-section">
+            <h3>{report.idsRemapped.length} renamed to avoid a clash</h3>
+            <p className="muted">These ids already belong to someone else here, so theirs come in under new ones.</p>
+            <p>{report.idsRemapped.map(r => `${r.from} → ${r.to}`).join(', ')}</p>
+          </div>
+        )}
+        {sections.map(s => (
+          <div key={`${s.kind}:${s.change}`} className="detail-section">
+            <h3>
+              {s.title} <span className="muted">· {s.rows.length}</span>
+            </h3>
+            {s.kind === 'person' && s.change === 'removed' && (
+              <p className="muted">They deleted these, or merged them into someone else.</p>
+            )}
+            {s.rows.map(({ c, i }) => (
+              <div key={c.id} className="merge-change">
+                <label className="field field-check">
+                  <input
+                    type="checkbox"
+                    checked={!skipped.has(i)}
+                    onChange={e => setSkipped(prev => toggled(prev, i, !e.target.checked))}
+                  />
+                  {c.kind === 'person' && dataset.people.has(c.id) ? (
+                    <button className="person-link" onClick={() => focusPerson(c.id)}>
+                      {c.label}
+                    </button>
+                  ) : (
+                    <span>{c.label}</span>
+                  )}
+                </label>
+                {c.fields.map(f => (
+                  <div key={f.field} className="muted merge-change-field">
+                    {f.field}: {fieldValue(f.before)} → {fieldValue(f.after)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ))}
+        {report.familiesAdded.length > 0 && (
+          <div className="detail-section">
+            <h3>{report.familiesAdded.length} families added</h3>
+            <p>{report.familiesAdded.join(', ')}</p>
+          </div>
+        )}
+        {report.familiesUpdated.length > 0 && (
+          <div className="detail-section">
+            <h3>{report.familiesUpdated.length} families updated</h3>
+            <p>{report.familiesUpdated.join(', ')}</p>
+          </div>
+        )}
+      </div>
+
+      <footer className="modal-actions">
+        {nothing ? (
+          <button className="btn btn-primary" onClick={close}>
+            Done
+          </button>
+        ) : (
+          <>
+            <button className="btn btn-subtle" onClick={close}>
+              Cancel import
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={() =>
+                resolve(
+                  conflicts.filter((_, i) => theirs.has(i)),
+                  changes.filter((_, i) => skipped.has(i)),
+                )
+              }
+            >
+              Import {changes.length - skipped.size} of {changes.length}
+            </button>
+          </>
+        )}
+      </footer>
+    </section>
+  );
+}
@@ -3,54 +3,51 @@ import { useStore } from '../state/store';
 import { personName } from '../core/types';
 import { mergeBlockReason } from '../core/mutate';
 
-export function MergeReportModal() {
-  const report = useStore(s => s.mergeReport);
-  const close = useStore(s => s.closeMergeReport);
-  if (!report) return null;
-  const nothing =
-    report.peopleAdded.length + report.peopleUpdated.length + report.unionsAdded + report.unionsUpdated + report.familiesAdded.length === 0;
+/** Pick a relative's file, and optionally the copy they started from: with it,
+ *  the merge goes field by field and asks about anything both sides changed.
+ *  A patch needs no base: it carries what each field was. */
+export function ImportModal() {
+  const open = useStore(s => s.importOpen);
+  const close = useStore(s => s.closeImport);
+  const importText = useStore(s => s.importText);
+  const [theirs, setTheirs] = useState<File | null>(null);
+  const [base, setBase] = useState<File | null>(null);
+
+  useEffect(() => {
+    setTheirs(null);
+    setBase(null);
+  }, [open]);
+
+  if (!open) return null;
+  const merge = async () => {
+    if (!theirs) return;
+    importText(await theirs.text(), base ? await base.text() : undefined);
+  };
   return (
     <div className="modal-backdrop" onMouseDown={e => e.target === e.currentTarget && close()}>
       <div className="modal panel">
         <header className="detail-head">
-          <h2 className="detail-name">Merge report</h2>
+          <h2 className="detail-name">Import a relative's file</h2>
           <button className="btn btn-icon" onClick={close} aria-label="Close">×</button>
         </header>
-        {nothing ? (
-          <p className="muted">Nothing new: your data already contains everything in that file.</p>
-        ) : (
-          <div className="detail-body">
-            {report.familiesAdded.length > 0 && (
-              <div className="detail-section">
-                <h3>{report.familiesAdded.length} families added</h3>
-                <p>{report.familiesAdded.join(', ')}</p>
-              </div>
-            )}
-            {report.peopleAdded.length > 0 && (
-              <div className="detail-section">
-                <h3>{report.peopleAdded.length} people added</h3>
-                <p>{report.peopleAdded.join(', ')}</p>
-              </div>
-            )}
-            {report.peopleUpdated.length > 0 && (
-              <div className="detail-section">
-                <h3>{report.peopleUpdated.length} people updated</h3>
-                <p>{report.peopleUpdated.join(', ')}</p>
-              </div>
-            )}
-            {(report.unionsAdded > 0 || report.unionsUpdated > 0) && (
-              <div className="detail-section">
-                <h3>Unions</h3>
-                <p>
-                  {report.unionsAdded} added, {report.unionsUpdated} updated
-                </p>
-              </div>
-            )}
-            <p className="muted">Nothing was deleted: merges only add and update.</p>
-          </div>
-        )}
+        <label className="field">
+          <span>Their file or patch (JSON or GEDCOM)</span>
+          <input type="file" accept=".json,application/json,.ged" onChange={e => setTheirs(e.target.files?.[0] ?? null)} />
+        </label>
+        <label className="field">
+          <span>The copy you sent them (optional)</span>
+          <input type="file" accept=".json,application/json" onChange={e => setBase(e.target.files?.[0] ?? null)} />
+        </label>
+        <p className="muted">
+          With the copy they started from, only what each of you changed is merged, and a field you both changed
+          is yours to settle. Without it, the more recently edited copy of each person wins. A patch of their edits
+          needs no copy: it applies to yours as long as the people it touches are still here.
+        </p>
         <footer className="modal-actions">
-          <button className="btn btn-primary" onClick={close}>Done</button>
+          <button className="btn btn-subtle" onClick={close}>Cancel</button>
+          <button className="btn btn-primary" disabled={!theirs} onClick={() => void merge()}>
+            Merge
+          </button>
         </footer>
       </div>
     </div>
@@ -144,15 +141,11 @@ export function MergePersonModal() {
   const dataset = useStore(s => s.dataset);
   const raw = useStore(s => s.raw);
   const keepId = useStore(s => s.mergeKeepId);
+  const suggestedId = useStore(s => s.mergeAbsorbId);
   const cancel = useStore(s => s.cancelMerge);
   const confirm = useStore(s => s.confirmMerge);
   const [query, setQuery] = useState('');
 
-  // Reset the picker each time the dialog opens for a different person.
-  useEffect(() => {
-    setQuery('');
-  }, [keepId]);
-
   const options = useMemo(() => {
     if (!dataset || !keepId) return [];
     return dataset.raw.people
@@ -161,6 +154,13 @@ export function MergePersonModal() {
       .sort((a, b) => a.label.localeCompare(b.label));
   }, [dataset, keepId]);
 
+  // Reset the picker each time the dialog opens for a different person, to the
+  // duplicate it was opened for, if any.
+  useEffect(() => {
+    setQuery(options.find(o => o.id === suggestedId)?.label ?? '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [keepId, suggestedId]);
+
   const absorbId = useMemo(
     () => options.find(o => o.label === query)?.id ?? null,
     [options, query],
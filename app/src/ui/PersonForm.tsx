@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
-import type { Gender, UnionStatus } from '../core/types';
-import { formatFamilyLabel, personName } from '../core/types';
+import type { Gender, PersonPlaceKey, UnionStatus } from '../core/types';
+import { formatFamilyLabel, personName, placeName, PERSON_PLACE_KEYS } from '../core/types';
 import { displayFamilyOf } from '../core/dataset';
 import { randomFamilyColor } from '../core/colors';
+import { formatDate, isValidDate } from '../core/dates';
 import { useStore, type FormPayload } from '../state/store';
 
 const NEW_FAMILY = '__new__';
@@ -10,7 +11,14 @@ const UNKNOWN = '';
 // +Spouse: the marriage's children take the spouse's family (e.g. a son-in-law's).
 const SAME_AS_SPOUSE = '__spouse__';
 
-const STATUS_OPTIONS: { value: UnionStatus; label: string }[] = [
+const NO_PLACES: Record<PersonPlaceKey, string> = {
+  birthPlaceId: '',
+  residencePlaceId: '',
+  nativePlaceId: '',
+  deathPlaceId: '',
+};
+
+export const STATUS_OPTIONS: { value: UnionStatus; label: string }[] = [
   { value: 'married', label: 'married' },
   { value: 'partners', label: 'partners (never married)' },
   { value: 'divorced', label: 'divorced' },
@@ -29,6 +37,12 @@ export default function PersonForm() {
   const [gender, setGender] = useState<Gender>('male');
   const [alive, setAlive] = useState(true);
   const [notes, setNotes] = useState('');
+  const [birthDate, setBirthDate] = useState('');
+  const [deathDate, setDeathDate] = useState('');
+  const [marriageDate, setMarriageDate] = useState('');
+  // Places are typed by name; the store resolves them against the registry.
+  const [places, setPlaces] = useState<Record<PersonPlaceKey, string>>(NO_PLACES);
+  const [marriagePlace, setMarriagePlace] = useState('');
   const [familyChoice, setFamilyChoice] = useState<string>(UNKNOWN);
   const [newFamName, setNewFamName] = useState('');
   const [newFamColor, setNewFamColor] = useState('#e07b56');
@@ -39,7 +53,9 @@ export default function PersonForm() {
   const [status, setStatus] = useState<UnionStatus>('married');
   const [unionFamily, setUnionFamily] = useState<string>(UNKNOWN);
   const [unionFamilyTouched, setUnionFamilyTouched] = useState(false);
-  const [unionStatuses, setUnionStatuses] = useState<Record<string, UnionStatus>>({});
+  const [unionEdits, setUnionEdits] = useState<
+    Record<string, { status: UnionStatus; marriageDate: string }>
+  >({});
   const [attachChildIds, setAttachChildIds] = useState<string[]>([]);
 
   const anchor = form?.anchorId ? dataset?.people.get(form.anchorId) : null;
@@ -54,26 +70,40 @@ export default function PersonForm() {
       setGender(a.gender);
       setAlive(a.alive);
       setNotes(a.notes ?? '');
+      setBirthDate(a.birthDate ?? '');
+      setDeathDate(a.deathDate ?? '');
       setFamilyChoice(a.birthFamilyId ?? UNKNOWN);
-      const patches: Record<string, UnionStatus> = {};
+      const known = { ...NO_PLACES };
+      for (const key of PERSON_PLACE_KEYS) {
+        const id = a[key];
+        if (id) known[key] = placeName(dataset.raw.places?.[id], id);
+      }
+      setPlaces(known);
+      const edits: Record<string, { status: UnionStatus; marriageDate: string }> = {};
       for (const uid of dataset.unionsOf.get(a.id) ?? []) {
-        patches[uid] = dataset.unions.get(uid)!.status;
+        const u = dataset.unions.get(uid)!;
+        edits[uid] = { status: u.status, marriageDate: u.marriageDate ?? '' };
       }
-      setUnionStatuses(patches);
+      setUnionEdits(edits);
     } else {
       setFirstName('');
       setLastName(a?.lastName ?? '');
       setGender(form.mode === 'spouse' && a ? (a.gender === 'male' ? 'female' : 'male') : 'male');
       setAlive(true);
       setNotes('');
+      setBirthDate('');
+      setDeathDate('');
+      setPlaces(NO_PLACES);
       setFamilyChoice(form.mode === 'spouse' ? UNKNOWN : (a ? displayFamilyOf(dataset, a.id) ?? UNKNOWN : UNKNOWN));
-      setUnionStatuses({});
+      setUnionEdits({});
     }
     const firstUnion = form.anchorId ? (dataset.unionsOf.get(form.anchorId) ?? [])[0] : undefined;
     setUnionChoice(form.mode === 'child' && firstUnion ? firstUnion : '__newunion__');
     setAdopted(false);
     setExistingQuery('');
     setStatus('married');
+    setMarriageDate('');
+    setMarriagePlace('');
     setUnionFamily(a ? displayFamilyOf(dataset, a.id) ?? UNKNOWN : UNKNOWN);
     setUnionFamilyTouched(false);
     setAttachChildIds([]);
@@ -98,6 +128,8 @@ export default function PersonForm() {
       .map(p => ({ id: p.id, label: `${personName(p)}: ${p.id}` }))
       .sort((a, b) => a.label.localeCompare(b.label));
   }, [dataset]);
+  const setPlace = (key: PersonPlaceKey) => (v: string) => setPlaces(prev => ({ ...prev, [key]: v }));
+
   const existingId = useMemo(() => {
     const hit = peopleOptions.find(o => o.label === existingQuery);
     return hit?.id ?? null;
@@ -149,6 +181,9 @@ export default function PersonForm() {
         alive,
         birthFamilyId: childFamilyLocked ? chosenUnion!.familyId : birthFamilyId,
         ...(notes.trim() ? { notes: notes.trim() } : {}),
+        // Undefined rather than omitted, so clearing a date in Edit removes it.
+        birthDate: birthDate.trim() || undefined,
+        deathDate: alive ? undefined : deathDate.trim() || undefined,
       },
       newFamily:
         familyChoice === NEW_FAMILY && newFamName.trim()
@@ -163,11 +198,19 @@ export default function PersonForm() {
       existingId,
       status,
       unionFamilyId: unionFamily === UNKNOWN ? null : unionFamily,
-      unionStatusPatches: Object.entries(unionStatuses).map(([unionId, st]) => ({
+      unionPatches: Object.entries(unionEdits).map(([unionId, e]) => ({
         unionId,
-        status: st,
+        status: e.status,
+        marriageDate: e.marriageDate.trim() || undefined,
       })),
       childIds: attachChildIds,
+      marriageDate: marriageDate.trim() || undefined,
+      // Only for a person being created or edited; picking someone existing
+      // leaves their places alone.
+      ...(needsPersonFields
+        ? { places: alive ? { ...places, deathPlaceId: '' } : places }
+        : {}),
+      marriagePlace,
     };
     submitForm(payload);
   };
@@ -223,6 +266,7 @@ export default function PersonForm() {
   return (
     <div className="modal-backdrop" onMouseDown={e => e.target === e.currentTarget && closeForm()}>
       <form className="modal panel" onSubmit={submit}>
+        <PlaceList />
         <header className="detail-head">
           <h2 className="detail-name">{title}</h2>
           <button type="button" className="btn btn-icon" onClick={closeForm} aria-label="Close">
@@ -303,6 +347,24 @@ export default function PersonForm() {
                 <span>alive</span>
               </label>
             </div>
+            <div className="field-row">
+              <DateField label="Born" value={birthDate} onChange={setBirthDate} />
+              {!alive && <DateField label="Died" value={deathDate} onChange={setDeathDate} />}
+            </div>
+            <div className="field-row">
+              <PlaceField label="Born in" value={places.birthPlaceId} onChange={setPlace('birthPlaceId')} />
+              <PlaceField label="Lives in" value={places.residencePlaceId} onChange={setPlace('residencePlaceId')} />
+            </div>
+            <div className="field-row">
+              <PlaceField
+                label="Native village"
+                value={places.nativePlaceId}
+                onChange={setPlace('nativePlaceId')}
+              />
+              {!alive && (
+                <PlaceField label="Died in" value={places.deathPlaceId} onChange={setPlace('deathPlaceId')} />
+              )}
+            </div>
             {familySelect}
             {familyChoice === NEW_FAMILY && (
               <>
@@ -374,6 +436,10 @@ export default function PersonForm() {
                 </select>
               </label>
             </div>
+            <div className="field-row">
+              <DateField label="Married" value={marriageDate} onChange={setMarriageDate} />
+              <PlaceField label="Married in" value={marriagePlace} onChange={setMarriagePlace} />
+            </div>
             <span className="muted">
               Whose family the children are born into: usually the father's. For a
               son-in-law, pick his family (create it as his birth family above).
@@ -408,19 +474,22 @@ export default function PersonForm() {
           </>
         )}
 
-        {form.mode === 'edit' && Object.keys(unionStatuses).length > 0 && (
+        {form.mode === 'edit' && Object.keys(unionEdits).length > 0 && (
           <div className="detail-section">
             <h3>Unions</h3>
-            {Object.entries(unionStatuses).map(([uid, st]) => {
+            {Object.entries(unionEdits).map(([uid, edit]) => {
               const u = dataset.unions.get(uid)!;
               const partner = u.partners.find(p => p !== form.anchorId);
               return (
                 <label key={uid} className="field field-row union-edit">
                   <span>{partner ? personName(dataset.people.get(partner)!) : 'unknown partner'}</span>
                   <select
-                    value={st}
+                    value={edit.status}
                     onChange={e =>
-                      setUnionStatuses(prev => ({ ...prev, [uid]: e.target.value as UnionStatus }))
+                      setUnionEdits(prev => ({
+                        ...prev,
+                        [uid]: { ...prev[uid], status: e.target.value as UnionStatus },
+                      }))
                     }
                   >
                     {STATUS_OPTIONS.map(o => (
@@ -429,6 +498,17 @@ export default function PersonForm() {
                       </option>
                     ))}
                   </select>
+                  <input
+                    value={edit.marriageDate}
+                    placeholder="married (e.g. 1971)"
+                    aria-label="Marriage date"
+                    onChange={e =>
+                      setUnionEdits(prev => ({
+                        ...prev,
+                        [uid]: { ...prev[uid], marriageDate: e.target.value },
+                      }))
+                    }
+                  />
                 </label>
               );
             })}
@@ -449,3 +529,68 @@ export default function PersonForm() {
     </div>
   );
 }
+
+/** A free-text partial date with a live reading of what it was understood as. */
+export function DateField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+}) {
+  const t = value.trim();
+  return (
+    <label className="field">
+      <span>{label}</span>
+      <input
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder="1947-08-15, 1947, c. 1920, before 1950…"
+      />
+      {t && (
+        <em className={isValidDate(t) ? 'muted' : 'form-error'}>
+          {isValidDate(t) ? formatDate(t) : 'not a date this app understands'}
+        </em>
+      )}
+    </label>
+  );
+}
+
+/** The registry's places as suggestions for every PlaceField in the form. */
+export function PlaceList() {
+  const places = useStore(s => s.dataset?.raw.places);
+  const names = useMemo(
+    () =>
+      Object.values(places ?? {})
+        .map(pl => placeName(pl))
+        .sort((a, b) => a.localeCompare(b)),
+    [places],
+  );
+  return (
+    <datalist id="rv-places">
+      {names.map(name => (
+        <option key={name} value={name} />
+      ))}
+    </datalist>
+  );
+}
+
+/** A place by name, suggesting the registry's places; a new name becomes a new place. */
+export function PlaceField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+}) {
+  return (
+    <label className="field">
+      <span>{label}</span>
+      <input list="rv-places" value={value} onChange={e => onChange(e.target.value)} placeholder="town or village" />
+    </label>
+  );
+}
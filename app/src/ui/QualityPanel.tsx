@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import { findDuplicates, pairKey } from '../core/duplicates';
+import { mergeBlockReason } from '../core/mutate';
+import type { DataIssue, IssueKind } from '../core/quality';
+import { dataIssues } from '../core/quality';
+import { personName } from '../core/types';
+import { useStore } from '../state/store';
+
+// Group headings, in the order the panel lists them.
+const KIND_TITLES: Record<IssueKind, string> = {
+  'birth-family': 'Birth family differs from the parents’ union',
+  'dead-but-alive': 'Death date, but marked alive',
+  'date-order': 'Dates in an impossible order',
+  'bad-date': 'Dates that don’t read as dates',
+  'divine-parent': 'Divine parents not marked divine',
+  'duplicate-partners': 'Couples recorded twice',
+  'query-family': 'Saved filters naming a missing family',
+  'no-connections': 'People tied to no one',
+  'lone-union': 'Unions with one partner and no children',
+  'single-member-family': 'Families with a single member',
+  'unused-family': 'Families no one belongs to',
+};
+const ORDER = Object.keys(KIND_TITLES) as IssueKind[];
+
+/** Everything worth tidying in the file, grouped by kind. A row focuses who
+ *  it's about, and a fix button, where one edit settles it, makes that edit.
+ *  Likely duplicates come first, each a merge to review. */
+export default function QualityPanel() {
+  const dataset = useStore(s => s.dataset);
+  const open = useStore(s => s.qualityOpen);
+  const toggle = useStore(s => s.toggleQualityPanel);
+  const focusPerson = useStore(s => s.focusPerson);
+  const applyIssueFix = useStore(s => s.applyIssueFix);
+  const editUnlocked = useStore(s => s.editUnlocked);
+  const openMerge = useStore(s => s.openMerge);
+  const dismissed = useStore(s => s.dismissedDuplicates);
+  const dismissDuplicate = useStore(s => s.dismissDuplicate);
+  const requestDelete = useStore(s => s.requestDelete);
+
+  const groups = useMemo(() => {
+    if (!open || !dataset) return [];
+    const byKind = new Map<IssueKind, DataIssue[]>();
+    for (const issue of dataIssues(dataset)) byKind.set(issue.kind, [...(byKind.get(issue.kind) ?? []), issue]);
+    return ORDER.filter(k => byKind.has(k)).map(kind => ({ kind, issues: byKind.get(kind)! }));
+  }, [open, dataset]);
+
+  const duplicates = useMemo(() => {
+    if (!open || !dataset) return [];
+    return findDuplicates(dataset).filter(d => !dismissed.includes(pairKey(d.keepId, d.absorbId)));
+  }, [open, dataset, dismissed]);
+
+  if (!open || !dataset || !editUnlocked) return null;
+  const count = groups.reduce((n, g) => n + g.issues.length, duplicates.length);
+  const nameOf = (id: string) => personName(dataset.people.get(id)!);
+
+  return (
+    <section className="quality-panel panel" aria-label="Data quality">
+      <header className="detail-head">
+        <h2 className="detail-name">
+          Data quality <span className="muted">· {count}</span>
+        </h2>
+        <button className="btn btn-icon" onClick={toggle} aria-label="Close">
+          ×
+        </button>
+      </header>
+
+      <div className="detail-body">
+        {count === 0 && <p className="muted">Nothing to tidy: every check passes.</p>}
+        {duplicates.length > 0 && (
+          <div className="detail-section">
+            <h3>
+              Possibly the same person <span className="muted">· {duplicates.length}</span>
+            </h3>
+            {duplicates.map(d => {
+              const blocked = mergeBlockReason(dataset.raw, d.keepId, d.absorbId);
+              return (
+                <div key={pairKey(d.keepId, d.absorbId)} className="quality-row">
+                  <span>
+                    <button className="person-link" onClick={() => focusPerson(d.keepId)}>
+                      {nameOf(d.keepId)}
+                    </button>{' '}
+                    and{' '}
+                    <button className="person-link" onClick={() => focusPerson(d.absorbId)}>
+                      {nameOf(d.absorbId)}
+                    </button>{' '}
+                    <em className="tag">{d.score}</em>
+                  </span>
+                  <span className="muted quality-message">{d.reasons.join('; ')}</span>
+                  {blocked && <span className="muted quality-message">{blocked}</span>}
+                  <span className="quality-actions">
+                    <button
+                      className="btn btn-subtle"
+                      disabled={blocked !== null}
+                      onClick={() => openMerge(d.keepId, d.absorbId)}
+                    >
+                      Review merge
+                    </button>
+                    <button className="btn btn-subtle" onClick={() => dismissDuplicate(d.keepId, d.absorbId)}>
+                      Not the same
+                    </button>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {groups.map(g => (
+          <div key={g.kind} className="detail-section">
+            <h3>
+              {KIND_TITLES[g.kind]} <span className="muted">· {g.issues.length}</span>
+            </h3>
+            {g.issues.map((issue, i) => {
+              const person = issue.personId ? dataset.people.get(issue.personId) : undefined;
+              return (
+                <div key={`${issue.message}:${i}`} className="quality-row">
+                  {person ? (
+                    <button className="person-link" onClick={() => focusPerson(person.id)} title={issue.message}>
+                      {personName(person)}
+                    </button>
+                  ) : (
+                    <span>
+                      {issue.familyId ? dataset.raw.families[issue.familyId]?.name : `Filter “${issue.queryName}”`}
+                    </span>
+                  )}
+                  <span className="muted quality-message">{issue.message}</span>
+                  {issue.fix && (
+                    <button className="btn btn-subtle" onClick={() => applyIssueFix(issue)}>
+                      {issue.fix.label}
+                    </button>
+                  )}
+                  {issue.kind === 'no-connections' && person && (
+                    <button className="btn btn-subtle" onClick={() => requestDelete(person.id)}>
+                      Delete…
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { describeQuery, runQuery, sameQuery } from '../core/query';
+import type { PersonQuery } from '../core/types';
+import { formatFamilyLabel, personName } from '../core/types';
+import { useStore } from '../state/store';
+
+// How many matches the panel lists by name; the count covers the rest.
+const LISTED = 50;
+
+type YesNo = 'hasParents' | 'hasSpouse' | 'hasChildren' | 'alive' | 'divine';
+
+/** A <select> value for an optional boolean: '' is "any". */
+const yesNo = (v: boolean | undefined) => (v === undefined ? '' : String(v));
+
+/** The filter builder: the tree dims everyone it doesn't match, and a filter
+ *  worth keeping is saved by name into the data file. */
+export default function QueryPanel() {
+  const dataset = useStore(s => s.dataset);
+  const open = useStore(s => s.queryPanelOpen);
+  const query = useStore(s => s.query);
+  const setQuery = useStore(s => s.setQuery);
+  const toggle = useStore(s => s.toggleQueryPanel);
+  const saveCurrentQuery = useStore(s => s.saveCurrentQuery);
+  const deleteSavedQuery = useStore(s => s.deleteSavedQuery);
+  const focusPerson = useStore(s => s.focusPerson);
+  const editUnlocked = useStore(s => s.editUnlocked);
+  const [name, setName] = useState('');
+
+  const matches = useMemo(() => (dataset && query ? runQuery(dataset, query) : []), [dataset, query]);
+
+  if (!open || !dataset) return null;
+  const q: PersonQuery = query ?? {};
+  const saved = dataset.raw.queries ?? [];
+  const families = Object.entries(dataset.raw.families).sort((a, b) => a[1].name.localeCompare(b[1].name));
+
+  /** Set one field, dropping it when it goes back to "any". */
+  const patch = (changes: Partial<PersonQuery>) => {
+    const next: PersonQuery = { ...q, ...changes };
+    for (const key of Object.keys(next) as (keyof PersonQuery)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    setQuery(next);
+  };
+  const setYesNo = (key: YesNo, v: string) => patch({ [key]: v === '' ? undefined : v === 'true' });
+  const generation = (v: string) => (v === '' ? undefined : Math.max(1, Number.parseInt(v, 10) || 1));
+
+  const yesNoField = (key: YesNo, label: string, yes: string, no: string) => (
+    <label className="field">
+      <span>{label}</span>
+      <select value={yesNo(q[key])} onChange={e => setYesNo(key, e.target.value)}>
+        <option value="">any</option>
+        <option value="true">{yes}</option>
+        <option value="false">{no}</option>
+      </select>
+    </label>
+  );
+
+  return (
+    <section className="query-panel panel" aria-label="Filter people">
+      <header className="detail-head">
+        <h2 className="detail-name">Filter</h2>
+        <button className="btn btn-icon" onClick={toggle} aria-label="Close">
+          ×
+        </button>
+      </header>
+
+      {saved.length > 0 && (
+        <div className="chips" aria-label="Saved filters">
+          {saved.map(s => (
+            <span key={s.name} className={`chip ${query && sameQuery(s.query, query) ? 'chip-active' : ''}`}>
+              <button className="person-link" onClick={() => setQuery(s.query)} title={describeQuery(dataset, s.query)}>
+                {s.name}
+              </button>
+              {editUnlocked && (
+                <button
+                  className="btn btn-icon"
+                  onClick={() => deleteSavedQuery(s.name)}
+                  aria-label={`Delete the saved filter ${s.name}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="detail-body">
+        <div className="field-row">
+          <label className="field">
+            <span>Gender</span>
+            <select
+              value={q.gender ?? ''}
+              onChange={e => patch({ gender: e.target.value === '' ? undefined : (e.target.value as PersonQuery['gender']) })}
+            >
+              <option value="">any</option>
+              <option value="female">women</option>
+              <option value="male">men</option>
+            </select>
+          </label>
+          {yesNoField('alive', 'Alive', 'living', 'late')}
+          {yesNoField('divine', 'Divine', 'devas', 'mortals')}
+        </div>
+        <div className="field-row">
+          <label className="field">
+            <span>Family</span>
+            <select value={q.familyId ?? ''} onChange={e => patch({ familyId: e.target.value || undefined })}>
+              <option value="">any</option>
+              {families.map(([id, f]) => (
+                <option key={id} value={id}>
+                  {formatFamilyLabel(dataset.familyLabels.get(id), f.name)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>Belonging</span>
+            <select
+              value={q.affiliation ?? ''}
+              onChange={e =>
+                patch({ affiliation: e.target.value === '' ? undefined : (e.target.value as PersonQuery['affiliation']) })
+              }
+            >
+              <option value="">any way</option>
+              <option value="birth">born into</option>
+              <option value="adopted-into">adopted into</option>
+              <option value="married-into">married into</option>
+            </select>
+          </label>
+        </div>
+        <div className="field-row">
+          <label className="field">
+            <span>From generation</span>
+            <input
+              type="number"
+              min={1}
+              value={q.minGeneration ?? ''}
+              onChange={e => patch({ minGeneration: generation(e.target.value) })}
+              title="Counted from 1 at the top of each tree"
+            />
+          </label>
+          <label className="field">
+            <span>To generation</span>
+            <input
+              type="number"
+              min={1}
+              value={q.maxGeneration ?? ''}
+              onChange={e => patch({ maxGeneration: generation(e.target.value) })}
+              title="Counted from 1 at the top of each tree"
+            />
+          </label>
+        </div>
+        <div className="field-row">
+          {yesNoField('hasParents', 'Parents', 'recorded', 'none recorded')}
+          {yesNoField('hasSpouse', 'Spouse', 'has one', 'none')}
+          {yesNoField('hasChildren', 'Children', 'has some', 'none')}
+        </div>
+        <label className="field">
+          <span>In a union that is</span>
+          <select
+            value={q.unionStatus ?? ''}
+            onChange={e =>
+              patch({ unionStatus: e.target.value === '' ? undefined : (e.target.value as PersonQuery['unionStatus']) })
+            }
+          >
+            <option value="">any, or none</option>
+            <option value="married">married</option>
+            <option value="divorced">divorced</option>
+            <option value="partners">partners</option>
+            <option value="unknown">of unknown status</option>
+          </select>
+        </label>
+
+        {query ? (
+          <div className="detail-section">
+            <h3>
+              {describeQuery(dataset, query)} <span className="muted">· {matches.length}</span>
+            </h3>
+            {matches.slice(0, LISTED).map(id => (
+              <button key={id} className="person-link" onClick={() => focusPerson(id)}>
+                {personName(dataset.people.get(id)!)}
+              </button>
+            ))}
+            {matches.length > LISTED && <p className="muted">and {matches.length - LISTED} more, lit on the tree</p>}
+            {matches.length === 0 && <p className="muted">No one matches.</p>}
+          </div>
+        ) : (
+          <p className="muted">Pick any of the above; the tree dims everyone who doesn't match.</p>
+        )}
+      </div>
+
+      {query && (
+        <footer className="modal-actions">
+          {editUnlocked && (
+            <>
+              <input
+                className="query-name-input"
+                value={name}
+                placeholder="name this filter"
+                onChange={e => setName(e.target.value)}
+                aria-label="Filter name"
+              />
+              <button
+                className="btn"
+                disabled={!name.trim()}
+                onClick={() => {
+                  saveCurrentQuery(name);
+                  setName('');
+                }}
+                title="Keep this filter in the data file"
+              >
+                Save
+              </button>
+            </>
+          )}
+          <button className="btn btn-subtle" onClick={() => setQuery(null)}>
+            Clear
+          </button>
+        </footer>
+      )}
+    </section>
+  );
+}
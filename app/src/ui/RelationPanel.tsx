@@ -1,7 +1,112 @@
 import { useMemo, useState } from 'react';
+import { formatCoefficient } from '../core/consanguinity';
+import type { AncestrySide } from '../core/eligibility';
+import { kinLocales } from '../core/kinlocales';
+import { search } from '../core/search';
 import { personName } from '../core/types';
 import { useStore } from '../state/store';
 
+// Where the common ancestor sits relative to one of the two people.
+const aboveWord = (n: number, who: string | null): string =>
+  n === 0 ? `is ${who}` : `${n} generation${n > 1 ? 's' : ''} above ${who}`;
+
+const sideWord = (side: AncestrySide | null): string =>
+  side === 'paternal' ? " on the father's side" : side === 'maternal' ? " on the mother's side" : '';
+
+/** The marriage check: the rules, then what (if anything) forbids A and B. */
+function EligibilityCheck({ name }: { name: (id: string | null) => string | null }) {
+  const dataset = useStore(s => s.dataset);
+  const relation = useStore(s => s.relation);
+  const rules = useStore(s => s.eligibilityRules);
+  const setRules = useStore(s => s.setEligibilityRules);
+  const focusPerson = useStore(s => s.focusPerson);
+  const generations = (v: string) => Math.max(0, Number.parseInt(v, 10) || 0);
+  const result = relation.eligibility;
+
+  return (
+    <>
+      <div className="field-row">
+        <label className="field">
+          <span>Father's side</span>
+          <input
+            type="number"
+            min={0}
+            value={rules.paternalGenerations}
+            onChange={e => setRules({ paternalGenerations: generations(e.target.value) })}
+            title="Generations up through the father within which a shared ancestor forbids the match"
+          />
+        </label>
+        <label className="field">
+          <span>Mother's side</span>
+          <input
+            type="number"
+            min={0}
+            value={rules.maternalGenerations}
+            onChange={e => setRules({ maternalGenerations: generations(e.target.value) })}
+            title="Generations up through the mother within which a shared ancestor forbids the match"
+          />
+        </label>
+      </div>
+      <label className="field field-check">
+        <input type="checkbox" checked={rules.sameGotra} onChange={e => setRules({ sameGotra: e.target.checked })} />
+        <span>not of the same gotra</span>
+      </label>
+      <label className="field field-check">
+        <input
+          type="checkbox"
+          checked={rules.sameBirthFamily}
+          onChange={e => setRules({ sameBirthFamily: e.target.checked })}
+        />
+        <span>not born into the same family</span>
+      </label>
+
+      {result && dataset && (
+        <>
+          <p className="relation-result">
+            {result.violations.length === 0 ? (
+              <>
+                <strong>No rule forbids</strong> {name(relation.aId)} and {name(relation.bId)} marrying.
+              </>
+            ) : (
+              <>
+                <strong>Not allowed:</strong> {result.violations.length} rule
+                {result.violations.length > 1 ? 's' : ''} broken.
+              </>
+            )}
+          </p>
+          {result.violations.map(v => (
+            <div className="source-row" key={v.rule === 'sapinda' ? v.ancestorId : v.rule}>
+              {v.rule === 'sapinda' ? (
+                <>
+                  <button className="person-link" onClick={() => focusPerson(v.ancestorId)} title="Show this ancestor">
+                    {name(v.ancestorId)}
+                  </button>
+                  <span className="source-refs">
+                    shared ancestor: {aboveWord(v.upA, name(relation.aId))}
+                    {sideWord(v.sideA)}, {aboveWord(v.upB, name(relation.bId))}
+                    {sideWord(v.sideB)}
+                  </span>
+                </>
+              ) : v.rule === 'gotra' ? (
+                <span>Both of the {v.gotra} gotra</span>
+              ) : (
+                <span>Both born into the {dataset.raw.families[v.familyId]?.name ?? v.familyId} family</span>
+              )}
+            </div>
+          ))}
+          {result.unchecked.length > 0 && (
+            <p className="muted">
+              Not checked:{' '}
+              {result.unchecked.map(u => (u === 'gotra' ? 'gotra' : 'birth family')).join(', ')}, not recorded for
+              one of them.
+            </p>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
 export default function RelationPanel() {
   const dataset = useStore(s => s.dataset);
   const relation = useStore(s => s.relation);
@@ -9,26 +114,28 @@ export default function RelationPanel() {
   const clearRelationPicks = useStore(s => s.clearRelationPicks);
   const clickPerson = useStore(s => s.clickPerson);
   const focusPerson = useStore(s => s.focusPerson);
+  const showRelationPath = useStore(s => s.showRelationPath);
+  const locales = useStore(s => s.kinLocales);
+  const toggleKinLocale = useStore(s => s.toggleKinLocale);
+  const view = useStore(s => s.relationView);
+  const setRelationView = useStore(s => s.setRelationView);
+  const copyShareLink = useStore(s => s.copyShareLink);
   const [query, setQuery] = useState('');
   const [open, setOpen] = useState(false);
 
   const results = useMemo(() => {
-    if (!dataset || query.trim().length < 1) return [];
-    const q = query.trim().toLowerCase();
-    const out: { id: string; label: string; sub: string; color?: string }[] = [];
-    for (const p of dataset.raw.people) {
-      if (personName(p).toLowerCase().includes(q)) {
-        const famId = p.birthFamilyId;
-        out.push({
-          id: p.id,
-          label: personName(p),
+    if (!dataset) return [];
+    return search(dataset.searchIndex, query, ['person'])
+      .slice(0, 8)
+      .map(({ entry: { id, label } }) => {
+        const famId = dataset.people.get(id)?.birthFamilyId;
+        return {
+          id,
+          label,
           sub: famId ? dataset.raw.families[famId]?.name ?? famId : 'unknown lineage',
           color: famId ? dataset.raw.families[famId]?.color : undefined,
-        });
-      }
-      if (out.length >= 8) break;
-    }
-    return out;
+        };
+      });
   }, [dataset, query]);
 
   if (!dataset || !relation.active) return null;
@@ -51,6 +158,21 @@ export default function RelationPanel() {
         </button>
       </header>
 
+      <div className="relation-modes">
+        <button
+          className={`btn ${view === 'kinship' ? 'btn-active' : ''}`}
+          onClick={() => setRelationView('kinship')}
+        >
+          How related
+        </button>
+        <button
+          className={`btn ${view === 'eligibility' ? 'btn-active' : ''}`}
+          onClick={() => setRelationView('eligibility')}
+        >
+          Can they marry?
+        </button>
+      </div>
+
       <div className="relation-slots">
         <div className={`relation-slot ${relation.aId ? 'filled' : ''}`}>
           <span className="slot-label">A</span>
@@ -102,37 +224,136 @@ export default function RelationPanel() {
         )}
       </div>
 
-      {relation.noRelation && (
-        <p className="relation-result muted">
-          No known relation: these two live in disconnected parts of the tree.
-        </p>
-      )}
+      {view === 'eligibility' && <EligibilityCheck name={name} />}
+
+      {view === 'kinship' && (
+        <>
+          <div className="chips" aria-label="Kinship terms in">
+            {kinLocales().map(l => (
+              <button
+                key={l.id}
+                className={`chip ${locales.includes(l.id) ? 'chip-active' : ''}`}
+                onClick={() => toggleKinLocale(l.id)}
+                title={locales.includes(l.id) ? `Stop naming relations in ${l.label}` : `Also name relations in ${l.label}`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
 
-      {relation.name && relation.aId && relation.bId && (
-        <p className="relation-result">
-          <strong>{name(relation.bId)}</strong> is <strong>{name(relation.aId)}</strong>'s{' '}
-          <strong className="relation-name">{relation.local ?? relation.name}</strong>
-          {relation.local && (
-            <span className="relation-en muted"> · {relation.name}</span>
+          {relation.noRelation && (
+            <p className="relation-result muted">
+              No known relation: these two live in disconnected parts of the tree.
+            </p>
           )}
-        </p>
-      )}
-      {!relation.name && relation.steps && relation.steps.length > 0 && (
-        <p className="relation-result muted">No simple name for this one: here's the path:</p>
-      )}
 
-      {relation.chain && relation.chain.length > 1 && (
-        <ol className="relation-chain">
-          {relation.chain.map((hop, i) => (
-            <li key={`${hop.personId}-${i}`}>
-              <button className="person-link" onClick={() => focusPerson(hop.personId)}>
-                {hop.label}
-              </button>
-            </li>
-          ))}
-        </ol>
+          {relation.name && relation.aId && relation.bId && (
+            <p className="relation-result">
+              <strong>{name(relation.bId)}</strong> is <strong>{name(relation.aId)}</strong>'s{' '}
+              <strong className="relation-name">{relation.local ?? relation.name}</strong>
+              {relation.local && (
+                <span className="relation-en muted"> · {relation.name}</span>
+              )}
+            </p>
+          )}
+          {relation.relatedness !== null && relation.relatedness > 0 && (
+            <p className="muted" title="Coefficient of relationship: the share of genes the two have in common by descent">
+              {formatCoefficient(relation.relatedness)} related by blood
+            </p>
+          )}
+          {relation.ancestry && relation.ancestry.length > 0 && (
+            <div className="detail-section">
+              <h3>Related through</h3>
+              {relation.ancestry.map(anc => (
+                <div className="source-row" key={anc.ancestorIds.join('|')}>
+                  <button
+                    className="person-link"
+                    onClick={() => focusPerson(anc.ancestorIds[0])}
+                    title="Show this ancestor"
+                  >
+                    {anc.ancestorIds.map(name).join(' & ')}
+                  </button>
+                  <span className="source-refs">
+                    {aboveWord(anc.upA, name(relation.aId))}, {aboveWord(anc.upB, name(relation.bId))}
+                    {anc.adoptive && ' · by adoption'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {relation.paths && relation.paths.length > 1 && (
+            <div className="relation-paths">
+              <div className="relation-pager">
+                <button
+                  className="btn btn-icon"
+                  disabled={relation.pathIndex === 0}
+                  onClick={() => showRelationPath(relation.pathIndex - 1)}
+                  aria-label="Previous relation"
+                >
+                  ‹
+                </button>
+                <span className="muted">
+                  {relation.pathIndex + 1} of {relation.paths.length} relations
+                </span>
+                <button
+                  className="btn btn-icon"
+                  disabled={relation.pathIndex === relation.paths.length - 1}
+                  onClick={() => showRelationPath(relation.pathIndex + 1)}
+                  aria-label="Next relation"
+                >
+                  ›
+                </button>
+              </div>
+              {(['blood', 'marriage'] as const).map(kind => {
+                const group = relation.paths!.map((r, i) => ({ r, i })).filter(({ r }) => r.kind === kind);
+                if (group.length === 0) return null;
+                return (
+                  <div className="detail-section" key={kind}>
+                    <h3>{kind === 'blood' ? 'By blood' : 'By marriage'}</h3>
+                    {group.map(({ r, i }) => (
+                      <button
+                        key={i}
+                        className={`person-link ${i === relation.pathIndex ? 'relation-current' : ''}`}
+                        onClick={() => showRelationPath(i)}
+                        title={`${r.steps.length} steps`}
+                      >
+                        {r.local ?? r.name ?? `${r.steps.length}-step path`}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {!relation.name && relation.steps && relation.steps.length > 0 && (
+            <p className="relation-result muted">No simple name for this one: here's the path:</p>
+          )}
+
+          {relation.chain && relation.chain.length > 1 && (
+            <ol className="relation-chain">
+              {relation.chain.map((hop, i) => (
+                <li key={`${hop.personId}-${i}`}>
+                  <button className="person-link" onClick={() => focusPerson(hop.personId)}>
+                    {hop.label}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+
+        </>
       )}
 
+      {relation.aId && relation.bId && (
+        <button
+          className="btn btn-subtle share-link-btn"
+          onClick={() => copyShareLink(`Link copied, it opens on how ${name(relation.aId)} and ${name(relation.bId)} are related`)}
+          title="Copy a link that opens the relation finder on these two"
+        >
+          ⤴ Share
+        </button>
+      )}
       {(relation.aId || relation.bId) && (
         <button className="btn btn-subtle" onClick={clearRelationPicks}>
           Clear picks
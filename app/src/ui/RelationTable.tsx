@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import type { KinTableRow } from '../core/kinship';
+import { relationsFrom } from '../core/kinship';
+import { personName } from '../core/types';
+import { useStore } from '../state/store';
+
+type GroupOrder = 'closest' | 'relation' | 'size';
+
+const UNNAMED = 'no simple name';
+
+/** "How is everyone related to me": one row per relative, grouped by relation,
+ *  filterable, and downloadable as CSV for a guest list. */
+export default function RelationTable() {
+  const dataset = useStore(s => s.dataset);
+  const personId = useStore(s => s.relationTableId);
+  const locales = useStore(s => s.kinLocales);
+  const close = useStore(s => s.closeRelationTable);
+  const exportRows = useStore(s => s.exportRelationTable);
+  const focusPerson = useStore(s => s.focusPerson);
+  const [query, setQuery] = useState('');
+  const [order, setOrder] = useState<GroupOrder>('closest');
+  const [bloodOnly, setBloodOnly] = useState(false);
+
+  const rows = useMemo(
+    () => (dataset && personId && dataset.people.has(personId) ? relationsFrom(dataset, personId, locales) : []),
+    [dataset, personId, locales],
+  );
+
+  const groups = useMemo(() => {
+    if (!dataset) return [];
+    const q = query.trim().toLowerCase();
+    const shown = rows.filter(r => {
+      if (bloodOnly && r.kind !== 'blood') return false;
+      if (!q) return true;
+      const p = dataset.people.get(r.personId)!;
+      return [personName(p), r.name ?? '', r.local ?? ''].some(t => t.toLowerCase().includes(q));
+    });
+    const byName = new Map<string, KinTableRow[]>();
+    for (const r of shown) {
+      const key = r.name ?? UNNAMED;
+      byName.set(key, [...(byName.get(key) ?? []), r]);
+    }
+    const nameOf = (r: KinTableRow) => personName(dataset.people.get(r.personId)!);
+    const out = [...byName].map(([name, members]) => ({
+      name,
+      members: members.sort((x, y) => nameOf(x).localeCompare(nameOf(y))),
+      nearest: Math.min(...members.map(r => r.steps.length)),
+    }));
+    // Unnamed relations always go last: they're the long tail.
+    const last = (g: { name: string }) => Number(g.name === UNNAMED);
+    return out.sort(
+      (x, y) =>
+        last(x) - last(y) ||
+        (order === 'closest'
+          ? x.nearest - y.nearest
+          : order === 'size'
+            ? y.members.length - x.members.length
+            : 0) ||
+        x.name.localeCompare(y.name),
+    );
+  }, [dataset, rows, query, order, bloodOnly]);
+
+  if (!dataset || !personId) return null;
+  const person = dataset.people.get(personId);
+  if (!person) return null;
+  const count = groups.reduce((n, g) => n + g.members.length, 0);
+
+  const show = (id: string) => {
+    close();
+    focusPerson(id);
+  };
+
+  return (
+    <div className="modal-backdrop" onMouseDown={e => e.target === e.currentTarget && close()}>
+      <div className="modal panel relation-table-modal">
+        <header className="detail-head">
+          <div>
+            <h2 className="detail-name">Everyone's relation to {personName(person)}</h2>
+            <div className="detail-dates muted">
+              {count} of {rows.length} relatives
+            </div>
+          </div>
+          <button className="btn btn-icon" onClick={close} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        <div className="field-row">
+          <label className="field">
+            <span>Filter</span>
+            <input
+              type="search"
+              placeholder="name or relation"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span>Order groups</span>
+            <select value={order} onChange={e => setOrder(e.target.value as GroupOrder)}>
+              <option value="closest">closest first</option>
+              <option value="relation">by relation, A–Z</option>
+              <option value="size">largest first</option>
+            </select>
+          </label>
+        </div>
+        <label className="field field-check">
+          <input type="checkbox" checked={bloodOnly} onChange={e => setBloodOnly(e.target.checked)} />
+          <span>blood relatives only</span>
+        </label>
+
+        <div className="detail-body">
+          <table className="kin-table">
+            <tbody>
+              {groups.map(g => [
+                <tr key={`group:${g.name}`} className="kin-group">
+                  <th colSpan={3}>
+                    {g.name} <span className="muted">· {g.members.length}</span>
+                  </th>
+                </tr>,
+                ...g.members.map(r => (
+                  <tr key={r.personId}>
+                    <td>
+                      <button className="person-link" onClick={() => show(r.personId)}>
+                        {personName(dataset.people.get(r.personId)!)}
+                      </button>
+                    </td>
+                    <td className="muted">{r.local}</td>
+                    <td className="kin-steps muted" title="Steps along the shortest path">
+                      {r.steps.length}
+                    </td>
+                  </tr>
+                )),
+              ])}
+            </tbody>
+          </table>
+          {count === 0 && <p className="muted">No one matches.</p>}
+        </div>
+
+        <footer className="modal-actions">
+          <button
+            className="btn"
+            onClick={() => exportRows(groups.flatMap(g => g.members))}
+            disabled={count === 0}
+          >
+            Download CSV
+          </button>
+          <button className="btn btn-primary" onClick={close}>
+            Done
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+}
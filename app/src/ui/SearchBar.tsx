@@ -1,9 +1,11 @@
-import { useMemo, useState } from 'react';
-import { personName } from '../core/types';
+import { useEffect, useMemo, useState } from 'react';
+import type { PlaceTie } from '../core/types';
+import { search } from '../core/search';
+import { personName, placeName } from '../core/types';
 import { useStore } from '../state/store';
 
 interface Result {
-  kind: 'person' | 'family';
+  kind: 'person' | 'family' | 'place';
   id: string;
   label: string;
   sub: string;
@@ -16,48 +18,90 @@ export default function SearchBar() {
   const relationActive = useStore(s => s.relation.active);
   const clickPerson = useStore(s => s.clickPerson);
   const setLens = useStore(s => s.setLens);
+  const placeId = useStore(s => s.searchPlaceId);
+  const searchPlace = useStore(s => s.searchPlace);
   const [query, setQuery] = useState('');
   const [open, setOpen] = useState(false);
 
+  // Entering place mode (from a result, or a place link on the detail card)
+  // opens the list straight away.
+  useEffect(() => {
+    if (placeId) {
+      setQuery('');
+      setOpen(true);
+    }
+  }, [placeId]);
+  const place = placeId ? dataset?.raw.places?.[placeId] : undefined;
+
   const results = useMemo((): Result[] => {
-    if (!dataset || query.trim().length < 1) return [];
-    const q = query.trim().toLowerCase();
-    const out: Result[] = [];
-    for (const [id, fam] of Object.entries(dataset.raw.families)) {
-      if (fam.name.toLowerCase().includes(q)) {
-        const dist = dataset.familyLabels.get(id)?.distinguisher;
-        out.push({
-          kind: 'family',
-          id,
-          label: dist ? `${fam.name} · ${dist}` : fam.name,
-          sub: `family · ${dataset.membersOfFamily.get(id)?.size ?? 0} people`,
-          color: fam.color,
-        });
+    if (!dataset) return [];
+    const personResult = (id: string, sub: string): Result | null => {
+      const p = dataset.people.get(id);
+      if (!p) return null;
+      const famId = p.birthFamilyId;
+      return {
+        kind: 'person',
+        id,
+        label: personName(p),
+        sub,
+        color: famId ? dataset.raw.families[famId]?.color : undefined,
+      };
+    };
+    // Place mode: everyone tied to the place, the query only narrowing it down.
+    if (placeId) {
+      const ties = new Map<string, PlaceTie[]>();
+      for (const t of dataset.peopleAtPlace.get(placeId) ?? []) {
+        ties.set(t.personId, [...(ties.get(t.personId) ?? []), t.tie]);
       }
-      if (out.length >= 4) break;
-    }
-    for (const p of dataset.raw.people) {
-      const name = personName(p).toLowerCase();
-      if (name.includes(q)) {
-        const famId = p.birthFamilyId;
-        out.push({
-          kind: 'person',
-          id: p.id,
-          label: personName(p),
-          sub: famId ? dataset.raw.families[famId]?.name ?? famId : 'unknown lineage',
-          color: famId ? dataset.raw.families[famId]?.color : undefined,
-        });
+      if (!query.trim()) {
+        return [...ties]
+          .map(([id, how]) => personResult(id, how.join(' · ')))
+          .filter(r => r !== null)
+          .sort((a, b) => a.label.localeCompare(b.label));
       }
-      if (out.length >= 9) break;
+      return search(dataset.searchIndex, query, ['person'])
+        .filter(h => ties.has(h.entry.id))
+        .map(h => personResult(h.entry.id, ties.get(h.entry.id)!.join(' · ')))
+        .filter(r => r !== null);
     }
-    return out;
-  }, [dataset, query]);
+    const hits = search(dataset.searchIndex, query);
+    const ofKind = (kind: Result['kind'], max: number) => hits.filter(h => h.entry.kind === kind).slice(0, max);
+    const places = ofKind('place', 2).map(
+      ({ entry: { id, label } }): Result => ({
+        kind: 'place',
+        id,
+        label,
+        sub: `place · ${new Set(dataset.peopleAtPlace.get(id)?.map(t => t.personId)).size} people`,
+      }),
+    );
+    const families = ofKind('family', 5 - places.length).map(({ entry: { id } }): Result => {
+      const fam = dataset.raw.families[id];
+      const dist = dataset.familyLabels.get(id)?.distinguisher;
+      return {
+        kind: 'family',
+        id,
+        label: dist ? `${fam.name} · ${dist}` : fam.name,
+        sub: `family · ${dataset.membersOfFamily.get(id)?.size ?? 0} people`,
+        color: fam.color,
+      };
+    });
+    const people = ofKind('person', 10 - places.length - families.length)
+      .map(({ entry: { id } }) => {
+        const famId = dataset.people.get(id)?.birthFamilyId;
+        return personResult(id, famId ? dataset.raw.families[famId]?.name ?? famId : 'unknown lineage');
+      })
+      .filter(r => r !== null);
+    return [...places, ...families, ...people];
+  }, [dataset, query, placeId]);
 
   const select = (r: Result) => {
     if (r.kind === 'person') {
       // In relation mode a search hit counts as a pick, same as clicking the node.
       if (relationActive) clickPerson(r.id);
       else focusPerson(r.id);
+    } else if (r.kind === 'place') {
+      searchPlace(r.id);
+      return;
     } else {
       setLens(r.id);
     }
@@ -70,7 +114,7 @@ export default function SearchBar() {
       <input
         className="search-input"
         type="search"
-        placeholder="Search people or families…"
+        placeholder={placeId ? `Filter people tied to ${place?.name ?? placeId}…` : 'Search people, families or places…'}
         value={query}
         onChange={e => {
           setQuery(e.target.value);
@@ -81,17 +125,41 @@ export default function SearchBar() {
         onKeyDown={e => {
           if (e.key === 'Enter' && results.length > 0) select(results[0]);
           if (e.key === 'Escape') {
+            // First Escape leaves place mode, the next one the input.
+            if (placeId && !query) {
+              searchPlace(null);
+              return;
+            }
             setQuery('');
             (e.target as HTMLInputElement).blur();
           }
         }}
       />
-      {open && results.length > 0 && (
+      {open && (results.length > 0 || placeId) && (
         <ul className="search-results panel">
+          {placeId && (
+            <li className="search-place">
+              <span>
+                📍 {placeName(place, placeId)} · {results.length} {results.length === 1 ? 'person' : 'people'}
+              </span>
+              <button
+                className="btn btn-icon"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => searchPlace(null)}
+                aria-label="Leave place search"
+              >
+                ×
+              </button>
+            </li>
+          )}
           {results.map(r => (
             <li key={`${r.kind}:${r.id}`}>
               <button className="search-result" onMouseDown={e => e.preventDefault()} onClick={() => select(r)}>
-                <span className="fam-dot" style={{ background: r.color ?? '#8a93a6' }} />
+                {r.kind === 'place' ? (
+                  <span aria-hidden>📍</span>
+                ) : (
+                  <span className="fam-dot" style={{ background: r.color ?? '#8a93a6' }} />
+                )}
                 <span className="search-label">{r.label}</span>
                 <span className="search-sub">{r.sub}</span>
               </button>
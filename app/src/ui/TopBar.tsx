@@ -1,4 +1,3 @@
-import { useRef } from 'react';
 import {
   isShowcase,
   SHOWCASE_LABELS,
@@ -16,8 +15,10 @@ export default function TopBar() {
   const dataSource = useStore(s => s.dataSource);
   const openForm = useStore(s => s.openForm);
   const toggleRelationMode = useStore(s => s.toggleRelationMode);
-  const importText = useStore(s => s.importText);
+  const openImport = useStore(s => s.openImport);
   const exportDownload = useStore(s => s.exportDownload);
+  const exportGedcom = useStore(s => s.exportGedcom);
+  const exportPatch = useStore(s => s.exportPatch);
   const saveToFile = useStore(s => s.saveToFile);
   const requestReset = useStore(s => s.requestReset);
   const fitView = useStore(s => s.fitView);
@@ -27,19 +28,22 @@ export default function TopBar() {
   const lockEditing = useStore(s => s.lockEditing);
   const openFamilyEditor = useStore(s => s.openFamilyEditor);
   const gotoShowcase = useStore(s => s.gotoShowcase);
-
-  const fileRef = useRef<HTMLInputElement>(null);
+  const undo = useStore(s => s.undo);
+  const redo = useStore(s => s.redo);
+  const canUndo = useStore(s => s.history.past.length > 0);
+  const canRedo = useStore(s => s.history.future.length > 0);
+  const historyOpen = useStore(s => s.historyOpen);
+  const toggleHistory = useStore(s => s.toggleHistory);
+  const queryPanelOpen = useStore(s => s.queryPanelOpen);
+  const filtering = useStore(s => s.query !== null);
+  const toggleQueryPanel = useStore(s => s.toggleQueryPanel);
+  const qualityOpen = useStore(s => s.qualityOpen);
+  const toggleQualityPanel = useStore(s => s.toggleQualityPanel);
 
   // On a showcase lineage the wordmark's label doubles as the lineage picker, and
   // the 2D/3D toggle disappears, since those trees are 3D-only.
   const showcase = isShowcase(dataSource) ? dataSource : null;
 
-  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) importText(await file.text());
-    e.target.value = '';
-  };
-
   return (
     <header className="topbar">
       <div className="wordmark">
@@ -90,6 +94,13 @@ export default function TopBar() {
         >
           Relation
         </button>
+        <button
+          className={`btn ${queryPanelOpen || filtering ? 'btn-active' : ''}`}
+          onClick={toggleQueryPanel}
+          title="Light up only the people matching a filter: living, born into a family, in a generation…"
+        >
+          Filter
+        </button>
         <Legend />
 
         {/* Editing tools: only shown once unlocked with the edit key. Grouped so the
@@ -99,15 +110,41 @@ export default function TopBar() {
             <button className="btn" onClick={() => openForm('standalone')} title="Add a standalone person">
               + Add
             </button>
+            <button className="btn btn-icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">
+              ↶
+            </button>
+            <button className="btn btn-icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+              ↷
+            </button>
+            <button
+              className={`btn ${historyOpen ? 'btn-active' : ''}`}
+              onClick={toggleHistory}
+              title="Every edit this session, to step back to any of them"
+            >
+              History
+            </button>
+            <button
+              className={`btn ${qualityOpen ? 'btn-active' : ''}`}
+              onClick={toggleQualityPanel}
+              title="Warnings and loose ends in the data, with one-click fixes"
+            >
+              Checks
+            </button>
             <button className="btn" onClick={openFamilyEditor} title="Edit family names, colors, branches">
               Edit families
             </button>
-            <button className="btn" onClick={() => fileRef.current?.click()} title="Merge a relative's file into yours">
+            <button className="btn" onClick={openImport} title="Merge a relative's file (JSON or GEDCOM) or apply their patch">
               Import
             </button>
             <button className="btn" onClick={exportDownload} title="Download a copy to share">
               Export
             </button>
+            <button className="btn" disabled={!canUndo} onClick={exportPatch} title="Download just your edits, for a relative to apply to their copy">
+              Patch
+            </button>
+            <button className="btn" onClick={() => exportGedcom()} title="Download the whole tree as GEDCOM for other genealogy software">
+              GEDCOM
+            </button>
             <button className={`btn btn-primary ${dirty ? 'btn-dirty' : ''}`} onClick={() => void saveToFile()} title="Save as the default data file">
               Save{dirty && <span className="dirty-dot" />}
             </button>
@@ -119,7 +156,6 @@ export default function TopBar() {
             <button className="btn btn-subtle" onClick={lockEditing} title="Hide editing tools">
               Lock
             </button>
-            <input ref={fileRef} type="file" accept=".json,application/json" hidden onChange={e => void onFile(e)} />
           </div>
         )}
       </nav>
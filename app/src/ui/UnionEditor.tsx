@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { UnionStatus } from '../core/types';
+import { formatFamilyLabel, personName, placeName } from '../core/types';
+import { useStore } from '../state/store';
+import { DateField, PlaceField, PlaceList, STATUS_OPTIONS } from './PersonForm';
+
+const UNKNOWN = '';
+const STAYS = '';
+// Move-target value meaning "only this partner is the child's parent".
+const ONLY = 'only:';
+
+/** Everything about a union after it exists: status, where it sits among each
+ *  partner's marriages, the children's family and layer gap, notes, the missing
+ *  second partner, and which children belong to it. One Save, one undo step. */
+export default function UnionEditor() {
+  const dataset = useStore(s => s.dataset);
+  const unionId = useStore(s => s.unionEditorId);
+  const error = useStore(s => s.unionEditorError);
+  const close = useStore(s => s.closeUnionEditor);
+  const save = useStore(s => s.saveUnion);
+
+  const [status, setStatus] = useState<UnionStatus>('married');
+  const [familyId, setFamilyId] = useState(UNKNOWN);
+  const [order, setOrder] = useState('');
+  const [childGap, setChildGap] = useState('');
+  const [marriageDate, setMarriageDate] = useState('');
+  const [marriagePlace, setMarriagePlace] = useState('');
+  const [notes, setNotes] = useState('');
+  const [partnerQuery, setPartnerQuery] = useState('');
+  const [moves, setMoves] = useState<Record<string, string>>({});
+
+  const union = unionId ? dataset?.unions.get(unionId) : undefined;
+
+  useEffect(() => {
+    if (!union || !dataset) return;
+    setStatus(union.status);
+    setFamilyId(union.familyId ?? UNKNOWN);
+    setOrder(union.order !== undefined ? String(union.order) : '');
+    setChildGap(union.childGap ? String(union.childGap) : '');
+    setMarriageDate(union.marriageDate ?? '');
+    setMarriagePlace(
+      union.marriagePlaceId ? placeName(dataset.raw.places?.[union.marriagePlaceId], union.marriagePlaceId) : '',
+    );
+    setNotes(union.notes ?? '');
+    setPartnerQuery('');
+    setMoves({});
+  }, [union, dataset]);
+
+  const peopleOptions = useMemo(() => {
+    if (!dataset) return [];
+    return dataset.raw.people
+      .map(p => ({ id: p.id, label: `${personName(p)}: ${p.id}` }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [dataset]);
+
+  if (!dataset || !union) return null;
+
+  const name = (id: string) => {
+    const p = dataset.people.get(id);
+    return p ? personName(p) : id;
+  };
+  const families = Object.entries(dataset.raw.families).sort((a, b) => a[1].name.localeCompare(b[1].name));
+  const partnerId = peopleOptions.find(o => o.label === partnerQuery)?.id ?? null;
+  // Where a child can go instead: the partners' other unions, or either partner alone.
+  const otherUnions = [
+    ...new Set(union.partners.flatMap(p => dataset.unionsOf.get(p) ?? [])),
+  ].filter(uid => uid !== union.id);
+  const unionWord = (uid: string) => {
+    const u = dataset.unions.get(uid)!;
+    return u.partners.length === 1 ? `${name(u.partners[0])} alone` : u.partners.map(name).join(' & ');
+  };
+  const title =
+    union.partners.length === 1 ? `${name(union.partners[0])}, other parent unknown` : union.partners.map(name).join(' & ');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const orderNum = Number.parseInt(order, 10);
+    const gapNum = Number.parseInt(childGap, 10);
+    save({
+      edit: {
+        patch: {
+          status,
+          familyId: familyId === UNKNOWN ? null : familyId,
+          order: Number.isNaN(orderNum) ? undefined : orderNum,
+          childGap: Number.isNaN(gapNum) ? undefined : gapNum,
+          marriageDate: marriageDate.trim() || undefined,
+          notes: notes.trim() || undefined,
+        },
+        partnerId,
+        moves: Object.fromEntries(
+          Object.entries(moves)
+            .filter(([, to]) => to !== STAYS)
+            .map(([cid, to]) => [cid, to.startsWith(ONLY) ? { parentId: to.slice(ONLY.length) } : to]),
+        ),
+      },
+      marriagePlace,
+    });
+  };
+
+  return (
+    <div className="modal-backdrop" onMouseDown={e => e.target === e.currentTarget && close()}>
+      <form className="modal panel" onSubmit={submit}>
+        <PlaceList />
+        <datalist id="rv-people">
+          {peopleOptions.map(o => (
+            <option key={o.id} value={o.label} />
+          ))}
+        </datalist>
+        <header className="detail-head">
+          <div>
+            <h2 className="detail-name">{title}</h2>
+            <div className="detail-dates muted">{union.id}</div>
+          </div>
+          <button type="button" className="btn btn-icon" onClick={close} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        {union.partners.length === 1 && (
+          <label className="field">
+            <span>Other parent</span>
+            <input
+              list="rv-people"
+              placeholder="type to pick the second partner, if now known"
+              value={partnerQuery}
+              onChange={e => setPartnerQuery(e.target.value)}
+            />
+          </label>
+        )}
+
+        <div className="field-row">
+          <label className="field">
+            <span>Status</span>
+            <select value={status} onChange={e => setStatus(e.target.value as UnionStatus)}>
+              {STATUS_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>Children take the family</span>
+            <select value={familyId} onChange={e => setFamilyId(e.target.value)}>
+              <option value={UNKNOWN}>unknown</option>
+              {families.map(([id, f]) => (
+                <option key={id} value={id}>
+                  {formatFamilyLabel(dataset.familyLabels.get(id), f.name)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="field-row">
+          <DateField label="Married" value={marriageDate} onChange={setMarriageDate} />
+          <PlaceField label="Married in" value={marriagePlace} onChange={setMarriagePlace} />
+        </div>
+        <div className="field-row">
+          <label className="field">
+            <span>Order</span>
+            <input type="number" value={order} onChange={e => setOrder(e.target.value)} placeholder="1" />
+          </label>
+          <label className="field">
+            <span>Child gap</span>
+            <input type="number" min={1} value={childGap} onChange={e => setChildGap(e.target.value)} placeholder="1" />
+          </label>
+        </div>
+        <span className="muted">
+          Order puts this union among each partner's others (lower first: a second marriage is 2). Child gap
+          is how many generations below the parents the children sit.
+        </span>
+        <label className="field">
+          <span>Notes</span>
+          <textarea rows={2} value={notes} onChange={e => setNotes(e.target.value)} />
+        </label>
+
+        {union.children.length + (union.adoptedChildren?.length ?? 0) > 0 && (
+          <div className="detail-section">
+            <h3>Children</h3>
+            {union.children.map(cid => (
+              <label key={cid} className="field field-row union-edit">
+                <span>{name(cid)}</span>
+                <select value={moves[cid] ?? STAYS} onChange={e => setMoves(prev => ({ ...prev, [cid]: e.target.value }))}>
+                  <option value={STAYS}>stays here</option>
+                  {otherUnions.map(uid => (
+                    <option key={uid} value={uid}>
+                      move to {unionWord(uid)}
+                    </option>
+                  ))}
+                  {union.partners.length === 2 &&
+                    union.partners.map(pid => (
+                      <option key={pid} value={ONLY + pid}>
+                        only {name(pid)}'s child
+                      </option>
+                    ))}
+                </select>
+              </label>
+            ))}
+            {(union.adoptedChildren ?? []).map(cid => (
+              <div key={cid} className="child-row muted">
+                {name(cid)} <em className="tag">adopted</em>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="form-error">{error}</p>}
+
+        <footer className="modal-actions">
+          <button type="button" className="btn btn-subtle" onClick={close}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary">
+            Save changes
+          </button>
+        </footer>
+      </form>
+    </div>
+  );
+}